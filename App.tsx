@@ -1,32 +1,67 @@
-import React, { useState } from 'react';
+import React, { useEffect } from 'react';
 import Header from './components/Header';
 import HomePage from './components/HomePage';
 import AreaPage from './components/AreaPage';
-import { Area } from './types';
+import { Area, ViewType } from './types';
+import { HOME_ROUTE, ViewFilters } from './services/routing';
+import { useRoute } from './hooks/useRoute';
+import { submissionQueue } from './services/submissionQueue';
+import { session } from './services/auth';
+import { useSession } from './hooks/useSession';
+import SignInPage from './components/SignInPage';
 
 const App: React.FC = () => {
-  const [currentArea, setCurrentArea] = useState<Area | null>(null);
+  const { route, navigate, goBack } = useRoute();
+  const currentSession = useSession();
+  const currentArea = route.area;
+
+  useEffect(() => {
+    // Keep sending queued stock entries in the background, whichever page is open.
+    submissionQueue.start();
+  }, []);
 
   const handleNavigate = (area: Area) => {
-    setCurrentArea(area);
+    navigate({ area, view: 'dashboard', filters: {} });
   };
 
   const handleGoHome = () => {
-    setCurrentArea(null);
+    navigate(HOME_ROUTE);
+  };
+
+  const handleViewChange = (view: ViewType) => {
+    if (!currentArea) return;
+    if (view === 'dashboard') {
+      goBack({ area: currentArea, view, filters: {} });
+    } else {
+      navigate({ area: currentArea, view, filters: {} });
+    }
+  };
+
+  // Filter edits replace the current entry so Back/Forward step through views, not keystrokes.
+  const handleFiltersChange = (filters: ViewFilters) => {
+    navigate({ ...route, filters }, { replace: true });
   };
 
   return (
     <div className="min-h-screen bg-charcoal text-cream font-sans selection:bg-pale-yellow selection:text-charcoal">
-      <Header onGoHome={handleGoHome} />
+      <Header onGoHome={handleGoHome} user={currentSession?.user ?? null} onSignOut={() => { void session.signOut(); }} />
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {currentArea ? (
+        {/* Signing in keeps the current URL, so a deep link or scanned label opens once the user is in. */}
+        {!currentSession ? (
+          <SignInPage />
+        ) : currentArea ? (
           <AreaPage 
             area={currentArea} 
-            onBack={handleGoHome} 
+            view={route.view}
+            filters={route.filters}
+            onBack={() => goBack(HOME_ROUTE)} 
             onNavigate={handleNavigate}
+            onViewChange={handleViewChange}
+            onFiltersChange={handleFiltersChange}
+            onOpenRoute={navigate}
           />
         ) : (
-          <HomePage onNavigate={handleNavigate} />
+          <HomePage onNavigate={handleNavigate} onOpenRoute={navigate} />
         )}
       </main>
     </div>
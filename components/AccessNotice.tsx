@@ -0,0 +1,18 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { ErrorIcon } from './icons';
+
+/** Shown instead of a page the signed-in user's role doesn't allow. */
+const AccessNotice: React.FC<{ message: string }> = ({ message }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex flex-col items-center justify-center p-8 bg-teal rounded-lg text-center">
+      <ErrorIcon />
+      <h3 className="text-xl font-semibold mt-4">{t('access.title')}</h3>
+      <p className="mt-2 text-cream/80">{message}</p>
+      <p className="mt-1 text-sm text-cream/60">{t('access.askAdmin')}</p>
+    </div>
+  );
+};
+
+export default AccessNotice;
@@ -0,0 +1,218 @@
+import React, { useMemo, useState } from 'react';
+import { Area } from '../types';
+import { AREAS, areaConfig, hasSeveralVendors } from '../services/areaRegistry';
+import { can } from '../services/auth';
+import {
+  consumptionByArea, DateRange, latestDate, monthlyUseBy, monthlyVolume, monthsEndingAt, monthsInRange, todayIso, topConsumed,
+} from '../services/consumption';
+import { useConsumptionData } from '../hooks/useConsumptionData';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import BarChart from './BarChart';
+import { LoadingSpinner } from './icons';
+
+interface AnalyticsPageProps {
+  area: Area;
+}
+
+/** Equipment types listed under "Most used". */
+const TOP_EQUIPMENT_LIMIT = 10;
+const RANGE_PRESETS = [3, 6, 12];
+const ADD_COLOR = '#F3DE8A';
+const USE_COLOR = '#FDBA74';
+/** Bar colour per vendor or area, in config order. */
+const GROUP_COLORS = ['#F3DE8A', '#FDBA74', '#93C5FD', '#F9A8D4', '#86EFAC', '#FAF6E8'];
+
+const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ area }) => {
+  const user = useSession()?.user ?? null;
+  const { t, formatMonth, formatNumber } = useI18n();
+  const config = areaConfig(area);
+  // This area first, then the others the user may see, for the comparison.
+  const areas = useMemo(
+    () => [config, ...AREAS.filter(other => other.id !== area && can(user, other.id, 'view'))],
+    [config, area, user]
+  );
+  const { points, failed, loading, reload } = useConsumptionData(areas);
+
+  const [chosenRange, setChosenRange] = useState<DateRange | null>(null);
+  // Until a range is picked, show the year up to the latest movement, so an area that has been
+  // quiet lately still shows its history.
+  const range = chosenRange ?? monthsEndingAt(latestDate(points) ?? todayIso(), 12);
+  const invalidRange = range.from > range.to;
+
+  const ownPoints = useMemo(() => points.filter(point => point.area === area), [points, area]);
+  const months = useMemo(() => (invalidRange ? [] : monthsInRange(range)), [range.from, range.to, invalidRange]);
+  const categories = months.map(formatMonth);
+
+  const volume = useMemo(() => monthlyVolume(ownPoints, range), [ownPoints, range.from, range.to]);
+  const topEquipment = useMemo(() => topConsumed(ownPoints, range, TOP_EQUIPMENT_LIMIT), [ownPoints, range.from, range.to]);
+  const byVendor = useMemo(
+    () => monthlyUseBy(ownPoints, range, config.vendors.map(vendor => vendor.id), point => point.vendor.id),
+    [ownPoints, range.from, range.to, config]
+  );
+  const byArea = useMemo(
+    () => monthlyUseBy(points, range, areas.map(other => other.id), point => point.area),
+    [points, range.from, range.to, areas]
+  );
+  const areaTotals = useMemo(() => consumptionByArea(points, range, areas), [points, range.from, range.to, areas]);
+  const own = areaTotals[0];
+  const topMax = Math.max(1, ...topEquipment.map(item => item.quantity));
+
+  const inputClasses = "px-3 py-1.5 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream text-sm";
+  const sectionClasses = "bg-charcoal/40 rounded-md p-4";
+
+  const renderRangeControls = () => (
+    <div className="flex flex-wrap items-end gap-3">
+      <div>
+        <label htmlFor="analytics-from" className="block text-xs text-cream/70 mb-1">{t('analytics.from')}</label>
+        <input id="analytics-from" type="date" value={range.from} onChange={e => e.target.value && setChosenRange({ ...range, from: e.target.value })} className={inputClasses} />
+      </div>
+      <div>
+        <label htmlFor="analytics-to" className="block text-xs text-cream/70 mb-1">{t('transferForm.to')}</label>
+        <input id="analytics-to" type="date" value={range.to} onChange={e => e.target.value && setChosenRange({ ...range, to: e.target.value })} className={inputClasses} />
+      </div>
+      <div className="flex gap-2" role="group" aria-label={t('analytics.presets')}>
+        {RANGE_PRESETS.map(count => (
+          <button
+            key={count}
+            onClick={() => setChosenRange(monthsEndingAt(todayIso(), count))}
+            className="px-3 py-1.5 text-sm font-medium rounded-md bg-charcoal/50 text-cream hover:bg-charcoal/70 focus:outline-none focus:ring-2 focus:ring-pale-yellow"
+          >
+            {t('analytics.lastMonths', { count })}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (loading && points.length === 0) {
+      return <div className="flex items-center justify-center py-10 text-cream/70"><LoadingSpinner size="h-5 w-5" /><span className="ml-2">{t('analytics.loading')}</span></div>;
+    }
+    if (invalidRange) {
+      return <p className="text-center py-10 text-red-300">{t('analytics.invalidRange')}</p>;
+    }
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {[
+            { label: t('analytics.used'), value: formatNumber(own.used) },
+            { label: t('analytics.added'), value: formatNumber(own.added) },
+            { label: t('analytics.usedPerMonth'), value: formatNumber(own.usedPerMonth) },
+          ].map(card => (
+            <div key={card.label} className={sectionClasses}>
+              <p className="text-xs uppercase tracking-wider text-cream/70">{card.label}</p>
+              <p className="text-3xl font-semibold text-pale-yellow">{card.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <section className={sectionClasses}>
+          <h4 className="font-semibold mb-3">{t('analytics.volume')}</h4>
+          <BarChart
+            title={t('analytics.volumeTitle', { area: config.name })}
+            categories={categories}
+            series={[
+              { label: t('analytics.added'), color: ADD_COLOR, values: volume.map(month => month.added) },
+              { label: t('analytics.used'), color: USE_COLOR, values: volume.map(month => month.used) },
+            ]}
+          />
+        </section>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <section className={sectionClasses}>
+            <h4 className="font-semibold mb-3">{t('analytics.topEquipment')}</h4>
+            {topEquipment.length === 0 ? (
+              <p className="text-sm text-cream/70">{t('analytics.nothingUsed')}</p>
+            ) : (
+              <ol className="space-y-2">
+                {topEquipment.map(item => (
+                  <li key={item.equipment} className="text-sm">
+                    <div className="flex justify-between gap-3">
+                      <span className="truncate">{item.equipment}</span>
+                      <span className="font-semibold">{formatNumber(item.quantity)}</span>
+                    </div>
+                    <div className="mt-1 h-2 rounded bg-charcoal/60">
+                      <div className="h-2 rounded" style={{ width: `${(item.quantity / topMax) * 100}%`, backgroundColor: USE_COLOR }} />
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+
+          {hasSeveralVendors(area) && (
+            <section className={sectionClasses}>
+              <h4 className="font-semibold mb-3">{t('analytics.byVendor')}</h4>
+              <BarChart
+                title={t('analytics.byVendorTitle', { area: config.name })}
+                categories={categories}
+                series={byVendor.map(({ group, values }, i) => ({
+                  label: config.vendors.find(vendor => vendor.id === group)?.name ?? group,
+                  color: GROUP_COLORS[i % GROUP_COLORS.length],
+                  values,
+                }))}
+              />
+            </section>
+          )}
+        </div>
+
+        {areas.length > 1 && (
+          <section className={sectionClasses}>
+            <h4 className="font-semibold mb-3">{t('analytics.compareAreas')}</h4>
+            <BarChart
+              title={t('analytics.byAreaTitle')}
+              categories={categories}
+              series={byArea.map(({ group, values }, i) => ({
+                label: areas.find(other => other.id === group)?.name ?? group,
+                color: GROUP_COLORS[i % GROUP_COLORS.length],
+                values,
+              }))}
+            />
+            <table className="mt-4 min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wider text-cream/70">
+                  <th className="py-1 pr-3">{t('analytics.area')}</th>
+                  <th className="py-1 pr-3 text-right">{t('analytics.added')}</th>
+                  <th className="py-1 pr-3 text-right">{t('analytics.used')}</th>
+                  <th className="py-1 text-right">{t('analytics.usedPerMonth')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-charcoal/50">
+                {areaTotals.map(total => (
+                  <tr key={total.area.id} className={total.area.id === area ? 'text-pale-yellow' : ''}>
+                    <td className="py-1.5 pr-3">{total.area.name}</td>
+                    <td className="py-1.5 pr-3 text-right">{formatNumber(total.added)}</td>
+                    <td className="py-1.5 pr-3 text-right">{formatNumber(total.used)}</td>
+                    <td className="py-1.5 text-right font-semibold">{formatNumber(total.usedPerMonth)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-teal p-4 sm:p-6 rounded-lg shadow-xl">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-2xl font-semibold">{t('area.consumption')}</h3>
+          <p className="text-xs text-cream/60 mt-1">{t('analytics.help')}</p>
+        </div>
+        {renderRangeControls()}
+      </div>
+      {failed.length > 0 && (
+        <p className="mb-4 text-sm text-orange-300">
+          {t('analytics.notCounted', { sheets: failed.join(', ') })}{' '}
+          <button onClick={reload} className="text-pale-yellow hover:underline">{t('common.tryAgain')}</button>
+        </p>
+      )}
+      {renderContent()}
+    </div>
+  );
+};
+
+export default AnalyticsPage;
@@ -0,0 +1,95 @@
+import React from 'react';
+import DashboardButton from './DashboardButton';
+import LowStockPanel from './LowStockPanel';
+import { Area, ViewType } from '../types';
+import { areaConfig, withVendor } from '../services/areaRegistry';
+import { entryFormView } from '../services/routing';
+import { incomingTransfers } from '../services/transfers';
+import { pendingTestQuantity } from '../services/stockTests';
+import { can } from '../services/auth';
+import { useAreaStockStatus } from '../hooks/useAreaStockStatus';
+import { useTransfers } from '../hooks/useTransfers';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { ClipboardListIcon, WrenchScrewdriverIcon, DocumentPlusIcon, ArrowsRightLeftIcon, BeakerIcon, ChartBarIcon, PrinterIcon } from './icons';
+
+/** Large-screen column count of the dashboard grid, by number of buttons (up to one row of six). */
+const DASHBOARD_COLUMNS = ['lg:grid-cols-1', 'lg:grid-cols-2', 'lg:grid-cols-3', 'lg:grid-cols-4', 'lg:grid-cols-5', 'lg:grid-cols-6'];
+
+interface AreaDashboardProps {
+  area: Area;
+  onViewChange: (view: ViewType) => void;
+}
+
+/**
+ * The buttons of an area and its low-stock panel. Only mounted while the dashboard is showing, so
+ * every visit loads the badges afresh and picks up what was recorded on the other pages meanwhile.
+ */
+const AreaDashboard: React.FC<AreaDashboardProps> = ({ area, onViewChange }) => {
+  const { t } = useI18n();
+  const stockStatus = useAreaStockStatus(area);
+  const { transfers } = useTransfers(area);
+
+  const user = useSession()?.user ?? null;
+  const canRecord = can(user, area, 'record');
+  const config = areaConfig(area);
+
+  const buttonCount = config.vendors.length * (canRecord ? 2 : 1) + (config.equipmentDataType ? 1 : 0) + 4;
+  const incoming = incomingTransfers(transfers, area).length;
+  const waitingForTest = pendingTestQuantity(stockStatus.pendingTests);
+
+  return (
+    <>
+      <div className={`grid grid-cols-1 gap-8 mt-4 sm:grid-cols-2 ${DASHBOARD_COLUMNS[Math.min(buttonCount, DASHBOARD_COLUMNS.length) - 1]}`}>
+        {config.vendors.map(vendor => (
+          <DashboardButton
+            key={`stock-${vendor.id}`}
+            icon={<ClipboardListIcon />}
+            label={withVendor(t('area.stock'), area, vendor)}
+            onClick={() => onViewChange(vendor.stockDataType)}
+            badge={stockStatus.alertCount(vendor.stockDataType)}
+          />
+        ))}
+        {config.equipmentDataType && (
+          <DashboardButton icon={<WrenchScrewdriverIcon />} label={t('area.equipment')} onClick={() => onViewChange('equipment')} />
+        )}
+        {canRecord && config.vendors.map(vendor => (
+          <DashboardButton
+            key={`form-${vendor.id}`}
+            icon={<DocumentPlusIcon />}
+            label={withVendor(t('area.createStock'), area, vendor)}
+            onClick={() => onViewChange(entryFormView(area, vendor))}
+          />
+        ))}
+        <DashboardButton
+          icon={<ArrowsRightLeftIcon />}
+          label={t('area.transfers')}
+          onClick={() => onViewChange('transfers')}
+          badge={incoming}
+          badgeLabel={t('area.transfersWaiting', { count: incoming })}
+        />
+        <DashboardButton
+          icon={<BeakerIcon />}
+          label={t('area.tests')}
+          onClick={() => onViewChange('tests')}
+          badge={waitingForTest}
+          badgeLabel={t('area.testsWaiting', { count: waitingForTest })}
+        />
+        <DashboardButton icon={<ChartBarIcon />} label={t('area.consumption')} onClick={() => onViewChange('analytics')} />
+        <DashboardButton icon={<PrinterIcon />} label={t('area.reports')} onClick={() => onViewChange('reports')} />
+      </div>
+      <div className="mt-8">
+        <LowStockPanel
+          area={area}
+          alerts={stockStatus.alerts}
+          thresholds={stockStatus.thresholds}
+          loading={stockStatus.loading}
+          error={stockStatus.error}
+          onChanged={stockStatus.reload}
+        />
+      </div>
+    </>
+  );
+};
+
+export default AreaDashboard;
@@ -1,61 +1,69 @@
-import React, { useState } from 'react';
-import DashboardButton from './DashboardButton';
+import React from 'react';
 import SheetDataViewer from './SheetDataViewer';
 import CreateCustomerForm from './CreateCustomerForm';
+import StockImportPage from './StockImportPage';
+import StockDocumentForm from './StockDocumentForm';
+import TransfersPage from './TransfersPage';
+import AnalyticsPage from './AnalyticsPage';
+import TestQueuePage from './TestQueuePage';
+import StockReportPage from './StockReportPage';
+import AreaDashboard from './AreaDashboard';
 import { Area, ViewType } from '../types';
-import { ClipboardListIcon, WrenchScrewdriverIcon, DocumentPlusIcon } from './icons';
+import { AREAS, areaConfig, withVendor } from '../services/areaRegistry';
+import { documentView, entryFormView, importView, resolveView, Route, ViewFilters } from '../services/routing';
+import AccessNotice from './AccessNotice';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { can } from '../services/auth';
 
 interface AreaPageProps {
   area: Area;
+  view: ViewType;
+  filters: ViewFilters;
   onBack: () => void;
   onNavigate: (area: Area) => void;
+  onViewChange: (view: ViewType) => void;
+  onFiltersChange: (filters: ViewFilters) => void;
+  onOpenRoute: (route: Route) => void;
 }
 
-const AreaPage: React.FC<AreaPageProps> = ({ area, onBack, onNavigate }) => {
-    const [view, setView] = useState<ViewType>('dashboard');
+const AreaPage: React.FC<AreaPageProps> = ({ area, view, filters, onBack, onNavigate, onViewChange, onFiltersChange, onOpenRoute }) => {
+    const { t } = useI18n();
 
-    const isEwtp = area === Area.EWTP;
-    const otherAreas = Object.values(Area).filter(a => a !== area);
-
-    const renderDashboard = () => {
-        const createStockLabel = isEwtp ? "Create New Stock (ABB)" : "Create New Stock";
-        
-        return (
-            <div className={`grid grid-cols-1 gap-8 mt-4 ${isEwtp ? 'sm:grid-cols-2 lg:grid-cols-5' : 'sm:grid-cols-2 lg:grid-cols-3'}`}>
-                {isEwtp ? (
-                    <>
-                        <DashboardButton icon={<ClipboardListIcon />} label="Stock & Status (ABB)" onClick={() => setView('stock_abb')} />
-                        <DashboardButton icon={<ClipboardListIcon />} label="Stock & Status (SUPCON)" onClick={() => setView('stock_supcon')} />
-                    </>
-                ) : (
-                    <DashboardButton icon={<ClipboardListIcon />} label="Stock & Status" onClick={() => setView('stock')} />
-                )}
-                <DashboardButton icon={<WrenchScrewdriverIcon />} label="Current Equipment" onClick={() => setView('equipment')} />
-                <DashboardButton icon={<DocumentPlusIcon />} label={createStockLabel} onClick={() => setView('customer_form')} />
-                {isEwtp && (
-                    <DashboardButton icon={<DocumentPlusIcon />} label="Create New Stock (SUPCON)" onClick={() => setView('customer_form_supcon')} />
-                )}
-            </div>
-        );
-    };
+    const user = useSession()?.user ?? null;
+    const canRecord = can(user, area, 'record');
+    const config = areaConfig(area);
+    const otherAreas = AREAS.filter(other => other.id !== area && can(user, other.id, 'view'));
 
     const renderView = () => {
-        switch (view) {
+        if (!can(user, area, 'view')) {
+            return <AccessNotice message={t('area.noRole', { area: config.name })} />;
+        }
+        const screen = resolveView(area, view);
+        if ((screen.kind === 'entry_form' || screen.kind === 'import' || screen.kind === 'document') && !canRecord) {
+            return <AccessNotice message={t('area.viewOnly', { area: config.name })} />;
+        }
+        switch (screen.kind) {
             case 'stock':
-                return <SheetDataViewer title="Stock & Status" area={area} dataType="stock" />;
-            case 'stock_abb':
-                return <SheetDataViewer title="Stock & Status (ABB)" area={area} dataType="stock_abb" />;
-            case 'stock_supcon':
-                return <SheetDataViewer title="Stock & Status (SUPCON)" area={area} dataType="stock_supcon" />;
+                return <SheetDataViewer title={withVendor(t('area.stock'), area, screen.vendor)} area={area} dataType={screen.vendor.stockDataType} sheetKind="stock" filters={filters} onFiltersChange={onFiltersChange} />;
             case 'equipment':
-                return <SheetDataViewer title="Current Equipment" area={area} dataType="equipment" />;
-            case 'customer_form':
-                const formTitle = area === Area.EWTP ? "Create New Stock Entry (ABB)" : "Create New Stock Entry";
-                return <CreateCustomerForm area={area} formTitle={formTitle} formVariant={area === Area.EWTP ? 'abb' : undefined} />;
-            case 'customer_form_supcon':
-                return <CreateCustomerForm area={area} formTitle="Create New Stock Entry (SUPCON)" formVariant="supcon" />;
+                return <SheetDataViewer title={t('area.equipment')} area={area} dataType={screen.dataType} sheetKind="equipment" filters={filters} onFiltersChange={onFiltersChange} />;
+            case 'entry_form':
+                return <CreateCustomerForm area={area} formTitle={withVendor(t('area.createStockEntry'), area, screen.vendor)} vendor={screen.vendor} onImport={() => onViewChange(importView(area, screen.vendor))} onDocument={() => onViewChange(documentView(area, screen.vendor))} prefill={filters} onOpenLabel={onOpenRoute} />;
+            case 'document':
+                return <StockDocumentForm area={area} title={withVendor(t('area.entryDocument'), area, screen.vendor)} vendor={screen.vendor} onSingleEntry={() => onViewChange(entryFormView(area, screen.vendor))} />;
+            case 'import':
+                return <StockImportPage area={area} title={withVendor(t('area.importEntries'), area, screen.vendor)} vendor={screen.vendor} />;
+            case 'transfers':
+                return <TransfersPage area={area} />;
+            case 'tests':
+                return <TestQueuePage area={area} />;
+            case 'analytics':
+                return <AnalyticsPage area={area} />;
+            case 'reports':
+                return <StockReportPage area={area} />;
             default:
-                return renderDashboard();
+                return <AreaDashboard area={area} onViewChange={onViewChange} />;
         }
     };
     
@@ -65,26 +73,26 @@ const AreaPage: React.FC<AreaPageProps> = ({ area, onBack, onNavigate }) => {
         <div>
             <div className="flex items-center justify-between mb-8">
                 <button
-                    onClick={isDashboardView ? onBack : () => setView('dashboard')}
+                    onClick={isDashboardView ? onBack : () => onViewChange('dashboard')}
                     className="bg-teal hover:opacity-90 text-cream font-bold py-2 px-4 rounded-lg flex items-center transition-colors duration-200"
                 >
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
                         <path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" />
                     </svg>
-                    Back
+                    {t('common.back')}
                 </button>
                 <h2 className="text-4xl font-semibold text-center text-pale-yellow hidden md:block">
-                    {area === Area.EWTP ? 'ETP and WTP' : area}
+                    {config.title}
                 </h2>
                  <div className="flex items-center gap-2">
                     {otherAreas.map(otherArea => (
                         <button
-                            key={otherArea}
-                            onClick={() => onNavigate(otherArea)}
+                            key={otherArea.id}
+                            onClick={() => onNavigate(otherArea.id)}
                             className="bg-teal hover:opacity-90 text-cream font-semibold py-2 px-4 rounded-lg shadow-md transition-colors duration-300 ease-in-out text-sm"
-                            title={`Switch to ${otherArea}`}
+                            title={t('area.switchTo', { area: otherArea.name })}
                         >
-                            {otherArea}
+                            {otherArea.name}
                         </button>
                     ))}
                 </div>
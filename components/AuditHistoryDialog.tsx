@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Area, SheetDataType } from '../types';
+import { AuditEntry, inventoryApi } from '../services/api';
+import { useI18n } from '../hooks/useI18n';
+import Modal from './Modal';
+import { LoadingSpinner } from './icons';
+
+interface AuditHistoryDialogProps {
+  area: Area;
+  dataType: SheetDataType;
+  sheetRow: number;
+  onClose: () => void;
+}
+
+const AuditHistoryDialog: React.FC<AuditHistoryDialogProps> = ({ area, dataType, sheetRow, onClose }) => {
+  const { t, formatDateTime } = useI18n();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    inventoryApi.getAuditLog(area, dataType, sheetRow)
+      .then(result => {
+        if (isMounted) setEntries(result);
+      })
+      .catch(err => {
+        if (!isMounted) return;
+        console.error("Failed to load audit log:", err);
+        setError(err.message);
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+    return () => { isMounted = false; };
+  }, [area, dataType, sheetRow]);
+
+  return (
+    <Modal title={t('audit.title', { row: sheetRow + 1 })} onClose={onClose}>
+      {loading ? (
+        <div className="flex items-center text-cream/70"><LoadingSpinner size="h-5 w-5" /><span className="ml-2">{t('audit.loading')}</span></div>
+      ) : error ? (
+        <p className="text-sm text-red-300">{t('audit.loadFailed', { error })}</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-cream/70">{t('audit.empty')}</p>
+      ) : (
+        <ol className="space-y-4">
+          {entries.map(entry => (
+            <li key={entry.id} className="bg-charcoal/40 rounded-md p-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-semibold">
+                  {t(entry.action === 'void' ? 'audit.voidedBy' : 'audit.correctedBy', { name: entry.editedBy })}
+                </span>
+                <span className="text-cream/60 text-xs">{formatDateTime(entry.editedAt)}</span>
+              </div>
+              {entry.reason && <p className="text-xs text-cream/70 mt-1">{t('audit.reason', { reason: entry.reason })}</p>}
+              {entry.changes.length > 0 && (
+                <ul className="mt-2 text-xs space-y-0.5">
+                  {entry.changes.map(change => (
+                    <li key={change.field}>
+                      <span className="text-cream/70">{change.field}:</span>{' '}
+                      <span className="line-through text-red-300">{change.oldValue || t('audit.emptyValue')}</span>{' '}
+                      &rarr; <span className="text-pale-yellow">{change.newValue || t('audit.emptyValue')}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </Modal>
+  );
+};
+
+export default AuditHistoryDialog;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { ItemHistory } from '../services/itemHistory';
+import { useI18n } from '../hooks/useI18n';
+
+interface BalanceChartProps {
+  history: ItemHistory;
+}
+
+const WIDTH = 320;
+const HEIGHT = 160;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 30 };
+/** Line colour per status, in order of first appearance; the total is drawn in pale-yellow. */
+const STATUS_COLORS = ['#FAF6E8', '#FDBA74', '#93C5FD', '#F9A8D4'];
+const TOTAL_COLOR = '#F3DE8A';
+
+/** Step chart of an item's on-hand quantity after each movement: the total, plus one line per status. */
+const BalanceChart: React.FC<BalanceChartProps> = ({ history }) => {
+  const { t, statusLabel } = useI18n();
+  const { entries, statuses } = history;
+  if (entries.length === 0) return null;
+
+  // Keyed by status code; the label is only what the legend shows.
+  const series = [
+    { key: '', label: t('viewer.total'), color: TOTAL_COLOR, values: entries.map(entry => entry.balance) },
+    // A single status is the total again; only split it out when there is more than one.
+    ...(statuses.length > 1
+      ? statuses.map((status, i) => ({
+          key: status,
+          label: statusLabel(status),
+          color: STATUS_COLORS[i % STATUS_COLORS.length],
+          values: entries.map(entry => entry.statusBalances[status] ?? 0),
+        }))
+      : []),
+  ];
+
+  const all = series.flatMap(line => line.values);
+  const min = Math.min(0, ...all);
+  const max = Math.max(1, ...all);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  // Step n spans [n, n+1) so the last movement still gets a visible segment.
+  const x = (index: number) => PADDING.left + (index / entries.length) * plotWidth;
+  const y = (value: number) => PADDING.top + ((max - value) / (max - min)) * plotHeight;
+
+  const stepPath = (values: number[]) =>
+    values.map((value, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(value)} H${x(i + 1)}`).join(' ');
+
+  return (
+    <figure>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={t('history.chartTitle', { balance: entries[entries.length - 1].balance })}>
+        {[min, max].map(value => (
+          <g key={value}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} stroke="#FAF6E8" strokeOpacity={0.2} />
+            <text x={PADDING.left - 4} y={y(value)} fill="#FAF6E8" fillOpacity={0.7} fontSize={10} textAnchor="end" dominantBaseline="middle">{value}</text>
+          </g>
+        ))}
+        {min < 0 && <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(0)} y2={y(0)} stroke="#FCA5A5" strokeOpacity={0.6} strokeDasharray="3 3" />}
+        {series.slice().reverse().map(line => (
+          <path key={line.key} d={stepPath(line.values)} fill="none" stroke={line.color} strokeWidth={line.key === '' ? 2.5 : 1.5} />
+        ))}
+        <text x={PADDING.left} y={HEIGHT - 6} fill="#FAF6E8" fillOpacity={0.7} fontSize={10}>{entries[0].record.date || t('history.first')}</text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 6} fill="#FAF6E8" fillOpacity={0.7} fontSize={10} textAnchor="end">{entries[entries.length - 1].record.date || t('history.latest')}</text>
+      </svg>
+      {series.length > 1 && (
+        <figcaption className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-cream/80">
+          {series.map(line => (
+            <span key={line.key} className="inline-flex items-center">
+              <span className="inline-block w-3 h-0.5 mr-1.5" style={{ backgroundColor: line.color }} />
+              {line.label}
+            </span>
+          ))}
+        </figcaption>
+      )}
+    </figure>
+  );
+};
+
+export default BalanceChart;
@@ -0,0 +1,81 @@
+import React from 'react';
+
+export interface BarSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+interface BarChartProps {
+  /** One label per group of bars along the x axis. */
+  categories: string[];
+  series: BarSeries[];
+  /** Describes the chart for screen readers. */
+  title: string;
+}
+
+const HEIGHT = 180;
+const PADDING = { top: 10, right: 8, bottom: 24, left: 34 };
+const GROUP_WIDTH = 40;
+/** Gap between groups, as a share of the group width. */
+const GROUP_GAP = 0.25;
+
+/** Grouped vertical bars, one group per category and one bar per series; scrolls sideways when long. */
+const BarChart: React.FC<BarChartProps> = ({ categories, series, title }) => {
+  const max = Math.max(1, ...series.flatMap(line => line.values));
+  const width = PADDING.left + PADDING.right + categories.length * GROUP_WIDTH;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const barWidth = (GROUP_WIDTH * (1 - GROUP_GAP)) / Math.max(series.length, 1);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+  // Label every category while they fit, otherwise every n-th so the labels don't overlap.
+  const labelEvery = Math.ceil(categories.length / 18);
+
+  return (
+    <figure>
+      <div className="overflow-x-auto">
+        <svg viewBox={`0 0 ${width} ${HEIGHT}`} style={{ minWidth: Math.min(width, 320) }} className="w-full h-auto" role="img" aria-label={title}>
+          {[0, max / 2, max].map(value => (
+            <g key={value}>
+              <line x1={PADDING.left} x2={width - PADDING.right} y1={y(value)} y2={y(value)} stroke="#FAF6E8" strokeOpacity={0.15} />
+              <text x={PADDING.left - 4} y={y(value)} fill="#FAF6E8" fillOpacity={0.7} fontSize={10} textAnchor="end" dominantBaseline="middle">
+                {Math.round(value)}
+              </text>
+            </g>
+          ))}
+          {categories.map((category, i) => {
+            const groupX = PADDING.left + i * GROUP_WIDTH + (GROUP_WIDTH * GROUP_GAP) / 2;
+            return (
+              <g key={category}>
+                {series.map((line, s) => {
+                  const value = line.values[i] ?? 0;
+                  return (
+                    <rect key={line.label} x={groupX + s * barWidth} y={y(value)} width={barWidth - 1} height={PADDING.top + plotHeight - y(value)} fill={line.color}>
+                      <title>{`${category} · ${line.label}: ${value}`}</title>
+                    </rect>
+                  );
+                })}
+                {i % labelEvery === 0 && (
+                  <text x={groupX + (GROUP_WIDTH * (1 - GROUP_GAP)) / 2} y={HEIGHT - 8} fill="#FAF6E8" fillOpacity={0.7} fontSize={10} textAnchor="middle">
+                    {category}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+      {series.length > 1 && (
+        <figcaption className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-cream/80">
+          {series.map(line => (
+            <span key={line.label} className="inline-flex items-center">
+              <span className="inline-block w-3 h-3 mr-1.5 rounded-sm" style={{ backgroundColor: line.color }} />
+              {line.label}
+            </span>
+          ))}
+        </figcaption>
+      )}
+    </figure>
+  );
+};
+
+export default BarChart;
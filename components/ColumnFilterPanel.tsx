@@ -0,0 +1,195 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ColumnFilter, columnValues, FilterableColumn, filterFor, ResolvedColumnFilter, withColumnFilter,
+} from '../services/columnFilters';
+import { useI18n } from '../hooks/useI18n';
+
+interface ColumnFilterPanelProps {
+  columns: FilterableColumn[];
+  /** Every row of the sheet, unfiltered, to list the values a column can be filtered on. */
+  rows: string[][];
+  filters: ColumnFilter[];
+  /** The filters that apply to this sheet; only these get a chip. */
+  applied: ResolvedColumnFilter[];
+  onChange: (filters: ColumnFilter[]) => void;
+  /** How a cell value is shown, e.g. statuses in the interface language. */
+  valueLabel?: (column: FilterableColumn, value: string) => string;
+}
+
+/** Values listed before a "find a value" box is offered. */
+const NARROW_FROM = 8;
+/** Picked values named on a chip before the rest are counted. */
+const CHIP_VALUES = 2;
+
+const parseBound = (text: string): number | null => {
+  if (text.trim() === '') return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Filters on any column of the sheet: picked values for text columns, a range for quantities and a
+ * date range for dates. Each active filter shows as a chip; filters on different columns combine.
+ */
+const ColumnFilterPanel: React.FC<ColumnFilterPanelProps> = ({ columns, rows, filters, applied, onChange, valueLabel }) => {
+  const { t, formatDate } = useI18n();
+  const [editing, setEditing] = useState<FilterableColumn | null>(null);
+  const [narrow, setNarrow] = useState('');
+
+  const label = (column: FilterableColumn, value: string) => (valueLabel ? valueLabel(column, value) : value);
+
+  const values = useMemo(() => (editing?.kind === 'values' ? columnValues(rows, editing.index) : []), [rows, editing]);
+
+  const open = (column: FilterableColumn) => {
+    setEditing(column);
+    setNarrow('');
+  };
+
+  const update = (column: FilterableColumn, next: ColumnFilter | null) => onChange(withColumnFilter(filters, column.name, next));
+
+  const summary = ({ filter, column }: ResolvedColumnFilter) => {
+    switch (filter.kind) {
+      case 'values': {
+        const named = filter.values.slice(0, CHIP_VALUES).map(value => label(column, value)).join(', ');
+        const rest = filter.values.length - CHIP_VALUES;
+        return rest > 0 ? `${named} ${t('columnFilters.more', { count: rest })}` : named;
+      }
+      case 'range':
+        if (filter.min !== null && filter.max !== null) return `${filter.min} – ${filter.max}`;
+        return filter.min !== null ? `≥ ${filter.min}` : `≤ ${filter.max}`;
+      case 'dates':
+        if (filter.from && filter.to) return `${formatDate(filter.from)} – ${formatDate(filter.to)}`;
+        return filter.from ? `≥ ${formatDate(filter.from)}` : `≤ ${formatDate(filter.to)}`;
+    }
+  };
+
+  const inputClasses = "px-2 py-1.5 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream text-sm";
+
+  const renderEditor = (column: FilterableColumn) => {
+    const current = filterFor(filters, column.name);
+    if (column.kind === 'values') {
+      const picked = current?.kind === 'values' ? current.values : [];
+      const toggle = (value: string) => update(column, {
+        column: column.name,
+        kind: 'values',
+        values: picked.includes(value) ? picked.filter(other => other !== value) : [...picked, value],
+      });
+      const needle = narrow.trim().toLowerCase();
+      const shown = needle
+        ? values.filter(({ value }) => value.toLowerCase().includes(needle) || label(column, value).toLowerCase().includes(needle))
+        : values;
+      return (
+        <>
+          {values.length > NARROW_FROM && (
+            <input
+              type="text"
+              value={narrow}
+              onChange={e => setNarrow(e.target.value)}
+              placeholder={t('columnFilters.narrow')}
+              aria-label={t('columnFilters.narrow')}
+              className={`${inputClasses} w-full mb-2`}
+            />
+          )}
+          {values.length === 0 ? (
+            <p className="text-sm text-cream/70">{t('columnFilters.noValues')}</p>
+          ) : (
+            <ul className="max-h-48 overflow-y-auto space-y-1">
+              {shown.map(({ value, count }) => (
+                <li key={value}>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={picked.includes(value)} onChange={() => toggle(value)} />
+                    <span className="truncate">{label(column, value)}</span>
+                    <span className="ml-auto text-xs text-cream/50">{count}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      );
+    }
+    if (column.kind === 'range') {
+      const range = current?.kind === 'range' ? current : { min: null, max: null };
+      const set = (bound: 'min' | 'max', text: string) =>
+        update(column, { column: column.name, kind: 'range', min: range.min, max: range.max, [bound]: parseBound(text) });
+      return (
+        <div className="flex flex-wrap items-end gap-3">
+          {(['min', 'max'] as const).map(bound => (
+            <div key={bound}>
+              <label htmlFor={`column-filter-${bound}`} className="block text-xs text-cream/70 mb-1">{t(bound === 'min' ? 'columnFilters.from' : 'columnFilters.to')}</label>
+              <input id={`column-filter-${bound}`} type="number" value={range[bound] ?? ''} onChange={e => set(bound, e.target.value)} className={`${inputClasses} w-28`} />
+            </div>
+          ))}
+        </div>
+      );
+    }
+    const dates = current?.kind === 'dates' ? current : { from: '', to: '' };
+    const set = (bound: 'from' | 'to', value: string) =>
+      update(column, { column: column.name, kind: 'dates', from: dates.from, to: dates.to, [bound]: value });
+    return (
+      <div className="flex flex-wrap items-end gap-3">
+        {(['from', 'to'] as const).map(bound => (
+          <div key={bound}>
+            <label htmlFor={`column-filter-${bound}`} className="block text-xs text-cream/70 mb-1">{t(bound === 'from' ? 'columnFilters.from' : 'columnFilters.to')}</label>
+            <input id={`column-filter-${bound}`} type="date" value={dates[bound]} onChange={e => set(bound, e.target.value)} className={inputClasses} />
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="mr-2 font-medium text-cream/90">{t('columnFilters.title')}</span>
+        {applied.map(resolved => (
+          <span key={resolved.column.name} className="inline-flex items-center rounded-full bg-pale-yellow text-charcoal text-sm">
+            <button
+              onClick={() => open(resolved.column)}
+              title={t('columnFilters.edit', { column: resolved.column.name })}
+              className="pl-3 pr-1 py-1 font-medium rounded-l-full focus:outline-none focus:ring-2 focus:ring-charcoal"
+            >
+              {resolved.column.name}: {summary(resolved)}
+            </button>
+            <button
+              onClick={() => update(resolved.column, null)}
+              aria-label={t('columnFilters.remove', { column: resolved.column.name })}
+              className="pl-1 pr-3 py-1 rounded-r-full hover:text-red-700 focus:outline-none focus:ring-2 focus:ring-charcoal"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <select
+          value=""
+          onChange={e => {
+            const column = columns.find(candidate => String(candidate.index) === e.target.value);
+            if (column) open(column);
+          }}
+          aria-label={t('columnFilters.add')}
+          className="bg-charcoal/50 border border-charcoal rounded-md py-1.5 px-2 text-cream text-sm focus:ring-2 focus:ring-pale-yellow focus:border-pale-yellow"
+        >
+          <option value="">{t('columnFilters.add')}</option>
+          {columns.map(column => <option key={column.index} value={column.index}>{column.name}</option>)}
+        </select>
+        {applied.length > 0 && (
+          <button onClick={() => { onChange([]); setEditing(null); }} className="text-sm text-pale-yellow hover:underline">
+            {t('columnFilters.clearAll')}
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <div className="max-w-md rounded-md bg-charcoal/40 p-3">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-semibold text-sm">{editing.name}</h4>
+            <button onClick={() => setEditing(null)} className="text-sm text-pale-yellow hover:underline">{t('common.done')}</button>
+          </div>
+          {renderEditor(editing)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColumnFilterPanel;
@@ -1,45 +1,39 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Area } from '../types';
+import { AddOrUse, DropdownOptions } from '../services/api';
+import { defaultEntryStatus, entryStatuses, entryTargetFor, formatSheetDate, loadEntryOptions } from '../services/entryTargets';
+import { VendorConfig } from '../services/areaRegistry';
+import { findRecentDuplicate, QueuedSubmission, submissionQueue } from '../services/submissionQueue';
+import { getBalance, READY_STATUS } from '../services/ledger';
+import { cleanModel, knownModels, modelKey, normalizeModel, similarModel } from '../services/modelNames';
+import { useAvailableBalances } from '../hooks/useAvailableBalances';
+import { useSubmissions } from '../hooks/useSubmissions';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { requirePermission } from '../services/auth';
+import SubmissionQueuePanel from './SubmissionQueuePanel';
+import LabelScanner from './LabelScanner';
+import { entryFormView, Route } from '../services/routing';
 import { LoadingSpinner, SuccessIcon, ErrorIcon } from './icons';
 
 interface CreateCustomerFormProps {
   area: Area;
   formTitle?: string;
-  formVariant?: 'abb' | 'supcon';
+  /** The vendor whose stock sheet the entries go to. */
+  vendor: VendorConfig;
+  /** Opens the bulk import screen for the same area/vendor. */
+  onImport?: () => void;
+  /** Opens the multi-line document form for the same area/vendor. */
+  onDocument?: () => void;
+  /** Equipment and model to start with, e.g. from a scanned label link. */
+  prefill?: { equipment?: string; model?: string };
+  /** Opens the entry form a scanned label belongs to, when that is another area or vendor. */
+  onOpenLabel?: (route: Route) => void;
 }
 
-// IMPORTANT: This is your Google Apps Script Web App URL.
-const GOOGLE_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbx03kVQ0fRNdbIeE0e9hfhiWAIj4F2iPT25B06WVoZwSZLl60-1ef8ypap3FST8L_F4/exec';
-
-/**
- * Converts a date string from 'YYYY-MM-DD' to 'DD/Mon/YYYY' format.
- * @param isoDate The date string in 'YYYY-MM-DD' format.
- * @returns The formatted date string, e.g., "28/Oct/2025".
- */
-const formatDateToCustomString = (isoDate: string): string => {
-  if (!isoDate) return '';
-  try {
-    const parts = isoDate.split('-');
-    const year = parseInt(parts[0], 10);
-    const monthIndex = parseInt(parts[1], 10) - 1; // month is 0-indexed in Date
-    const day = parseInt(parts[2], 10);
-    
-    const dateObj = new Date(year, monthIndex, day);
-    
-    const dayOfMonth = dateObj.getDate();
-    const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-    const month = monthNames[dateObj.getMonth()];
-    const fullYear = dateObj.getFullYear();
-    
-    return `${dayOfMonth}/${month}/${fullYear}`;
-  } catch (error) {
-    console.error("Could not format date:", isoDate, error);
-    return isoDate; // Fallback to original string on error
-  }
-};
-
-
-const CreateCustomerForm: React.FC<CreateCustomerFormProps> = ({ area, formTitle, formVariant }) => {
+const CreateCustomerForm: React.FC<CreateCustomerFormProps> = ({ area, formTitle, vendor, onImport, onDocument, prefill, onOpenLabel }) => {
+  const user = useSession()?.user ?? null;
+  const { t, statusLabel, formatTime } = useI18n();
   const getTodayDate = () => new Date().toISOString().split('T')[0];
 
   const [formData, setFormData] = useState({
@@ -47,57 +41,33 @@ const CreateCustomerForm: React.FC<CreateCustomerFormProps> = ({ area, formTitle
     equipment: '',
     model: '',
     number: '',
-    addOrUse: 'Add',
-    status: 'พร้อมใช้', // Default status set to the new hardcoded value
-    recordBy: '',
+    addOrUse: 'Add' as AddOrUse,
+    status: READY_STATUS,
   });
   
-  const [dropdownOptions, setDropdownOptions] = useState<{ equipment: string[]; status: string[] }>({ equipment: [], status: [] });
+  const [dropdownOptions, setDropdownOptions] = useState<DropdownOptions>({ equipment: [], status: [] });
   const [isLoadingOptions, setIsLoadingOptions] = useState(true);
   const [optionsError, setOptionsError] = useState<string | null>(null);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'queued' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState('');
+  const [showDeploymentHelp, setShowDeploymentHelp] = useState(false);
+  /** An identical entry made shortly before; the next submit has to be confirmed. */
+  const [duplicate, setDuplicate] = useState<QueuedSubmission | null>(null);
 
   useEffect(() => {
     let isMounted = true;
     setIsLoadingOptions(true);
     setOptionsError(null);
 
-    const url = new URL(GOOGLE_SCRIPT_URL);
-    
-    // Use different actions based on the area and variant to get equipment options
-    let action: string;
-    if (area === Area.NPP11) {
-      action = 'getNpp11EquipmentOptions';
-    } else if (area === Area.EWTP) {
-      if (formVariant === 'supcon') {
-        action = 'getSupconEquipmentOptions'; // Action for SUPCON form
-      } else {
-        action = 'getEwtpEquipmentOptions'; // Action for ABB form
-      }
-    } else {
-      action = 'getDropdownOptions'; // Default for Pulp 2 etc.
-    }
-
-    url.searchParams.append('action', action);
-    url.searchParams.append('area', area);
-
-    fetch(url.toString(), {
-        credentials: 'omit', // Prevent sending auth cookies that might conflict with "Execute as Me"
-    })
-      .then(res => res.json())
-      .then(result => {
+    loadEntryOptions(area, vendor)
+      .then(options => {
         if (!isMounted) return;
-        if (result.success && result.data) {
-          setDropdownOptions({
-            equipment: result.data.equipment || [],
-            status: result.data.status || [],
-          });
-        } else {
-          throw new Error(result.error || 'Failed to parse dropdown options.');
-        }
+        setDropdownOptions(options);
+        // Start on a status this area/vendor actually offers.
+        const statuses = entryStatuses(options);
+        setFormData(prev => (statuses.includes(prev.status) ? prev : { ...prev, status: defaultEntryStatus(statuses) }));
       })
       .catch(err => {
         if (!isMounted) return;
@@ -110,110 +80,149 @@ const CreateCustomerForm: React.FC<CreateCustomerFormProps> = ({ area, formTitle
       });
       
       return () => { isMounted = false; };
-  }, [area, formVariant]);
+  }, [area, vendor]);
+
+
+  // Labels name equipment as printed; match it to this form's option so the dropdown shows it.
+  const prefillEquipment = prefill?.equipment ?? '';
+  const prefillModel = prefill?.model ?? '';
+  const matchedEquipment = dropdownOptions.equipment.find(item => item.toLowerCase() === prefillEquipment.trim().toLowerCase());
+
+  useEffect(() => {
+    if (!prefillEquipment && !prefillModel) return;
+    setFormData(prev => ({ ...prev, equipment: matchedEquipment ?? '', model: prefillModel }));
+  }, [prefillEquipment, prefillModel, matchedEquipment]);
 
+  const formView = entryFormView(area, vendor);
+
+  const handleLabelScan = (route: Route) => {
+    if (route.area === area && route.view === formView) {
+      const equipment = dropdownOptions.equipment.find(item => item.toLowerCase() === (route.filters.equipment ?? '').toLowerCase());
+      setFormData(prev => ({ ...prev, equipment: equipment ?? '', model: route.filters.model ?? '' }));
+    } else {
+      onOpenLabel?.(route);
+    }
+  };
+
+  // The sheet and create action of this area/vendor, and the stock view that shows that sheet.
+  const target = entryTargetFor(vendor);
+
+  const { balances: availableBalances, error: balanceError, reload: reloadBalances } = useAvailableBalances(area, target);
+  const submissions = useSubmissions(area);
+
+  // Models already in this sheet for the chosen equipment, offered as suggestions and used to spot typos.
+  const models = useMemo(() => knownModels(availableBalances, formData.equipment), [availableBalances, formData.equipment]);
+  const similar = formData.model ? similarModel(formData.model, models) : null;
+  const isNewModel = formData.equipment !== '' && models.length > 0 && formData.model.trim() !== '' && !similar &&
+    !models.some(known => modelKey(known.model) === modelKey(formData.model));
+
+  const isUse = formData.addOrUse === 'Use';
+  const availableQuantity = availableBalances && formData.equipment && formData.model
+    ? getBalance(availableBalances, formData.equipment, formData.model, formData.status)
+    : null;
+  const exceedsBalance = isUse && availableQuantity !== null && formData.number !== '' && Number(formData.number) > availableQuantity;
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
+    setDuplicate(null);
+  };
+
+  const handleModelBlur = () => {
+    setFormData(prev => ({ ...prev, model: normalizeModel(prev.model, models) }));
   };
 
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (isSubmitting) return;
+    void submitEntry(false);
+  };
+
+  const submitEntry = async (confirmedDuplicate: boolean) => {
+    if (isSubmitting || exceedsBalance) return;
 
     setIsSubmitting(true);
     setSubmitStatus('idle');
     setErrorMessage('');
+    setShowDeploymentHelp(false);
 
     try {
-      // Use FormData for robust POST requests to Google Apps Script
-      const formBody = new FormData();
-      
-      let action: string;
-      if (area === Area.NPP11) {
-        action = 'createNpp11CustomerEntry';
-      } else if (area === Area.EWTP && formVariant === 'supcon') {
-        action = 'createSupconStockEntry'; 
-      } else {
-        action = 'createStockEntry'; // Default action for Pulp 2, E/WTP (ABB), etc.
+      requirePermission(user, area, 'record');
+      const entry = {
+        area,
+        sheetName: target.sheetName,
+        date: formatSheetDate(formData.date), // Format the date before sending
+        equipment: formData.equipment,
+        model: normalizeModel(formData.model, models),
+        number: formData.number,
+        addOrUse: formData.addOrUse,
+        status: formData.status,
+        recordBy: user!.displayName,
+      };
+
+      // The same entry twice within a few minutes is usually a double tap or a retry after a slow answer.
+      const recent = confirmedDuplicate ? null : findRecentDuplicate(submissions, entry);
+      if (recent) {
+        setDuplicate(recent);
+        return;
       }
-
-      // Determine Target Sheet Name explicitely based on User Requirement
-      let targetSheetName = '';
-      if (area === Area.PULP2) {
-        targetSheetName = 'Pulp 2 Customerinfor';
-      } else if (area === Area.NPP11) {
-        targetSheetName = 'NPP11 Customerinfor';
-      } else if (area === Area.EWTP) {
-        if (formVariant === 'supcon') {
-           // SUPCON -> ETP2A Customerinfor
-           targetSheetName = 'ETP2A Customerinfor';
-        } else {
-           // ABB (Default) -> EWTP Customerinfor
-           targetSheetName = 'EWTP Customerinfor';
-        }
-      }
-
-      formBody.append('action', action);
-      formBody.append('area', area);
-      if (targetSheetName) {
-        formBody.append('sheetName', targetSheetName);
+      setDuplicate(null);
+
+      // The entry is persisted locally before it is sent, so nothing is lost if the connection drops.
+      const submission = await submissionQueue.enqueue(target.action, entry);
+      // A deployment problem keeps the entry queued for retry, but it needs someone to fix the script.
+      setShowDeploymentHelp(!!submission.deploymentError);
+      if (submission.status === 'failed') {
+        throw new Error(submission.lastError || t('entry.unknownError'));
       }
-      
-      formBody.append('date', formatDateToCustomString(formData.date)); // Format the date before sending
-      formBody.append('equipment', formData.equipment);
-      formBody.append('model', formData.model);
-      formBody.append('number', formData.number);
-      formBody.append('addOrUse', formData.addOrUse);
-      formBody.append('status', formData.status);
-      // Note: The GAS backend is configured to map this 'recordBy' field to Column H (Index 7)
-      formBody.append('recordBy', formData.recordBy);
-
-      const res = await fetch(GOOGLE_SCRIPT_URL, {
-        method: 'POST',
-        // headers: DO NOT set Content-Type manually when using FormData. The browser sets it with the boundary.
-        credentials: 'omit', // Critical: Do not send cookies to avoid "Execute as User" vs "Execute as Me" conflicts
-        body: formBody,
+      if (submission.deploymentError) setErrorMessage(submission.lastError || '');
+
+      setSubmitStatus(submission.status === 'synced' ? 'success' : 'queued');
+      reloadBalances();
+      setFormData({
+        date: getTodayDate(),
+        equipment: '',
+        model: '',
+        number: '',
+        addOrUse: 'Add',
+        status: defaultEntryStatus(entryStatuses(dropdownOptions)),
       });
-
-      const result = await res.json();
-
-      if (result.success) {
-        setSubmitStatus('success');
-        setFormData({
-          date: getTodayDate(),
-          equipment: '',
-          model: '',
-          number: '',
-          addOrUse: 'Add',
-          status: 'พร้อมใช้', // Reset to default status
-          recordBy: '',
-        });
-        setTimeout(() => setSubmitStatus('idle'), 5000);
-      } else {
-        throw new Error(result.error || 'An unknown error occurred on submission.');
-      }
+      if (!submission.deploymentError) setTimeout(() => setSubmitStatus('idle'), 5000);
     } catch (err: any) {
       setSubmitStatus('error');
-      setErrorMessage(err.message || JSON.stringify(err));
+      const message = err.message || JSON.stringify(err);
+      setErrorMessage(message);
       console.error('Submission failed:', err);
     } finally {
       setIsSubmitting(false);
     }
   };
   
+  const deploymentHelp = (
+    <div className="mt-3 text-xs bg-charcoal/60 p-3 rounded opacity-90">
+      <strong>{t('entry.troubleshooting')}</strong>
+      <ul className="list-disc list-inside mt-1 space-y-1">
+        <li>{t('entry.troubleshooting.newVersion')}</li>
+        <li>{t('entry.troubleshooting.manage')}</li>
+        <li>{t('entry.troubleshooting.version')}</li>
+        <li>{t('entry.troubleshooting.access')}</li>
+        <li className="pt-1 border-t border-white/10 mt-1">{t('entry.troubleshooting.columns')}</li>
+        <li>{t('entry.troubleshooting.status')}</li>
+        <li>{t('entry.troubleshooting.recordBy')}</li>
+      </ul>
+    </div>
+  );
+
   const inputClasses = "w-full px-4 py-2 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream placeholder-cream/50 disabled:bg-charcoal/40 disabled:cursor-not-allowed";
 
   const renderEquipmentInput = () => {
     if (isLoadingOptions) {
-      return <div className={`${inputClasses} flex items-center`}><LoadingSpinner size="h-5 w-5" /> <span className="ml-2 text-cream/50">Loading equipment...</span></div>;
+      return <div className={`${inputClasses} flex items-center`}><LoadingSpinner size="h-5 w-5" /> <span className="ml-2 text-cream/50">{t('entry.loadingEquipment')}</span></div>;
     }
     // Always render Select, if empty show placeholder option
     if (optionsError || dropdownOptions.equipment.length === 0) {
        return (
          <select name="equipment" id="equipment" value={formData.equipment} onChange={handleChange} required className={inputClasses}>
-            <option value="" disabled>Select Equipment (No options loaded)</option>
+            <option value="" disabled>{t('entry.selectEquipmentEmpty')}</option>
             {/* Fallback: if user needs to type, we might need a text input, but per request we keep it dropdown. 
                 If no options, this effectively blocks submission, which is usually desired if options are mandatory.
             */}
@@ -222,81 +231,126 @@ const CreateCustomerForm: React.FC<CreateCustomerFormProps> = ({ area, formTitle
     }
     return (
       <select name="equipment" id="equipment" value={formData.equipment} onChange={handleChange} required className={inputClasses}>
-        <option value="" disabled>Select Equipment</option>
+        <option value="" disabled>{t('entry.selectEquipment')}</option>
         {dropdownOptions.equipment.map(item => <option key={item} value={item}>{item}</option>)}
       </select>
     );
   };
 
   const renderStatusInput = () => {
-      // Use the new hardcoded list of statuses
-      const statusList = ['พร้อมใช้', 'รอ test'];
+      const statusList = entryStatuses(dropdownOptions);
 
       return (
         <select name="status" id="status" value={formData.status} onChange={handleChange} required className={inputClasses}>
-            {statusList.map(item => <option key={item} value={item}>{item}</option>)}
+            {statusList.map(item => <option key={item} value={item}>{statusLabel(item)}</option>)}
         </select>
       );
   }
   
-  const finalTitle = formTitle || "Create New Stock Entry";
+  const finalTitle = formTitle || t('area.createStockEntry');
 
   return (
     <div className="max-w-2xl mx-auto bg-teal p-6 sm:p-8 rounded-lg shadow-xl">
       <h3 className="text-2xl font-semibold text-center mb-6">{finalTitle}</h3>
+      {(onDocument || onImport) && (
+        <div className="-mt-4 mb-6 text-center text-sm space-y-1">
+          {onDocument && <p><button type="button" onClick={onDocument} className="text-pale-yellow hover:underline">{t('entry.documentLink')}</button></p>}
+          {onImport && <p><button type="button" onClick={onImport} className="text-pale-yellow hover:underline">{t('entry.importLink')}</button></p>}
+        </div>
+      )}
+      <LabelScanner onScan={handleLabelScan} />
+      {prefillEquipment && !isLoadingOptions && !matchedEquipment && (
+        <p className="-mt-4 mb-6 text-xs text-pale-yellow">{t('entry.labelEquipmentUnknown', { equipment: prefillEquipment })}</p>
+      )}
       <form onSubmit={handleSubmit} className="space-y-6">
         
         <div>
-          <label htmlFor="date" className="block text-sm font-medium text-cream/90 mb-2">Date *</label>
+          <label htmlFor="date" className="block text-sm font-medium text-cream/90 mb-2">{t('entry.date')} *</label>
           <input type="date" name="date" id="date" value={formData.date} onChange={handleChange} required className={inputClasses}/>
         </div>
 
         <div>
-          <label htmlFor="equipment" className="block text-sm font-medium text-cream/90 mb-2">Equipment *</label>
+          <label htmlFor="equipment" className="block text-sm font-medium text-cream/90 mb-2">{t('entry.equipment')} *</label>
           {renderEquipmentInput()}
         </div>
 
         <div>
-          <label htmlFor="model" className="block text-sm font-medium text-cream/90 mb-2">Model *</label>
-          <input type="text" name="model" id="model" value={formData.model} onChange={handleChange} required className={inputClasses} placeholder="e.g. EJA530E"/>
+          <label htmlFor="model" className="block text-sm font-medium text-cream/90 mb-2">{t('entry.model')} *</label>
+          <input type="text" name="model" id="model" value={formData.model} onChange={handleChange} onBlur={handleModelBlur} required autoComplete="off" list="model-suggestions" className={inputClasses} placeholder={t('entry.modelPlaceholder')}/>
+          <datalist id="model-suggestions">
+            {models.map(known => <option key={known.model} value={known.model} />)}
+          </datalist>
+          {similar && (
+            <p className="mt-2 text-xs text-pale-yellow">
+              {t('entry.modelSimilar', { model: cleanModel(formData.model), similar })}{' '}
+              <button type="button" onClick={() => setFormData(prev => ({ ...prev, model: similar }))} className="underline hover:no-underline">
+                {t('entry.useModel', { model: similar })}
+              </button>
+            </p>
+          )}
+          {isNewModel && (
+            <p className="mt-2 text-xs text-cream/70">{t('entry.modelNew', { equipment: formData.equipment })}</p>
+          )}
         </div>
 
         <div>
-          <label htmlFor="number" className="block text-sm font-medium text-cream/90 mb-2">Number (Quantity) *</label>
-          <input type="number" name="number" id="number" value={formData.number} onChange={handleChange} required min="0" className={inputClasses} placeholder="e.g. 5"/>
+          <label htmlFor="number" className="block text-sm font-medium text-cream/90 mb-2">{t('entry.number')} *</label>
+          <input type="number" name="number" id="number" value={formData.number} onChange={handleChange} required min="0" className={inputClasses} placeholder={t('entry.numberPlaceholder')}/>
+          {isUse && availableQuantity !== null && (
+            <p className={`mt-2 text-xs ${exceedsBalance ? 'text-red-300' : 'text-cream/70'}`}>
+              {exceedsBalance
+                ? t('entry.exceedsBalance', { quantity: availableQuantity, model: formData.model, status: statusLabel(formData.status) })
+                : t('entry.onHand', { quantity: availableQuantity, status: statusLabel(formData.status) })}
+            </p>
+          )}
+          {isUse && balanceError && (
+            <p className="mt-2 text-xs text-pale-yellow">{t('entry.balanceUnavailable')}</p>
+          )}
         </div>
 
         <div>
-          <label htmlFor="addOrUse" className="block text-sm font-medium text-cream/90 mb-2">Add / Use *</label>
+          <label htmlFor="addOrUse" className="block text-sm font-medium text-cream/90 mb-2">{t('entry.addOrUse')} *</label>
           <select name="addOrUse" id="addOrUse" value={formData.addOrUse} onChange={handleChange} required className={inputClasses}>
-            <option value="Add">Add</option>
-            <option value="Use">Use</option>
+            <option value="Add">{t('entry.add')}</option>
+            <option value="Use">{t('entry.use')}</option>
           </select>
         </div>
         
         <div>
-          <label htmlFor="status" className="block text-sm font-medium text-cream/90 mb-2">Status *</label>
+          <label htmlFor="status" className="block text-sm font-medium text-cream/90 mb-2">{t('entry.status')} *</label>
           {renderStatusInput()}
         </div>
 
         <div>
-          <label htmlFor="recordBy" className="block text-sm font-medium text-cream/90 mb-2">Record by *</label>
-          <input 
-            type="text" 
-            name="recordBy" 
-            id="recordBy" 
-            value={formData.recordBy} 
-            onChange={handleChange} 
-            required 
-            autoComplete="name"
-            className={inputClasses} 
-            placeholder="Enter your name"
-          />
+          <label htmlFor="recordBy" className="block text-sm font-medium text-cream/90 mb-2">{t('entry.recordBy')}</label>
+          <input type="text" id="recordBy" value={user?.displayName ?? ''} readOnly disabled className={inputClasses} />
+          <p className="mt-1 text-xs text-cream/60">{t('entry.recordByHelp')}</p>
         </div>
 
+        {duplicate && (
+          <div className="p-4 bg-pale-yellow/10 border border-pale-yellow/80 text-pale-yellow rounded-lg text-sm">
+            <p>
+              {t('entry.duplicate', {
+                time: formatTime(duplicate.createdAt),
+                quantity: duplicate.entry.number,
+                model: duplicate.entry.model,
+                addOrUse: t(duplicate.entry.addOrUse === 'Use' ? 'entry.use' : 'entry.add'),
+              })}
+            </p>
+            <div className="mt-3 flex gap-3">
+              <button type="button" onClick={() => void submitEntry(true)} disabled={isSubmitting} className="py-1.5 px-3 rounded-md text-xs font-semibold text-charcoal bg-pale-yellow hover:opacity-90 disabled:opacity-50">
+                {t('entry.duplicateConfirm')}
+              </button>
+              <button type="button" onClick={() => setDuplicate(null)} className="py-1.5 px-3 rounded-md text-xs font-medium text-cream hover:underline">
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="pt-4">
-          <button type="submit" disabled={isSubmitting || isLoadingOptions} className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-charcoal bg-pale-yellow hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pale-yellow focus:ring-offset-teal disabled:bg-pale-yellow/50 disabled:text-charcoal/50 disabled:cursor-not-allowed transition-colors">
-            {isSubmitting ? <LoadingSpinner size="h-5 w-5" /> : 'Create Stock Entry'}
+          <button type="submit" disabled={isSubmitting || isLoadingOptions || exceedsBalance} className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-charcoal bg-pale-yellow hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pale-yellow focus:ring-offset-teal disabled:bg-pale-yellow/50 disabled:text-charcoal/50 disabled:cursor-not-allowed transition-colors">
+            {isSubmitting ? <LoadingSpinner size="h-5 w-5" /> : t('entry.submit')}
           </button>
         </div>
       </form>
@@ -305,31 +359,31 @@ const CreateCustomerForm: React.FC<CreateCustomerFormProps> = ({ area, formTitle
           {submitStatus === 'success' && (
             <div className="flex items-center p-4 bg-pale-yellow/10 border border-pale-yellow/80 text-pale-yellow rounded-lg">
               <SuccessIcon className="h-6 w-6 mr-3 flex-shrink-0" />
-              <p>Stock entry added successfully!</p>
+              <p>{t('entry.added')}</p>
+            </div>
+          )}
+          {submitStatus === 'queued' && (
+            <div className="flex items-center p-4 bg-pale-yellow/10 border border-pale-yellow/80 text-pale-yellow rounded-lg">
+              <SuccessIcon className="h-6 w-6 mr-3 flex-shrink-0" />
+              <div className="flex-1">
+                <p>{t('entry.queued')}</p>
+                {showDeploymentHelp && (
+                  <>
+                    {errorMessage && <p className="text-sm mt-1 break-words text-red-300">{errorMessage}</p>}
+                    {deploymentHelp}
+                  </>
+                )}
+              </div>
             </div>
           )}
           {submitStatus === 'error' && (
             <div className="flex items-start p-4 bg-red-500/10 border border-red-500 text-red-300 rounded-lg text-left">
               <ErrorIcon className="h-6 w-6 mr-3 flex-shrink-0 mt-0.5" />
               <div className="flex-1">
-                <p className="font-semibold">Failed to add item.</p>
+                <p className="font-semibold">{t('entry.failed')}</p>
                 {errorMessage && <p className="text-sm mt-1 break-words">{errorMessage}</p>}
                 
-                {/* General Permission Help */}
-                {(errorMessage.includes('permission') || errorMessage.includes('สิทธิ์') || errorMessage.includes('Failed to parse') || errorMessage.includes('unknown error')) && (
-                  <div className="mt-3 text-xs bg-charcoal/60 p-3 rounded opacity-90">
-                    <strong>Troubleshooting:</strong>
-                    <ul className="list-disc list-inside mt-1 space-y-1">
-                        <li>Ensure you created a <strong>New Version</strong> when deploying.</li>
-                        <li>Go to "Manage Deployments" &rarr; Edit (pencil icon).</li>
-                        <li>Set Version to <strong>New</strong> (not Legacy/1).</li>
-                        <li>Execute as: <strong>Me</strong>, Access: <strong>Anyone</strong>.</li>
-                        <li className="pt-1 border-t border-white/10 mt-1"><strong>Check Columns:</strong> Ensure Google Sheet has valid headers.</li>
-                        <li>Status &rarr; Column G (Index 6)</li>
-                        <li>Record By &rarr; Column H (Index 7)</li>
-                    </ul>
-                  </div>
-                )}
+                {showDeploymentHelp && deploymentHelp}
               </div>
             </div>
           )}
@@ -337,9 +391,10 @@ const CreateCustomerForm: React.FC<CreateCustomerFormProps> = ({ area, formTitle
       )}
        {optionsError && (
          <div className="mt-4 text-xs text-center text-pale-yellow">
-            <p>Could not load equipment options from the sheet. Please check your connection.</p>
+            <p>{t('entry.optionsFailed')}</p>
          </div>
        )}
+       <SubmissionQueuePanel area={area} />
     </div>
   );
 };
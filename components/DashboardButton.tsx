@@ -1,21 +1,32 @@
-import React from 'react';
-
-interface DashboardButtonProps {
-  icon: React.ReactElement;
-  label: string;
-  onClick?: () => void;
-}
-
-const DashboardButton: React.FC<DashboardButtonProps> = ({ icon, label, onClick }) => {
-  return (
-    <button
-      onClick={onClick}
-      className="bg-teal hover:opacity-90 text-cream font-bold py-10 px-6 rounded-lg shadow-xl transform hover:-translate-y-1 transition-all duration-300 ease-in-out w-full text-center flex flex-col items-center justify-center h-full"
-    >
-      {icon}
-      <span className="text-2xl tracking-wide mt-4">{label}</span>
-    </button>
-  );
-};
-
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+interface DashboardButtonProps {
+  icon: React.ReactElement;
+  label: string;
+  onClick?: () => void;
+  /** Small count shown in the corner, e.g. open alerts; hidden when zero or absent. */
+  badge?: number;
+  /** What the badge counts, for screen readers; defaults to alerts. */
+  badgeLabel?: string;
+}
+
+const DashboardButton: React.FC<DashboardButtonProps> = ({ icon, label, onClick, badge, badgeLabel }) => {
+  const { t } = useI18n();
+  return (
+    <button
+      onClick={onClick}
+      className="bg-teal hover:opacity-90 text-cream font-bold py-10 px-6 rounded-lg shadow-xl transform hover:-translate-y-1 transition-all duration-300 ease-in-out w-full text-center flex flex-col items-center justify-center h-full relative"
+    >
+      {!!badge && (
+        <span className="absolute top-3 right-3 min-w-[1.75rem] h-7 px-2 rounded-full bg-red-500 text-cream text-sm font-bold flex items-center justify-center shadow" aria-label={badgeLabel ?? t('dashboard.alertCount', { count: badge })}>
+          {badge}
+        </span>
+      )}
+      {icon}
+      <span className="text-2xl tracking-wide mt-4">{label}</span>
+    </button>
+  );
+};
+
 export default DashboardButton;
\ No newline at end of file
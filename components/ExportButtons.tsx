@@ -0,0 +1,35 @@
+import React from 'react';
+import { ExportFormat } from '../services/export';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface ExportButtonsProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+const FORMATS: { format: ExportFormat; label: MessageKey }[] = [
+  { format: 'csv', label: 'export.csv' },
+  { format: 'xlsx', label: 'export.excel' },
+];
+
+const ExportButtons: React.FC<ExportButtonsProps> = ({ onExport, disabled }) => {
+  const { t } = useI18n();
+  return (
+    <div className="inline-flex items-center gap-2" role="group" aria-label={t('export.group')}>
+      <span className="text-sm text-cream/70">{t('export.label')}</span>
+      {FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => onExport(format)}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm font-medium rounded-md bg-charcoal/50 text-cream hover:bg-charcoal/70 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-pale-yellow"
+        >
+          {t(label)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ExportButtons;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Area, SheetDataType } from '../types';
+import { ViewFilters } from '../services/routing';
+import { filterPresetStore, isPresetApplied, presetFilters } from '../services/filterPresets';
+import { useFilterPresets } from '../hooks/useFilterPresets';
+import { useI18n } from '../hooks/useI18n';
+
+interface FilterPresetBarProps {
+  area: Area;
+  dataType: SheetDataType;
+  filters: ViewFilters;
+  onApply: (filters: ViewFilters) => void;
+}
+
+/** Named filter presets of one sheet: apply one in a click, or save the current filters as one. */
+const FilterPresetBar: React.FC<FilterPresetBarProps> = ({ area, dataType, filters, onApply }) => {
+  const { t } = useI18n();
+  const presets = useFilterPresets(area, dataType);
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const hasFilters = Object.keys(presetFilters(filters)).length > 0;
+  const replaces = presets.find(preset => preset.name.toLowerCase() === name.trim().toLowerCase());
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    filterPresetStore.save(area, dataType, name, filters);
+    setNaming(false);
+    setName('');
+  };
+
+  const handleRemove = (id: string, presetName: string) => {
+    if (window.confirm(t('presets.confirmRemove', { name: presetName }))) filterPresetStore.remove(id);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="mr-2 font-medium text-cream/90">{t('presets.title')}</span>
+      {presets.length === 0 && !naming && <span className="text-sm text-cream/60">{t('presets.none')}</span>}
+      {presets.map(preset => {
+        const applied = isPresetApplied(preset, filters);
+        return (
+          <span key={preset.id} className={`inline-flex items-center rounded-md text-sm ${applied ? 'bg-pale-yellow text-charcoal shadow' : 'bg-charcoal/50 text-cream'}`}>
+            <button
+              onClick={() => onApply(preset.filters)}
+              aria-pressed={applied}
+              title={t('presets.apply', { name: preset.name })}
+              className="pl-3 pr-1 py-1.5 font-medium rounded-l-md hover:underline focus:outline-none focus:ring-2 focus:ring-pale-yellow"
+            >
+              {preset.name}
+            </button>
+            <button
+              onClick={() => handleRemove(preset.id, preset.name)}
+              aria-label={t('presets.remove', { name: preset.name })}
+              className="pl-1 pr-2 py-1.5 rounded-r-md hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-pale-yellow"
+            >
+              ×
+            </button>
+          </span>
+        );
+      })}
+      {naming ? (
+        <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            autoFocus
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder={t('presets.namePlaceholder')}
+            aria-label={t('presets.name')}
+            className="w-72 px-2 py-1.5 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream text-sm"
+          />
+          <button type="submit" disabled={!name.trim()} className="px-3 py-1.5 text-sm font-medium rounded-md bg-pale-yellow text-charcoal hover:bg-opacity-80 disabled:opacity-50">
+            {t('presets.save')}
+          </button>
+          <button type="button" onClick={() => { setNaming(false); setName(''); }} className="text-sm text-pale-yellow hover:underline">
+            {t('common.cancel')}
+          </button>
+          {replaces && <span className="text-xs text-orange-300">{t('presets.replaces', { name: replaces.name })}</span>}
+        </form>
+      ) : (
+        <button
+          onClick={() => setNaming(true)}
+          disabled={!hasFilters}
+          title={hasFilters ? undefined : t('presets.nothingToSave')}
+          className="text-sm text-pale-yellow hover:underline disabled:opacity-50 disabled:no-underline"
+        >
+          {t('presets.saveCurrent')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FilterPresetBar;
@@ -1,30 +1,144 @@
-import React from 'react';
-import { Area } from '../types';
-
-interface HomePageProps {
-  onNavigate: (area: Area) => void;
-}
-
-const AreaButton: React.FC<{ area: Area; onNavigate: (area: Area) => void }> = ({ area, onNavigate }) => (
-  <button
-    onClick={() => onNavigate(area)}
-    className="bg-pale-yellow hover:opacity-90 text-charcoal font-bold py-10 px-6 rounded-lg shadow-xl transform hover:-translate-y-1 transition-all duration-300 ease-in-out w-full text-center"
-  >
-    <span className="text-2xl tracking-wide">{area}</span>
-  </button>
-);
-
-const HomePage: React.FC<HomePageProps> = ({ onNavigate }) => {
-  return (
-    <div className="text-center mt-8">
-      <h2 className="text-3xl font-light mb-12 text-cream/90">Select an Area</h2>
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-        <AreaButton area={Area.PULP2} onNavigate={onNavigate} />
-        <AreaButton area={Area.NPP11} onNavigate={onNavigate} />
-        <AreaButton area={Area.EWTP} onNavigate={onNavigate} />
-      </div>
-    </div>
-  );
-};
-
-export default HomePage;
\ No newline at end of file
+import React, { useState } from 'react';
+import { Area } from '../types';
+import { AREAS, AreaConfig, withVendor } from '../services/areaRegistry';
+import { can } from '../services/auth';
+import { Route } from '../services/routing';
+import { SearchGroup, SearchSource } from '../services/globalSearch';
+import { MessageKey } from '../services/i18n';
+import { useSession } from '../hooks/useSession';
+import { useGlobalSearch } from '../hooks/useGlobalSearch';
+import { useI18n } from '../hooks/useI18n';
+import { LoadingSpinner, SearchIcon } from './icons';
+
+interface HomePageProps {
+  onNavigate: (area: Area) => void;
+  /** Opens a search result's view with the search applied. */
+  onOpenRoute: (route: Route) => void;
+}
+
+/** Matches listed per sheet; the rest are one click away in the view itself. */
+const MAX_MATCHES_PER_GROUP = 8;
+
+const AreaButton: React.FC<{ area: AreaConfig; onNavigate: (area: Area) => void }> = ({ area, onNavigate }) => (
+  <button
+    onClick={() => onNavigate(area.id)}
+    className="bg-pale-yellow hover:opacity-90 text-charcoal font-bold py-10 px-6 rounded-lg shadow-xl transform hover:-translate-y-1 transition-all duration-300 ease-in-out w-full text-center"
+  >
+    <span className="text-2xl tracking-wide">{area.name}</span>
+  </button>
+);
+
+const sourceTitle = (source: SearchSource, t: (key: MessageKey) => string) =>
+  source.vendor ? withVendor(t('area.stock'), source.area, source.vendor) : t('area.equipment');
+
+const SearchResultGroup: React.FC<{ group: SearchGroup; onOpen: () => void }> = ({ group, onOpen }) => {
+  const { t, statusLabel, formatNumber } = useI18n();
+  const hidden = group.matches.length - MAX_MATCHES_PER_GROUP;
+  return (
+    <div className="bg-charcoal/40 rounded-md p-3">
+      <button onClick={onOpen} className="w-full flex items-center justify-between text-left text-pale-yellow hover:underline">
+        <span className="font-semibold">{sourceTitle(group.source, t)}</span>
+        <span className="text-xs">{t('search.open')} &rarr;</span>
+      </button>
+      <ul className="mt-2 divide-y divide-teal/40">
+        {group.matches.slice(0, MAX_MATCHES_PER_GROUP).map((match, i) => (
+          <li key={i} className="flex items-center justify-between gap-3 py-1.5 text-sm">
+            <div className="min-w-0">
+              <p className="text-cream truncate">{match.name}</p>
+              <p className="text-xs text-cream/60 truncate">{match.status ? `${match.detail} · ${statusLabel(match.status)}` : match.detail}</p>
+            </div>
+            <span className={`flex-shrink-0 font-semibold ${match.quantity > 0 ? 'text-cream' : 'text-cream/40'}`}>{formatNumber(match.quantity)}</span>
+          </li>
+        ))}
+      </ul>
+      {hidden > 0 && (
+        <button onClick={onOpen} className="mt-1 text-xs text-cream/70 hover:underline">{t('search.moreInView', { count: hidden })}</button>
+      )}
+    </div>
+  );
+};
+
+const HomePage: React.FC<HomePageProps> = ({ onNavigate, onOpenRoute }) => {
+  const { t } = useI18n();
+  const user = useSession()?.user ?? null;
+  const areas = AREAS.filter(area => can(user, area.id, 'view'));
+  const [searchTerm, setSearchTerm] = useState('');
+  const search = useGlobalSearch(searchTerm);
+
+  // Results arrive in dashboard order, so each area's groups are already together.
+  const groupsByArea = new Map<Area, SearchGroup[]>();
+  search.groups.forEach(group => {
+    groupsByArea.set(group.source.area, [...(groupsByArea.get(group.source.area) ?? []), group]);
+  });
+
+  const renderSearchResults = () => {
+    if (search.loading) {
+      return <div className="flex items-center justify-center text-cream/70 py-6"><LoadingSpinner size="h-5 w-5" /><span className="ml-2">{t('search.loading')}</span></div>;
+    }
+    return (
+      <div className={`text-left space-y-6 transition-opacity ${search.isStale ? 'opacity-60' : ''}`}>
+        {search.failed.length > 0 && (
+          <p className="text-sm text-orange-300">
+            {t('search.notSearched', { sheets: search.failed.map(source => `${source.areaName} ${sourceTitle(source, t)}`).join(', ') })}{' '}
+            <button onClick={search.reload} className="text-pale-yellow hover:underline">{t('common.tryAgain')}</button>
+          </p>
+        )}
+        {groupsByArea.size === 0 ? (
+          <p className="text-center text-cream/70 py-6">{t('search.noMatches', { term: searchTerm.trim() })}</p>
+        ) : (
+          [...groupsByArea].map(([area, groups]) => (
+            <section key={area}>
+              <h3 className="text-xl font-semibold text-pale-yellow mb-3">{groups[0].source.areaName}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {groups.map(group => (
+                  <SearchResultGroup key={group.source.view} group={group} onOpen={() => onOpenRoute(group.route)} />
+                ))}
+              </div>
+            </section>
+          ))
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="text-center mt-8">
+      {areas.length > 0 && (
+        <div className="max-w-2xl mx-auto mb-12">
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <SearchIcon className="h-5 w-5 text-cream/50" />
+            </div>
+            <input
+              type="search"
+              className="block w-full pl-10 pr-3 py-3 border border-teal rounded-md leading-5 bg-teal/40 text-cream placeholder-cream/50 focus:outline-none focus:border-pale-yellow focus:ring-2 focus:ring-pale-yellow"
+              placeholder={t('search.placeholder')}
+              aria-label={t('search.label')}
+              value={searchTerm}
+              onChange={e => setSearchTerm(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+
+      {search.isActive ? (
+        <div className="bg-teal p-4 sm:p-6 rounded-lg shadow-xl">
+          {renderSearchResults()}
+        </div>
+      ) : (
+        <>
+          <h2 className="text-3xl font-light mb-12 text-cream/90">{t('home.selectArea')}</h2>
+          {areas.length === 0 ? (
+            <p className="text-cream/70">{t('home.noAreas')}</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+              {areas.map(area => <AreaButton key={area.id} area={area} onNavigate={onNavigate} />)}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HomePage;
@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Area, SheetDataType } from '../types';
+import { AuditEntry, inventoryApi } from '../services/api';
+import { ExportFormat, exportFilename, exportTable } from '../services/export';
+import { buildItemHistory, isVoidedEntry, itemHistoryTable } from '../services/itemHistory';
+import { StockRecord } from '../services/sheetRecords';
+import BalanceChart from './BalanceChart';
+import ExportButtons from './ExportButtons';
+import Modal from './Modal';
+import { useI18n } from '../hooks/useI18n';
+import { LoadingSpinner } from './icons';
+
+interface ItemHistoryDialogProps {
+  area: Area;
+  dataType: SheetDataType;
+  /** All movements of the sheet; the dialog picks out the item's own. */
+  records: StockRecord[];
+  equipment: string;
+  model: string;
+  onClose: () => void;
+}
+
+const ItemHistoryDialog: React.FC<ItemHistoryDialogProps> = ({ area, dataType, records, equipment, model, onClose }) => {
+  const { t, statusLabel } = useI18n();
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [loadingAudit, setLoadingAudit] = useState(true);
+  const [auditError, setAuditError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    inventoryApi.getAuditLog(area, dataType)
+      .then(result => {
+        if (isMounted) setAuditLog(result);
+      })
+      .catch(err => {
+        if (!isMounted) return;
+        console.error("Failed to load audit log:", err);
+        setAuditError(err.message);
+      })
+      .finally(() => {
+        if (isMounted) setLoadingAudit(false);
+      });
+    return () => { isMounted = false; };
+  }, [area, dataType]);
+
+  const history = useMemo(() => buildItemHistory(records, equipment, model, auditLog), [records, equipment, model, auditLog]);
+  const latest = history.entries[history.entries.length - 1];
+
+  const handleExport = (format: ExportFormat) => {
+    const item = `${equipment}-${model}`.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    exportTable(itemHistoryTable(history), format, exportFilename(area, `${dataType}_history_${item}`, format));
+  };
+
+  const thClasses = 'px-2 py-1.5 text-left text-xs font-medium text-cream/80 uppercase tracking-wider bg-charcoal';
+  const tdClasses = 'px-2 py-1.5 whitespace-nowrap text-sm align-top';
+
+  return (
+    <Modal title={t('history.title', { item: `${equipment} · ${model}` })} onClose={onClose} widthClass="max-w-5xl">
+      {history.entries.length === 0 ? (
+        <p className="text-sm text-cream/70">{t('history.empty')}</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-start">
+            <div className="md:col-span-2 bg-charcoal/40 rounded-md p-3">
+              <BalanceChart history={history} />
+            </div>
+            <div className="space-y-3">
+              <div>
+                <p className="text-xs uppercase tracking-wider text-cream/70">{t('history.onHandNow')}</p>
+                <p className="text-3xl font-semibold text-pale-yellow">{latest.balance}</p>
+              </div>
+              {history.statuses.length > 1 && (
+                <ul className="text-sm space-y-0.5">
+                  {history.statuses.map(status => (
+                    <li key={status} className="flex justify-between gap-4">
+                      <span>{statusLabel(status)}</span>
+                      <span className="font-semibold">{latest.statusBalances[status] ?? 0}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-xs text-cream/60">{t('history.movementCount', { count: history.entries.length })}</p>
+              <ExportButtons onExport={handleExport} />
+            </div>
+          </div>
+
+          {loadingAudit ? (
+            <p className="flex items-center text-xs text-cream/70"><LoadingSpinner size="h-4 w-4" /><span className="ml-2">{t('history.loadingCorrections')}</span></p>
+          ) : auditError && (
+            <p className="text-xs text-orange-300">{t('history.correctionsFailed', { error: auditError })}</p>
+          )}
+
+          <div className="overflow-auto max-h-[50vh] rounded-md border border-charcoal/50">
+            <table className="min-w-full border-collapse">
+              <thead className="sticky top-0">
+                <tr>
+                  <th scope="col" className={thClasses}>{t('entry.date')}</th>
+                  <th scope="col" className={thClasses}>{t('entry.addOrUse')}</th>
+                  <th scope="col" className={`${thClasses} text-right`}>{t('transfers.quantity')}</th>
+                  <th scope="col" className={thClasses}>{t('entry.status')}</th>
+                  <th scope="col" className={`${thClasses} text-right`}>{t('balance.onHand')}</th>
+                  <th scope="col" className={thClasses}>{t('entry.recordBy')}</th>
+                  <th scope="col" className={thClasses}>{t('history.transfer')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-teal/50">
+                {history.entries.map(entry => {
+                  const voided = isVoidedEntry(entry);
+                  return (
+                    <tr key={entry.record.sheetRow} className={voided ? 'opacity-60' : ''}>
+                      <td className={tdClasses}>
+                        {entry.record.date}
+                        {entry.corrections.map(correction => (
+                          <p key={correction.id} className="mt-1 text-xs text-orange-300 whitespace-normal">
+                            {t(correction.action === 'void' ? 'audit.voidedBy' : 'audit.correctedBy', { name: correction.editedBy })}
+                            {correction.changes.length > 0 && `: ${correction.changes.map(change => `${change.field} ${change.oldValue || t('audit.emptyValue')} → ${change.newValue || t('audit.emptyValue')}`).join(', ')}`}
+                            {correction.reason && ` (${correction.reason})`}
+                          </p>
+                        ))}
+                      </td>
+                      <td className={`${tdClasses} ${voided ? 'line-through' : ''}`}>{entry.record.addOrUse}</td>
+                      <td className={`${tdClasses} text-right ${entry.change > 0 ? 'text-pale-yellow' : entry.change < 0 ? 'text-red-300' : ''}`}>
+                        {entry.change > 0 ? `+${entry.change}` : entry.change < 0 ? entry.change : entry.record.quantity ?? ''}
+                      </td>
+                      <td className={tdClasses}>{statusLabel(entry.record.status)}</td>
+                      <td className={`${tdClasses} text-right font-semibold ${entry.balance < 0 ? 'text-red-300' : ''}`}>{entry.balance}</td>
+                      <td className={tdClasses}>
+                        {entry.record.recordBy}
+                        {entry.record.reference && <p className="text-xs text-cream/60">{entry.record.reference}</p>}
+                      </td>
+                      <td className={`${tdClasses} font-mono text-xs`}>{entry.record.transferId || entry.record.testId}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ItemHistoryDialog;
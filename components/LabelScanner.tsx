@@ -0,0 +1,91 @@
+import React, { useRef, useState } from 'react';
+import { Route } from '../services/routing';
+import { decodeQrFromImage, parseLabelPayload } from '../services/labels';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { useI18n } from '../hooks/useI18n';
+import { LoadingSpinner } from './icons';
+
+interface LabelScannerProps {
+  /** Called with the entry-form route a scanned stock label points to. */
+  onScan: (route: Route) => void;
+}
+
+/** Scan field for stock labels: keyboard-wedge scanners, pasted codes and photos of a label. */
+const LabelScanner: React.FC<LabelScannerProps> = ({ onScan }) => {
+  const { t } = useI18n();
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState('');
+  const [isDecoding, setIsDecoding] = useState(false);
+  const photoInput = useRef<HTMLInputElement>(null);
+
+  const handleCode = (text: string) => {
+    const route = parseLabelPayload(text);
+    if (!route) {
+      setMessage(t('scanner.notALabel'));
+      return;
+    }
+    setMessage('');
+    setCode('');
+    onScan(route);
+  };
+
+  useBarcodeScanner(handleCode);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (code.trim()) handleCode(code);
+    }
+  };
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsDecoding(true);
+    setMessage('');
+    try {
+      const text = await decodeQrFromImage(file);
+      if (text) {
+        handleCode(text);
+      } else {
+        setMessage(t('scanner.noCode'));
+      }
+    } catch (err: any) {
+      console.error('Failed to decode label photo:', err);
+      setMessage(err.message || t('scanner.photoFailed'));
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-3 rounded-md bg-charcoal/40">
+      <label htmlFor="label-code" className="block text-sm font-medium text-cream/90 mb-2">{t('scanner.label')}</label>
+      <div className="flex gap-2">
+        <input
+          id="label-code"
+          type="text"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          onKeyDown={handleKeyDown}
+          autoComplete="off"
+          className="flex-1 px-3 py-2 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream text-sm placeholder-cream/50"
+          placeholder={t('scanner.placeholder')}
+        />
+        <button
+          type="button"
+          onClick={() => photoInput.current?.click()}
+          disabled={isDecoding}
+          className="flex items-center px-3 py-2 text-sm font-medium rounded-md bg-charcoal/50 text-cream hover:bg-charcoal/70 disabled:opacity-50"
+        >
+          {isDecoding ? <LoadingSpinner size="h-4 w-4" /> : t('scanner.photo')}
+        </button>
+        <input ref={photoInput} type="file" accept="image/*" capture="environment" onChange={handlePhoto} className="hidden" />
+      </div>
+      {message && <p className="mt-2 text-xs text-pale-yellow">{message}</p>}
+    </div>
+  );
+};
+
+export default LabelScanner;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { labelQrDataUrl, StockLabel } from '../services/labels';
+import { areaConfig, hasSeveralVendors, stockLabel } from '../services/areaRegistry';
+import { useI18n } from '../hooks/useI18n';
+import Modal from './Modal';
+import { LoadingSpinner } from './icons';
+
+interface LabelSheetDialogProps {
+  labels: StockLabel[];
+  onClose: () => void;
+}
+
+interface RenderedLabel extends StockLabel {
+  qr: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const stockName = (label: StockLabel) => {
+  const { name } = areaConfig(label.area);
+  return hasSeveralVendors(label.area) ? `${name} · ${stockLabel(label.area, label.dataType)}` : name;
+};
+
+/** A4 sheet, three labels across; each label is 63.5 × 38.1 mm like the common 21-up label stock. */
+const sheetHtml = (labels: RenderedLabel[]) => `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>InvenGo labels</title>
+<style>
+  @page { size: A4; margin: 10mm 7mm; }
+  body { margin: 0; font-family: sans-serif; }
+  .sheet { display: grid; grid-template-columns: repeat(3, 63.5mm); grid-auto-rows: 38.1mm; gap: 0 2.5mm; }
+  .label { display: flex; align-items: center; gap: 2mm; padding: 2mm; box-sizing: border-box; overflow: hidden; break-inside: avoid; }
+  .label img { width: 32mm; height: 32mm; flex-shrink: 0; }
+  .text { min-width: 0; font-size: 9pt; line-height: 1.25; }
+  .equipment { font-weight: bold; font-size: 10pt; }
+  .model { font-family: monospace; font-size: 10pt; word-break: break-all; }
+  .stock { color: #555; font-size: 7.5pt; margin-top: 1mm; }
+</style></head>
+<body><div class="sheet">${labels.map(label => `
+  <div class="label">
+    <img src="${label.qr}" alt="">
+    <div class="text">
+      <div class="equipment">${escapeHtml(label.equipment)}</div>
+      <div class="model">${escapeHtml(label.model)}</div>
+      <div class="stock">${escapeHtml(stockName(label))}</div>
+    </div>
+  </div>`).join('')}
+</div></body></html>`;
+
+const LabelSheetDialog: React.FC<LabelSheetDialogProps> = ({ labels, onClose }) => {
+  const { t } = useI18n();
+  const [rendered, setRendered] = useState<RenderedLabel[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    Promise.all(labels.map(async label => ({ ...label, qr: await labelQrDataUrl(label) })))
+      .then(result => {
+        if (isMounted) setRendered(result);
+      })
+      .catch(err => {
+        if (!isMounted) return;
+        console.error('Failed to render labels:', err);
+        setError(err.message);
+      });
+    return () => { isMounted = false; };
+  }, [labels]);
+
+  const handlePrint = () => {
+    if (!rendered) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setError(t('labels.popupBlocked'));
+      return;
+    }
+    // Print once the QR images are decoded, otherwise the first page may come out blank.
+    printWindow.onload = () => {
+      printWindow.focus();
+      printWindow.print();
+    };
+    printWindow.document.write(sheetHtml(rendered));
+    printWindow.document.close();
+  };
+
+  return (
+    <Modal title={t('labels.title', { count: labels.length })} onClose={onClose} widthClass="max-w-3xl">
+      {error ? (
+        <p className="text-sm text-red-300">{error}</p>
+      ) : !rendered ? (
+        <div className="flex items-center text-cream/70"><LoadingSpinner size="h-5 w-5" /><span className="ml-2">{t('labels.generating')}</span></div>
+      ) : (
+        <>
+          <p className="text-sm text-cream/70 mb-4">{t('labels.help')}</p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 max-h-[60vh] overflow-auto">
+            {rendered.map(label => (
+              <div key={`${label.equipment}|${label.model}`} className="flex items-center gap-2 bg-cream text-charcoal rounded p-2">
+                <img src={label.qr} alt="" className="w-20 h-20 flex-shrink-0" />
+                <div className="min-w-0 text-xs">
+                  <p className="font-bold truncate">{label.equipment}</p>
+                  <p className="font-mono break-all">{label.model}</p>
+                  <p className="text-charcoal/60 mt-1">{stockName(label)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end pt-4">
+            <button onClick={handlePrint} className="py-2 px-4 rounded-md text-sm font-medium text-charcoal bg-pale-yellow hover:opacity-90">
+              {t('labels.print')}
+            </button>
+          </div>
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default LabelSheetDialog;
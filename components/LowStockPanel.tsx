@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Area } from '../types';
+import { StockThreshold } from '../services/api';
+import { AlertSeverity, LowStockAlert } from '../services/thresholds';
+import ThresholdEditor from './ThresholdEditor';
+import { stockLabel } from '../services/areaRegistry';
+import { can } from '../services/auth';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../services/i18n';
+import { ErrorIcon, LoadingSpinner } from './icons';
+
+interface LowStockPanelProps {
+  area: Area;
+  alerts: LowStockAlert[];
+  thresholds: StockThreshold[];
+  loading: boolean;
+  error: string | null;
+  onChanged: () => void;
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, { label: MessageKey; className: string }> = {
+  critical: { label: 'lowStock.critical', className: 'bg-red-500/20 text-red-300 border-red-400/60' },
+  warning: { label: 'lowStock.warning', className: 'bg-orange-500/20 text-orange-300 border-orange-400/60' },
+  low: { label: 'lowStock.low', className: 'bg-pale-yellow/20 text-pale-yellow border-pale-yellow/60' },
+};
+
+const LowStockPanel: React.FC<LowStockPanelProps> = ({ area, alerts, thresholds, loading, error, onChanged }) => {
+  const { t } = useI18n();
+  const [isEditing, setIsEditing] = useState(false);
+  const canManage = can(useSession()?.user ?? null, area, 'manage');
+  const showStockColumn = new Set(thresholds.map(threshold => threshold.dataType)).size > 1;
+
+  return (
+    <div className="bg-teal p-4 sm:p-6 rounded-lg shadow-xl">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold">{t('lowStock.title')}</h3>
+        {canManage && (
+          <button onClick={() => setIsEditing(editing => !editing)} className="text-sm text-pale-yellow hover:underline">
+            {isEditing ? t('lowStock.done') : t('lowStock.manage')}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center text-cream/70"><LoadingSpinner size="h-5 w-5" /><span className="ml-2">{t('lowStock.checking')}</span></div>
+      ) : error ? (
+        <div className="flex items-center text-red-300 text-sm"><ErrorIcon className="h-5 w-5 mr-2" />{t('lowStock.failed', { error })}</div>
+      ) : alerts.length === 0 ? (
+        <p className="text-cream/70 text-sm">
+          {thresholds.length === 0 ? t('lowStock.noThresholds') : t('lowStock.allFine')}
+        </p>
+      ) : (
+        <ul className="divide-y divide-charcoal/50">
+          {alerts.map(({ threshold, onHand, severity }) => {
+            const style = SEVERITY_STYLES[severity];
+            return (
+              <li key={threshold.id} className="flex items-center justify-between py-2 gap-3">
+                <div className="min-w-0">
+                  <p className="text-cream truncate">
+                    {threshold.equipment} {threshold.model || <span className="text-cream/60">({t('thresholds.allModels')})</span>}
+                    {showStockColumn && <span className="ml-2 text-xs text-cream/60">{stockLabel(area, threshold.dataType)}</span>}
+                  </p>
+                  <p className="text-xs text-cream/70">{t('lowStock.onHand', { onHand, minimum: threshold.minQuantity })}</p>
+                </div>
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-full border flex-shrink-0 ${style.className}`}>{t(style.label)}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {isEditing && canManage && <ThresholdEditor area={area} thresholds={thresholds} onChanged={onChanged} />}
+    </div>
+  );
+};
+
+export default LowStockPanel;
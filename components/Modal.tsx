@@ -0,0 +1,41 @@
+import React, { useEffect } from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+interface ModalProps {
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+  /** Tailwind max-width class for the dialog panel. */
+  widthClass?: string;
+}
+
+const Modal: React.FC<ModalProps> = ({ title, onClose, children, widthClass = 'max-w-xl' }) => {
+  const { t } = useI18n();
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-charcoal/80 backdrop-blur-sm" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        className={`w-full ${widthClass} max-h-[90vh] overflow-auto bg-teal text-cream rounded-lg shadow-xl p-6`}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold">{title}</h3>
+          <button onClick={onClose} className="text-cream/70 hover:text-cream text-2xl leading-none" aria-label={t('common.close')}>&times;</button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default Modal;
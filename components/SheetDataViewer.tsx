@@ -1,227 +1,254 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Area } from '../types';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { Area, SheetDataType } from '../types';
+import { ViewFilters } from '../services/routing';
+import { balanceKey, foldMovements, recordToMovement, sortedBalances, VOIDED_MOVEMENT } from '../services/ledger';
+import StockBalanceTable from './StockBalanceTable';
+import StockRowEditor from './StockRowEditor';
+import AuditHistoryDialog from './AuditHistoryDialog';
+import ItemHistoryDialog from './ItemHistoryDialog';
+import ExportButtons from './ExportButtons';
+import LabelSheetDialog from './LabelSheetDialog';
+import ColumnFilterPanel from './ColumnFilterPanel';
+import FilterPresetBar from './FilterPresetBar';
+import { StockLabel } from '../services/labels';
+import { ColumnFilter, decodeColumnFilters, encodeColumnFilters, FilterableColumn, matchesColumnFilters, resolveColumnFilters } from '../services/columnFilters';
+import { columnTotals, heatLevel, MatrixSort, nextSort, rowTotal, sortMatrixRows } from '../services/matrixSummary';
+import { ExportFormat, exportFilename, exportTable, ExportTable } from '../services/export';
+import { parseEquipmentMatrix, parseStockSheet, SheetKind, SheetSchemaError, StockRecord, stockEntryValues } from '../services/sheetRecords';
+import { useVirtualColumns, useVirtualRows } from '../hooks/useVirtualWindow';
+import { useSheetData } from '../hooks/useSheetData';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { can } from '../services/auth';
+import { changedRowCount, diffSheetRows, EMPTY_CHANGES, isCellChanged, SheetChanges, SheetRowSnapshot } from '../services/sheetChanges';
 import { LoadingSpinner, ErrorIcon, SearchIcon } from './icons';
 
+/** Below these sizes every row and column is rendered; above them only the part in view. */
+const VIRTUALIZE_ROWS_FROM = 200;
+const VIRTUALIZE_COLUMNS_FROM = 40;
+/** Fixed width of an equipment column (w-24) while columns are virtualized. */
+const QUANTITY_COLUMN_WIDTH = 96;
+/** Height of a single-line body row, used until rows have been measured. */
+const ESTIMATED_ROW_HEIGHT = 37;
+const CHANGE_HIGHLIGHT_MS = 8000;
+/** Pale-yellow wash laid over a changed cell; a shadow so it shows over the cell's own background. */
+const CHANGED_CELL_STYLE: React.CSSProperties = { boxShadow: 'inset 0 0 0 9999px rgba(243, 222, 138, 0.3)' };
+
 interface SheetDataViewerProps {
     title: string;
     area: Area;
-    dataType: 'stock' | 'stock_abb' | 'stock_supcon' | 'equipment';
+    dataType: SheetDataType;
+    /** Whether `dataType` is a vendor's stock sheet or the area's equipment matrix, as the area registry declares it. */
+    sheetKind: SheetKind;
+    filters: ViewFilters;
+    onFiltersChange: (filters: ViewFilters) => void;
 }
 
-// IMPORTANT: This is your Google Apps Script Web App URL.
-const GOOGLE_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbx03kVQ0fRNdbIeE0e9hfhiWAIj4F2iPT25B06WVoZwSZLl60-1ef8ypap3FST8L_F4/exec';
-
-const SheetDataViewer: React.FC<SheetDataViewerProps> = ({ title, area, dataType }) => {
-    const [data, setData] = useState<string[][] | null>(null);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-    const [selectedType, setSelectedType] = useState<string>('All');
-    const [selectedArea, setSelectedArea] = useState<string>('All');
-    const [selectedCabinet, setSelectedCabinet] = useState<string>('All');
-    const [searchTerm, setSearchTerm] = useState<string>('');
-
-    const isEquipmentView = useMemo(() => dataType === 'equipment', [dataType]);
-    
-    const headerRowCount = useMemo(() => {
-        return dataType.includes('stock') ? 1 : 4;
-    }, [dataType]);
+const SheetDataViewer: React.FC<SheetDataViewerProps> = ({ title, area, dataType, sheetKind, filters, onFiltersChange }) => {
+    const { data, loading, error, lastUpdated, refreshError, refreshing, online, refresh } = useSheetData(area, dataType);
+    const user = useSession()?.user ?? null;
+    const { t, statusLabel, formatTime: formatClock } = useI18n();
+    const [stockMode, setStockMode] = useState<'movements' | 'balance'>('movements');
+    const [editingRecord, setEditingRecord] = useState<StockRecord | null>(null);
+    const [historyRow, setHistoryRow] = useState<number | null>(null);
+    const [timelineItem, setTimelineItem] = useState<{ equipment: string; model: string } | null>(null);
+    // Sheet rows ticked for printing labels.
+    const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+    const [labelsToPrint, setLabelsToPrint] = useState<StockLabel[] | null>(null);
+    const [equipmentSort, setEquipmentSort] = useState<MatrixSort | null>(null);
+    const [showHeatMap, setShowHeatMap] = useState(false);
+
+    // Filter state lives in the URL so views can be deep-linked; 'All' is the absence of a filter.
+    const selectedType = filters.type || 'All';
+    const selectedArea = filters.area || 'All';
+    const selectedCabinet = filters.cabinet || 'All';
+    const searchTerm = filters.q || '';
+
+    const setSelectedType = (type: string) => onFiltersChange({ ...filters, type });
+    // Cabinets belong to an area, so changing the area resets the cabinet filter.
+    const setSelectedArea = (areaName: string) => onFiltersChange({ ...filters, area: areaName, cabinet: undefined });
+    const setSelectedCabinet = (cabinet: string) => onFiltersChange({ ...filters, cabinet });
+    const setSearchTerm = (q: string) => onFiltersChange({ ...filters, q });
+    const columnFilters = useMemo(() => decodeColumnFilters(filters.cols), [filters.cols]);
+    const setColumnFilters = (next: ColumnFilter[]) => onFiltersChange({ ...filters, cols: encodeColumnFilters(next) });
+
+    const isEquipmentView = sheetKind === 'equipment';
 
     useEffect(() => {
-        // When the selected area changes, reset the cabinet filter to 'All'
-        setSelectedCabinet('All');
-    }, [selectedArea]);
-    
-    useEffect(() => {
-        let isMounted = true;
-
-        const fetchData = (isInitialLoad: boolean) => {
-            if (isInitialLoad) {
-                setLoading(true);
-                setError(null);
-            }
-
-            const url = new URL(GOOGLE_SCRIPT_URL);
-            url.searchParams.append('action', 'getData');
-            url.searchParams.append('area', area);
-            url.searchParams.append('type', dataType);
-
-            fetch(url.toString(), {
-                credentials: 'omit' // Ensure consistent anonymous access if public
-            })
-                .then(res => {
-                    if (!res.ok) throw new Error(`HTTP error! status: ${res.status}`);
-                    return res.json();
-                })
-                .then(result => {
-                    if (!isMounted) return;
-                    if (result.success && Array.isArray(result.data)) {
-                        setData(result.data);
-                        if (isInitialLoad) setError(null);
-                    } else {
-                        throw new Error(result.error || 'Invalid data format received.');
-                    }
-                })
-                .catch(err => {
-                    if (!isMounted) return;
-                    console.error("Failed to fetch sheet data:", err);
-                    if (isInitialLoad) {
-                        setError(err.message);
-                    }
-                })
-                .finally(() => {
-                    if (isMounted && isInitialLoad) {
-                        setLoading(false);
-                    }
-                });
-        };
-        
-        fetchData(true);
-        setSelectedType('All'); // Reset type filter
-        setSelectedArea('All'); // Reset area filter when view changes
-        setSelectedCabinet('All'); // Reset cabinet filter
-        setSearchTerm(''); // Reset search term
-
-        const intervalId = setInterval(() => {
-            fetchData(false);
-        }, 30000);
-
-        return () => {
-            isMounted = false;
-            clearInterval(intervalId);
-        };
+        setSelectedRows(new Set());
     }, [area, dataType]);
 
-    const reorderedData = useMemo(() => {
-        if (!isEquipmentView || !data || data.length === 0) {
-            return data;
+    // Turn the raw sheet payload into typed records. A missing or renamed column is reported
+    // as a schema error instead of quietly dropping the filters that depend on it.
+    const { stockSheet, matrix, schemaError } = useMemo(() => {
+        if (!data || data.length === 0) {
+            return { stockSheet: null, matrix: null, schemaError: null };
         }
-        const firstHeaderRow = data[0];
-        const originalAreaIndex = firstHeaderRow.findIndex(header => header.toLowerCase().trim() === 'area');
-        const originalCabinetIndex = firstHeaderRow.findIndex(header => header.toLowerCase().trim() === 'cabinet');
-
-        // No reordering needed if columns are not found or already in order
-        if (originalAreaIndex === -1 || originalCabinetIndex === -1 || originalCabinetIndex === originalAreaIndex + 1) {
-            return data;
+        try {
+            return isEquipmentView
+                ? { stockSheet: null, matrix: parseEquipmentMatrix(data), schemaError: null }
+                : { stockSheet: parseStockSheet(data), matrix: null, schemaError: null };
+        } catch (err) {
+            if (err instanceof SheetSchemaError) {
+                return { stockSheet: null, matrix: null, schemaError: err };
+            }
+            throw err;
         }
-
-        return data.map(row => {
-            const cabinetValue = row[originalCabinetIndex];
-            const rowWithoutCabinet = row.filter((_, index) => index !== originalCabinetIndex);
-            
-            const newAreaIndex = originalCabinetIndex < originalAreaIndex ? originalAreaIndex - 1 : originalAreaIndex;
-            
-            rowWithoutCabinet.splice(newAreaIndex + 1, 0, cabinetValue);
-            
-            return rowWithoutCabinet;
-        });
     }, [data, isEquipmentView]);
 
-    const isFilterableView = dataType.includes('stock') || dataType === 'equipment';
-    
-    const isAreaFiltered = useMemo(() => isEquipmentView && selectedArea !== 'All', [isEquipmentView, selectedArea]);
-
-    const { types, typeColumnIndex } = useMemo(() => {
-        if (!isFilterableView || !reorderedData || reorderedData.length < headerRowCount + 1) return { types: [], typeColumnIndex: -1 };
-        const firstHeaderRow = reorderedData[0];
-        const typeIndex = firstHeaderRow.findIndex(header => header.toLowerCase().trim() === 'type');
-        if (typeIndex === -1) return { types: [], typeColumnIndex: -1 };
-        const uniqueTypes = [...new Set(reorderedData.slice(headerRowCount).map(row => row[typeIndex]).filter(Boolean))];
-        return { types: ['All', ...uniqueTypes], typeColumnIndex: typeIndex };
-    }, [reorderedData, isFilterableView, headerRowCount]);
-
-    const { areas, areaColumnIndex } = useMemo(() => {
-        if (!reorderedData || reorderedData.length < headerRowCount + 1) {
-            return { areas: [], areaColumnIndex: -1 };
+    // Rows and cells that changed since the previous load stay highlighted for a few seconds.
+    const [changes, setChanges] = useState<SheetChanges>(EMPTY_CHANGES);
+    const previousRows = useRef<{ key: string; rows: SheetRowSnapshot[] } | null>(null);
+    useEffect(() => {
+        const rows = stockSheet?.records ?? matrix?.rows ?? null;
+        const key = `${area}/${dataType}`;
+        const previous = previousRows.current;
+        previousRows.current = rows && { key, rows };
+        const next = rows && previous?.key === key ? diffSheetRows(previous.rows, rows) : EMPTY_CHANGES;
+        setChanges(next);
+        if (changedRowCount(next) === 0) return;
+        const timeoutId = setTimeout(() => setChanges(EMPTY_CHANGES), CHANGE_HIGHLIGHT_MS);
+        return () => clearTimeout(timeoutId);
+    }, [stockSheet, matrix, area, dataType]);
+    const changeCount = changedRowCount(changes);
+
+    // Any named column can be filtered: quantities by range, dates by date range, the rest by picked values.
+    const filterableColumns = useMemo((): FilterableColumn[] => {
+        if (stockSheet) {
+            const { number, date, timestamp } = stockSheet.columns;
+            return stockSheet.headers
+                .map((name, index): FilterableColumn => ({
+                    name: String(name ?? '').trim(),
+                    index,
+                    kind: index === number ? 'range' : index === date || index === timestamp ? 'dates' : 'values',
+                }))
+                .filter(column => column.name);
         }
-        const firstHeaderRow = reorderedData[0];
-        const areaIndex = firstHeaderRow.findIndex(header => header.toLowerCase().trim() === 'area');
-        if (areaIndex === -1) {
-            return { areas: [], areaColumnIndex: -1 };
+        if (matrix) {
+            return (matrix.headerRows[0] || [])
+                .map((name, index): FilterableColumn => ({
+                    name: String(name ?? '').trim(),
+                    index,
+                    kind: index >= matrix.firstQuantityColumn ? 'range' : 'values',
+                }))
+                .filter(column => column.name);
         }
-        const uniqueAreas = [...new Set(reorderedData.slice(headerRowCount).map(row => row[areaIndex]).filter(Boolean))];
-        return { areas: ['All', ...uniqueAreas], areaColumnIndex: areaIndex };
-    }, [reorderedData, headerRowCount]);
+        return [];
+    }, [stockSheet, matrix]);
+    const appliedColumnFilters = useMemo(
+        () => resolveColumnFilters(columnFilters, filterableColumns),
+        [columnFilters, filterableColumns]
+    );
+    const unfilteredRows = useMemo(
+        () => (stockSheet ? stockSheet.records.map(record => record.cells) : matrix ? matrix.rows.map(row => row.cells) : []),
+        [stockSheet, matrix]
+    );
 
-    const { cabinets, cabinetColumnIndex } = useMemo(() => {
-        if (!isEquipmentView || !reorderedData || reorderedData.length < headerRowCount + 1) {
-            return { cabinets: [], cabinetColumnIndex: -1 };
-        }
-        const firstHeaderRow = reorderedData[0];
-        const cabinetIndex = firstHeaderRow.findIndex(header => header.toLowerCase().trim() === 'cabinet');
-        if (cabinetIndex === -1 || selectedArea === 'All' || areaColumnIndex === -1) {
-            return { cabinets: [], cabinetColumnIndex: cabinetIndex };
-        }
+    
+    const isAreaFiltered = useMemo(() => isEquipmentView && selectedArea !== 'All', [isEquipmentView, selectedArea]);
+    const areaColumnIndex = matrix?.columns.area ?? -1;
+
+    const types = useMemo(() => {
+        const values = stockSheet
+            ? stockSheet.records.map(record => record.type)
+            : matrix && matrix.columns.type !== -1 ? matrix.rows.map(row => row.type) : [];
+        const uniqueTypes = [...new Set(values.filter(Boolean))];
+        return uniqueTypes.length > 0 ? ['All', ...uniqueTypes] : [];
+    }, [stockSheet, matrix]);
+
+    const areas = useMemo(() => {
+        if (!matrix) return [];
+        const uniqueAreas = [...new Set(matrix.rows.map(row => row.area).filter(Boolean))];
+        return uniqueAreas.length > 0 ? ['All', ...uniqueAreas] : [];
+    }, [matrix]);
+
+    const cabinets = useMemo(() => {
+        if (!matrix || selectedArea === 'All') return [];
         const uniqueCabinetsInArea = [...new Set(
-            reorderedData.slice(headerRowCount)
-                .filter(row => row[areaColumnIndex] === selectedArea)
-                .map(row => row[cabinetIndex])
+            matrix.rows
+                .filter(row => row.area === selectedArea)
+                .map(row => row.cabinet)
                 .filter(Boolean)
         )];
-        const cabinetOptions = uniqueCabinetsInArea.length > 0 ? ['All', ...uniqueCabinetsInArea] : [];
-        return { cabinets: cabinetOptions, cabinetColumnIndex: cabinetIndex };
-    }, [reorderedData, isEquipmentView, selectedArea, areaColumnIndex, headerRowCount]);
+        return uniqueCabinetsInArea.length > 0 ? ['All', ...uniqueCabinetsInArea] : [];
+    }, [matrix, selectedArea]);
     
-    const filteredBodyRows = useMemo(() => {
-        let rows = reorderedData?.slice(headerRowCount) || [];
-        
+    const filteredRecords = useMemo(() => {
+        if (!stockSheet) return [];
+        let records = stockSheet.records;
+
         // Apply Type Filter
-        if (isFilterableView && selectedType !== 'All' && typeColumnIndex !== -1) {
-            rows = rows.filter(row => row[typeColumnIndex] === selectedType);
+        if (selectedType !== 'All') {
+            records = records.filter(record => record.type === selectedType);
+        }
+
+        if (appliedColumnFilters.length > 0) {
+            records = records.filter(record => matchesColumnFilters(record.cells, appliedColumnFilters));
+        }
+
+        // Apply Search Filter
+        if (searchTerm) {
+            const lowerTerm = searchTerm.toLowerCase();
+            records = records.filter(record =>
+                record.cells.some(cell => cell && String(cell).toLowerCase().includes(lowerTerm))
+            );
+        }
+        return records;
+    }, [stockSheet, selectedType, appliedColumnFilters, searchTerm]);
+
+    // On-hand balance of the movements currently in view, so the type filter and search apply to it too.
+    const canShowBalance = !!stockSheet && stockSheet.columns.addOrUse !== -1;
+    const filteredBalances = useMemo(
+        () => (canShowBalance ? sortedBalances(foldMovements(area, filteredRecords.map(recordToMovement))) : []),
+        [canShowBalance, area, filteredRecords]
+    );
+
+    const filteredEquipmentRows = useMemo(() => {
+        if (!matrix) return [];
+        let rows = matrix.rows;
+
+        // Apply Type Filter
+        if (selectedType !== 'All' && matrix.columns.type !== -1) {
+            rows = rows.filter(row => row.type === selectedType);
         }
         
         // Apply Area Filter
-        if (selectedArea !== 'All' && areaColumnIndex !== -1) {
-            rows = rows.filter(row => row[areaColumnIndex] === selectedArea);
+        if (selectedArea !== 'All') {
+            rows = rows.filter(row => row.area === selectedArea);
         }
         
         // Apply Cabinet Filter
-        if (isEquipmentView && selectedCabinet !== 'All' && cabinetColumnIndex !== -1) {
-            rows = rows.filter(row => row[cabinetColumnIndex] === selectedCabinet);
+        if (selectedCabinet !== 'All') {
+            rows = rows.filter(row => row.cabinet === selectedCabinet);
         }
 
-        // Apply Search Filter
-        if (searchTerm) {
-            const lowerTerm = searchTerm.toLowerCase();
-            
-            if (isEquipmentView) {
-                // For Equipment View: We search in the HEADER row (Columns), not the body rows.
-                // So we DO NOT filter rows here based on text content. 
-                // The column filtering logic happens in `visibleEquipmentColumns`.
-            } else {
-                // Standard row filtering for Stock views
-                rows = rows.filter(row => 
-                    row.some(cell => cell && String(cell).toLowerCase().includes(lowerTerm))
-                );
-            }
+        if (appliedColumnFilters.length > 0) {
+            rows = rows.filter(row => matchesColumnFilters(row.cells, appliedColumnFilters));
         }
 
-        // For equipment view, only show rows that have a value in at least one column.
-        // Note: We apply this AFTER search so we don't hide valid empty rows if that logic is desired, 
-        // but generally for equipment matrix, we only want rows with data.
-        if (isEquipmentView) {
-            rows = rows.filter(row => row.some(cell => cell && cell.trim() !== ''));
-        }
-        return rows;
-    }, [reorderedData, selectedType, selectedArea, selectedCabinet, searchTerm, isFilterableView, typeColumnIndex, areaColumnIndex, cabinetColumnIndex, isEquipmentView, headerRowCount]);
-    
+        // The search term matches equipment column headers, not body rows;
+        // see `visibleEquipmentColumns`. Only show rows that have a value in at least one column.
+        return rows.filter(row => row.cells.some(cell => cell && cell.trim() !== ''));
+    }, [matrix, selectedType, selectedArea, selectedCabinet, appliedColumnFilters]);
+
     const visibleEquipmentColumns = useMemo(() => {
-        if (!isEquipmentView || !filteredBodyRows || filteredBodyRows.length === 0 || !reorderedData) {
+        if (!matrix || filteredEquipmentRows.length === 0) {
             return null; // Show all columns if not applicable
         }
 
-        const firstHeaderRow = reorderedData[0] || [];
+        const firstHeaderRow = matrix.headerRows[0] || [];
         const totalColumns = firstHeaderRow.length;
         const visibleIndices = new Set<number>();
 
-        // Always include the first three columns: Area, Cabinet, and Description.
-        visibleIndices.add(0);
-        visibleIndices.add(1);
-        visibleIndices.add(2);
+        // Always include the leading columns: Area, Cabinet, and Description.
+        for (let colIndex = 0; colIndex < matrix.firstQuantityColumn; colIndex++) {
+            visibleIndices.add(colIndex);
+        }
 
         const lowerSearchTerm = searchTerm.toLowerCase();
 
         // Iterate through the rest of the columns
-        for (let colIndex = 3; colIndex < totalColumns; colIndex++) {
+        for (let colIndex = matrix.firstQuantityColumn; colIndex < totalColumns; colIndex++) {
             
             if (searchTerm) {
                 // SEARCH MODE: Filter columns based on the Header Name (Top Row)
@@ -230,44 +257,250 @@ const SheetDataViewer: React.FC<SheetDataViewerProps> = ({ title, area, dataType
                     visibleIndices.add(colIndex);
                 }
             } else {
-                // DEFAULT MODE: Filter columns based on data presence
-                // Check if any data row in this column contains a number greater than 0.
-                const hasNumericData = filteredBodyRows.some(row => {
-                    const cellValue = row[colIndex];
-                    const numericValue = parseInt(cellValue, 10);
-                    return !isNaN(numericValue) && numericValue > 0;
-                });
-
+                // DEFAULT MODE: Show columns where at least one row holds a quantity greater than 0.
+                const hasNumericData = filteredEquipmentRows.some(row => (row.quantities[colIndex] ?? 0) > 0);
                 if (hasNumericData) {
                     visibleIndices.add(colIndex);
                 }
             }
         }
         return visibleIndices;
-    }, [isEquipmentView, filteredBodyRows, reorderedData, searchTerm]);
+    }, [matrix, filteredEquipmentRows, searchTerm]);
+
+    // Equipment columns on screen; totals, sorting by total and the heat map only count these.
+    const visibleQuantityColumns = useMemo(() => {
+        if (!matrix) return [];
+        const columnCount = (matrix.headerRows[0] || []).length;
+        const columns: number[] = [];
+        for (let colIndex = matrix.firstQuantityColumn; colIndex < columnCount; colIndex++) {
+            if (!visibleEquipmentColumns || visibleEquipmentColumns.has(colIndex)) columns.push(colIndex);
+        }
+        return columns;
+    }, [matrix, visibleEquipmentColumns]);
+
+    // A sort on a column that is currently hidden doesn't apply.
+    const activeSort = equipmentSort && (equipmentSort.column === 'total' || !visibleEquipmentColumns || visibleEquipmentColumns.has(equipmentSort.column))
+        ? equipmentSort
+        : null;
+
+    const sortedEquipmentRows = useMemo(
+        () => sortMatrixRows(filteredEquipmentRows, activeSort, visibleQuantityColumns),
+        [filteredEquipmentRows, activeSort?.column, activeSort?.direction, visibleQuantityColumns]
+    );
+
+    const equipmentTotals = useMemo(() => {
+        const totals = columnTotals(sortedEquipmentRows, visibleQuantityColumns);
+        const rows = sortedEquipmentRows.map(row => rowTotal(row, visibleQuantityColumns));
+        let max = 0;
+        sortedEquipmentRows.forEach(row => visibleQuantityColumns.forEach(column => {
+            max = Math.max(max, row.quantities[column] ?? 0);
+        }));
+        return { columns: totals, rows, grand: rows.reduce((sum, total) => sum + total, 0), max };
+    }, [sortedEquipmentRows, visibleQuantityColumns]);
+
+    const handleSort = (column: MatrixSort['column']) => {
+        const isQuantity = column === 'total' || (!!matrix && column >= matrix.firstQuantityColumn);
+        setEquipmentSort(current => nextSort(activeSort ?? current, column, isQuantity));
+    };
+
+    // Movement rows can be corrected or voided in place by area admins; the equipment matrix is read-only.
+    const isMovementSheet = !isEquipmentView && !!stockSheet;
+    const canEditRows = isMovementSheet && can(user, area, 'edit');
+
+    const filteredBodyRows = isEquipmentView
+        ? sortedEquipmentRows.map(row => row.cells)
+        : filteredRecords.map(record => record.cells);
+    const hasBodyRows = isEquipmentView ? (matrix?.rows.length ?? 0) > 0 : (stockSheet?.records.length ?? 0) > 0;
+
+    // Zero-only equipment columns are hidden, and so is the Area column once a single area is selected.
+    const isColumnVisible = (cellIndex: number) => {
+        if (isEquipmentView && visibleEquipmentColumns && !visibleEquipmentColumns.has(cellIndex)) return false;
+        return !(isAreaFiltered && areaColumnIndex !== -1 && cellIndex === areaColumnIndex);
+    };
+    const isBalanceMode = canShowBalance && stockMode === 'balance';
+
+    // Large sheets only render the rows and equipment columns in view, padded by spacers so the
+    // scrollbars, sticky header rows and sticky Area/Cabinet columns behave as if everything were there.
+    const [tableContainer, setTableContainer] = useState<HTMLDivElement | null>(null);
+    const theadRef = useRef<HTMLTableSectionElement>(null);
+    const columnSpacerRef = useRef<HTMLTableCellElement>(null);
+    const [headerHeight, setHeaderHeight] = useState(0);
+    const [leadingWidth, setLeadingWidth] = useState(0);
+
+    const virtualizeRows = !isBalanceMode && filteredBodyRows.length >= VIRTUALIZE_ROWS_FROM;
+    const virtualizeColumns = isEquipmentView && visibleQuantityColumns.length >= VIRTUALIZE_COLUMNS_FROM;
+
+    const { range: rowRange, measureRow } = useVirtualRows(tableContainer, {
+        count: filteredBodyRows.length,
+        rowsKey: isEquipmentView ? sortedEquipmentRows : filteredRecords,
+        estimatedHeight: ESTIMATED_ROW_HEIGHT,
+        headerHeight,
+        enabled: virtualizeRows,
+    });
+    const columnRange = useVirtualColumns(tableContainer, {
+        count: visibleQuantityColumns.length,
+        columnWidth: QUANTITY_COLUMN_WIDTH,
+        leadingWidth,
+        enabled: virtualizeColumns,
+    });
+
+    useLayoutEffect(() => {
+        const height = theadRef.current?.offsetHeight ?? 0;
+        if (height !== headerHeight) setHeaderHeight(height);
+        const width = columnSpacerRef.current?.offsetLeft ?? 0;
+        if (width !== leadingWidth) setLeadingWidth(width);
+    });
+
+    const leadingColumns = matrix
+        ? Array.from({ length: matrix.firstQuantityColumn }, (_, i) => i).filter(isColumnVisible)
+        : [];
+    const windowedQuantityColumns = visibleQuantityColumns.slice(columnRange.start, columnRange.end);
+
+    /**
+     * Renders the visible cells of a row in display order. Equipment rows get their leading columns,
+     * then the equipment columns in view between two spacer cells standing in for the rest.
+     */
+    const renderColumns = (
+        row: string[],
+        renderCell: (value: string, cellIndex: number) => React.ReactNode,
+        renderSpacer: (side: 'before' | 'after', width: number) => React.ReactNode,
+    ): React.ReactNode[] => {
+        if (!isEquipmentView) {
+            return row.map((value, cellIndex) => (isColumnVisible(cellIndex) ? renderCell(value, cellIndex) : null));
+        }
+        return [
+            ...leadingColumns.map(cellIndex => renderCell(row[cellIndex], cellIndex)),
+            virtualizeColumns && renderSpacer('before', columnRange.before),
+            ...windowedQuantityColumns.map(cellIndex => renderCell(row[cellIndex], cellIndex)),
+            virtualizeColumns && renderSpacer('after', columnRange.after),
+        ];
+    };
+    const spacerStyle = (width: number): React.CSSProperties => ({ width, minWidth: width, maxWidth: width, padding: 0 });
+
+    // Labels can be printed for movement rows; each equipment/model gets one label however many rows name it.
+    const canSelectRows = isMovementSheet && !isBalanceMode;
+    const selectedRecords = filteredRecords.filter(record => selectedRows.has(record.sheetRow));
+    const allVisibleSelected = filteredRecords.length > 0 && selectedRecords.length === filteredRecords.length;
+
+    const toggleRow = (sheetRow: number) => setSelectedRows(prev => {
+        const next = new Set(prev);
+        if (next.has(sheetRow)) next.delete(sheetRow);
+        else next.add(sheetRow);
+        return next;
+    });
+    const toggleAllVisible = () =>
+        setSelectedRows(allVisibleSelected ? new Set() : new Set(filteredRecords.map(record => record.sheetRow)));
+
+    const handlePrintLabels = () => {
+        const labels = new Map<string, StockLabel>();
+        selectedRecords.forEach(record => {
+            const key = balanceKey(record.type, record.model, '');
+            if (record.type && !labels.has(key)) {
+                labels.set(key, { area, dataType, equipment: record.type, model: record.model });
+            }
+        });
+        setLabelsToPrint([...labels.values()]);
+    };
 
     if (loading) {
-        return <div className="flex flex-col items-center justify-center p-8 bg-teal rounded-lg"><LoadingSpinner /><p className="mt-4">Loading data...</p></div>;
+        return <div className="flex flex-col items-center justify-center p-8 bg-teal rounded-lg"><LoadingSpinner /><p className="mt-4">{t('viewer.loading')}</p></div>;
     }
 
     if (error) {
         return (
             <div className="flex flex-col items-center justify-center p-8 bg-red-500/10 border border-red-500 text-red-300 rounded-lg">
                 <ErrorIcon />
-                <h3 className="text-xl font-semibold mt-4">Could not load data</h3>
-                <p className="mt-2 text-center">Failed to retrieve data from the spreadsheet. Please ensure the Google Apps Script URL is correct and the sheet is accessible.</p>
+                <h3 className="text-xl font-semibold mt-4">{t('viewer.loadFailed')}</h3>
+                <p className="mt-2 text-center">{t('viewer.loadFailedHelp')}</p>
                 <p className="font-mono text-sm mt-2 p-2 bg-charcoal rounded">{error}</p>
+                <button onClick={refresh} className="mt-4 px-4 py-2 text-sm font-medium rounded-md bg-charcoal/50 text-cream hover:bg-charcoal/70 focus:outline-none focus:ring-2 focus:ring-pale-yellow">{t('common.tryAgain')}</button>
             </div>
         );
     }
 
-    const headerRows = reorderedData?.slice(0, headerRowCount) || [];
+    if (schemaError) {
+        return (
+            <div className="flex flex-col items-center justify-center p-8 bg-red-500/10 border border-red-500 text-red-300 rounded-lg">
+                <ErrorIcon />
+                <h3 className="text-xl font-semibold mt-4">{t('viewer.layoutError')}</h3>
+                <p className="mt-2 text-center">{t('viewer.layoutErrorHelp')}</p>
+                <p className="font-mono text-sm mt-2 p-2 bg-charcoal rounded">{schemaError.message}</p>
+            </div>
+        );
+    }
+
+    const headerRows = (isEquipmentView ? matrix?.headerRows : stockSheet && [stockSheet.headers]) || [];
+
+    // Exports what is on screen: the same rows, columns and header rows the table renders.
+    const buildExportTable = (): ExportTable => {
+        if (isBalanceMode) {
+            return {
+                title,
+                headerRows: [[t('balance.type'), t('balance.model'), t('balance.status'), t('balance.onHand'), t('balance.movements')]],
+                bodyRows: filteredBalances.map(b => [b.equipment, b.model, b.status, String(b.quantity), String(b.movements)]),
+            };
+        }
+        const visibleCells = (row: string[]) => row.filter((_, cellIndex) => isColumnVisible(cellIndex)).map(cell => String(cell ?? ''));
+        if (!isEquipmentView || !matrix) {
+            return { title, headerRows: headerRows.map(visibleCells), bodyRows: filteredBodyRows.map(visibleCells) };
+        }
+        // The matrix is exported with its totals column and totals row, in the on-screen sort order.
+        const leadingCount = visibleCells(headerRows[0] || []).length - visibleQuantityColumns.length;
+        const totalsRow = [
+            ...Array.from({ length: leadingCount }, (_, i) => (i === 0 ? t('viewer.total') : '')),
+            ...visibleQuantityColumns.map(column => String(equipmentTotals.columns.get(column) ?? 0)),
+            String(equipmentTotals.grand),
+        ];
+        return {
+            title,
+            headerRows: headerRows.map((row, rowIndex) => [...visibleCells(row), rowIndex === 0 ? t('viewer.total') : '']),
+            bodyRows: [
+                ...filteredBodyRows.map((row, rowIndex) => [...visibleCells(row), String(equipmentTotals.rows[rowIndex])]),
+                totalsRow,
+            ],
+            frozenColumnCount: isAreaFiltered ? 1 : 2,
+        };
+    };
+
+    const handleExport = (format: ExportFormat) => {
+        const view = isBalanceMode ? `${dataType}-balance` : dataType;
+        exportTable(buildExportTable(), format, exportFilename(area, view, format));
+    };
+    const hasExportRows = isBalanceMode ? filteredBalances.length > 0 : filteredBodyRows.length > 0;
     
+    const formatTime = (date: Date | null) => (date ? formatClock(date) : '—');
+
+    // Tells people how fresh the table is, and says so plainly when background refreshes stop working.
+    const renderRefreshStatus = () => {
+        const isStale = !online || !!refreshError;
+        return (
+            <div className={`mt-1 flex flex-wrap items-center justify-center gap-x-3 text-xs ${isStale ? 'text-orange-300' : 'text-cream/60'}`} role="status">
+                {!online ? (
+                    <span>{t('viewer.offline', { time: formatTime(lastUpdated) })}</span>
+                ) : refreshError ? (
+                    <span title={refreshError}>{t('viewer.refreshFailed', { time: formatTime(lastUpdated) })}</span>
+                ) : (
+                    <span>{t('viewer.lastUpdated', { time: formatTime(lastUpdated) })}{refreshing ? ` · ${t('viewer.checking')}` : ''}</span>
+                )}
+                {changeCount > 0 && (
+                    <span className="text-pale-yellow">{t('viewer.rowsChanged', { count: changeCount })}</span>
+                )}
+                {online && (
+                    <button onClick={refresh} disabled={refreshing} className="text-pale-yellow hover:underline disabled:opacity-50">
+                        {refreshError ? t('viewer.retry') : t('viewer.refresh')}
+                    </button>
+                )}
+            </div>
+        );
+    };
+
     const selectClasses = "bg-charcoal/50 border border-charcoal rounded-md py-1.5 px-2 text-cream text-sm focus:ring-2 focus:ring-pale-yellow focus:border-pale-yellow";
 
-    const renderFilters = () => {
-        if (!isFilterableView) return null;
+    // Statuses are stored as their Thai code; the column filter lists them in the interface language.
+    const statusColumnLabel = (column: FilterableColumn, value: string) =>
+        stockSheet && column.index === stockSheet.columns.status ? statusLabel(value) : value;
 
+    const renderFilters = () => {
         const showTypeFilter = types.length > 1;
         const showAreaFilter = isEquipmentView && areas.length > 1;
         const showCabinetFilter = isEquipmentView && cabinets.length > 1;
@@ -283,7 +516,7 @@ const SheetDataViewer: React.FC<SheetDataViewerProps> = ({ title, area, dataType
                         <input 
                             type="text" 
                             className="block w-full pl-10 pr-3 py-2 border border-charcoal rounded-md leading-5 bg-charcoal/50 text-cream placeholder-cream/50 focus:outline-none focus:bg-charcoal/70 focus:border-pale-yellow focus:ring-2 focus:ring-pale-yellow sm:text-sm transition-all duration-200" 
-                            placeholder="Search by name, model, etc..."
+                            placeholder={t('viewer.searchPlaceholder')}
                             value={searchTerm}
                             onChange={(e) => setSearchTerm(e.target.value)}
                         />
@@ -295,7 +528,7 @@ const SheetDataViewer: React.FC<SheetDataViewerProps> = ({ title, area, dataType
                     <div className="pb-4 border-b border-charcoal/50 space-y-4">
                         {showTypeFilter && (
                             <div>
-                                <span className="mr-4 font-medium text-cream/90">Filter by Type:</span>
+                                <span className="mr-4 font-medium text-cream/90">{t('viewer.filterType')}</span>
                                 <div className="inline-flex flex-wrap gap-2 mt-2 sm:mt-0" role="group">
                                     {types.map(type => (
                                         <button
@@ -303,7 +536,7 @@ const SheetDataViewer: React.FC<SheetDataViewerProps> = ({ title, area, dataType
                                             onClick={() => setSelectedType(type)}
                                             className={`px-4 py-2 text-sm font-medium rounded-md transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-teal focus:ring-pale-yellow ${selectedType === type ? 'bg-pale-yellow text-charcoal shadow' : 'bg-charcoal/50 text-cream hover:bg-charcoal/70'}`}
                                         >
-                                            {type}
+                                            {type === 'All' ? t('viewer.all') : type}
                                         </button>
                                     ))}
                                 </div>
@@ -312,7 +545,7 @@ const SheetDataViewer: React.FC<SheetDataViewerProps> = ({ title, area, dataType
                         
                         {showAreaFilter && (
                             <div>
-                                <span className="mr-4 font-medium text-cream/90">Filter by Area:</span>
+                                <span className="mr-4 font-medium text-cream/90">{t('viewer.filterArea')}</span>
                                 <div className="inline-flex flex-wrap gap-2 mt-2 sm:mt-0" role="group">
                                     {areas.map(areaName => (
                                         <button
@@ -320,7 +553,7 @@ const SheetDataViewer: React.FC<SheetDataViewerProps> = ({ title, area, dataType
                                             onClick={() => setSelectedArea(areaName)}
                                             className={`px-4 py-2 text-sm font-medium rounded-md transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-teal focus:ring-pale-yellow ${selectedArea === areaName ? 'bg-pale-yellow text-charcoal shadow' : 'bg-charcoal/50 text-cream hover:bg-charcoal/70'}`}
                                         >
-                                            {areaName}
+                                            {areaName === 'All' ? t('viewer.all') : areaName}
                                         </button>
                                     ))}
                                 </div>
@@ -329,14 +562,26 @@ const SheetDataViewer: React.FC<SheetDataViewerProps> = ({ title, area, dataType
 
                         {showCabinetFilter && (
                             <div className="flex items-center gap-2">
-                                <label htmlFor="cabinet-filter" className="font-medium text-cream/90 text-sm">Cabinet:</label>
+                                <label htmlFor="cabinet-filter" className="font-medium text-cream/90 text-sm">{t('viewer.cabinet')}</label>
                                 <select id="cabinet-filter" value={selectedCabinet} onChange={(e) => setSelectedCabinet(e.target.value)} className={selectClasses}>
-                                    {cabinets.map(cabinetName => <option key={cabinetName} value={cabinetName}>{cabinetName}</option>)}
+                                    {cabinets.map(cabinetName => <option key={cabinetName} value={cabinetName}>{cabinetName === 'All' ? t('viewer.all') : cabinetName}</option>)}
                                 </select>
                             </div>
                         )}
                     </div>
                 )}
+
+                <div className="pb-4 border-b border-charcoal/50 space-y-4">
+                    <ColumnFilterPanel
+                        columns={filterableColumns}
+                        rows={unfilteredRows}
+                        filters={columnFilters}
+                        applied={appliedColumnFilters}
+                        onChange={setColumnFilters}
+                        valueLabel={statusColumnLabel}
+                    />
+                    <FilterPresetBar area={area} dataType={dataType} filters={filters} onApply={onFiltersChange} />
+                </div>
             </div>
         );
     };
@@ -344,24 +589,60 @@ const SheetDataViewer: React.FC<SheetDataViewerProps> = ({ title, area, dataType
 
     return (
         <div className="bg-teal p-4 sm:p-6 rounded-lg shadow-xl">
-            <div className="flex items-center justify-center mb-4">
+            <div className="flex flex-col items-center justify-center mb-4">
                 <h3 className="text-2xl font-semibold">{title}</h3>
+                {renderRefreshStatus()}
             </div>
             
             {renderFilters()}
 
-            {filteredBodyRows.length > 0 ? (
-                <div className={`overflow-auto rounded-md border border-charcoal/50 ${isEquipmentView ? 'max-h-[70vh]' : ''}`}>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                {canShowBalance ? (
+                    <div className="inline-flex gap-2" role="group">
+                        {([['movements', 'viewer.movements'], ['balance', 'viewer.balance']] as const).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                onClick={() => setStockMode(mode)}
+                                className={`px-4 py-2 text-sm font-medium rounded-md transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-teal focus:ring-pale-yellow ${stockMode === mode ? 'bg-pale-yellow text-charcoal shadow' : 'bg-charcoal/50 text-cream hover:bg-charcoal/70'}`}
+                            >
+                                {t(label)}
+                            </button>
+                        ))}
+                    </div>
+                ) : isEquipmentView ? (
+                    <label className="inline-flex items-center gap-2 text-sm text-cream/90">
+                        <input type="checkbox" checked={showHeatMap} onChange={e => setShowHeatMap(e.target.checked)} />
+                        {t('viewer.heatMap')}
+                    </label>
+                ) : <span />}
+                <div className="flex flex-wrap items-center gap-4">
+                    {canSelectRows && (
+                        <button
+                            onClick={handlePrintLabels}
+                            disabled={selectedRecords.length === 0}
+                            className="px-3 py-1.5 text-sm font-medium rounded-md bg-charcoal/50 text-cream hover:bg-charcoal/70 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-pale-yellow"
+                        >
+                            {selectedRecords.length > 0 ? t('viewer.printSelectedLabels', { count: selectedRecords.length }) : t('viewer.printLabels')}
+                        </button>
+                    )}
+                    <ExportButtons onExport={handleExport} disabled={!hasExportRows} />
+                </div>
+            </div>
+
+            {isBalanceMode ? (
+                <StockBalanceTable balances={filteredBalances} onSelect={balance => setTimelineItem({ equipment: balance.equipment, model: balance.model })} />
+            ) : filteredBodyRows.length > 0 ? (
+                <div ref={setTableContainer} className={`overflow-auto rounded-md border border-charcoal/50 ${isEquipmentView || virtualizeRows ? 'max-h-[70vh]' : ''}`}>
                     <table className="min-w-full border-collapse">
-                        <thead className={`sticky top-0 z-30 ${isEquipmentView ? 'bg-charcoal' : ''}`}>
+                        <thead ref={theadRef} className={`sticky top-0 z-30 ${isEquipmentView ? 'bg-charcoal' : ''}`}>
                             {headerRows.map((row, rowIndex) => (
                                 <tr key={rowIndex}>
-                                    {row.map((header, cellIndex) => {
-                                        if (isEquipmentView && visibleEquipmentColumns && !visibleEquipmentColumns.has(cellIndex)) {
-                                            return null;
-                                        }
-                                        if (isAreaFiltered && areaColumnIndex !== -1 && cellIndex === areaColumnIndex) return null;
-
+                                    {canSelectRows && (
+                                        <th scope="col" className="px-2 py-2 bg-charcoal w-8">
+                                            <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} aria-label={t('viewer.selectAll')} />
+                                        </th>
+                                    )}
+                                    {renderColumns(row, (header, cellIndex) => {
                                         const thClasses = [
                                             'px-2 text-left text-xs font-medium text-cream/80 uppercase tracking-wider',
                                             'bg-charcoal',
@@ -384,6 +665,9 @@ const SheetDataViewer: React.FC<SheetDataViewerProps> = ({ title, area, dataType
                                                 }
                                             } else if (cellIndex === 2) {
                                                 thClasses.push('w-[32rem]');
+                                            } else if (virtualizeColumns) {
+                                                // Virtualized columns need a width that doesn't depend on their content.
+                                                thClasses.push('w-24', 'min-w-24', 'max-w-24');
                                             } else {
                                                 // Set a minimum width for all other columns to ensure content is visible.
                                                 thClasses.push('min-w-24');
@@ -393,73 +677,207 @@ const SheetDataViewer: React.FC<SheetDataViewerProps> = ({ title, area, dataType
                                             thClasses.push('py-2');
                                         }
                                         
+                                        // The top header row carries the column names, so it is the one that sorts.
+                                        const isSortHeader = isEquipmentView && rowIndex === 0;
+                                        if (!isSortHeader) {
+                                            return (
+                                                <th key={cellIndex} scope="col" className={thClasses.join(' ')}>
+                                                    {header}
+                                                </th>
+                                            );
+                                        }
+                                        const sortDirection = activeSort?.column === cellIndex ? activeSort.direction : null;
+                                        thClasses.push('cursor-pointer', 'select-none', 'hover:text-pale-yellow');
                                         return (
-                                            <th key={cellIndex} scope="col" className={thClasses.join(' ')}>
+                                            <th
+                                                key={cellIndex}
+                                                scope="col"
+                                                className={thClasses.join(' ')}
+                                                onClick={() => handleSort(cellIndex)}
+                                                aria-sort={sortDirection === 'asc' ? 'ascending' : sortDirection === 'desc' ? 'descending' : undefined}
+                                                title={t('viewer.sortColumn')}
+                                            >
                                                 {header}
+                                                {sortDirection && <span className="ml-1 text-pale-yellow">{sortDirection === 'asc' ? '▲' : '▼'}</span>}
                                             </th>
                                         );
-                                    })}
+                                    }, (side, width) => (
+                                        <th key={side} ref={side === 'before' && rowIndex === 0 ? columnSpacerRef : undefined} aria-hidden="true" className="bg-charcoal" style={spacerStyle(width)} />
+                                    ))}
+                                    {isEquipmentView && rowIndex === 0 && (
+                                        <th
+                                            scope="col"
+                                            rowSpan={headerRows.length}
+                                            onClick={() => handleSort('total')}
+                                            aria-sort={activeSort?.column === 'total' ? (activeSort.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                                            title={t('viewer.sortTotal')}
+                                            className="px-2 py-1 text-right text-xs font-semibold text-pale-yellow uppercase tracking-wider bg-charcoal border-l border-teal/50 min-w-20 cursor-pointer select-none"
+                                        >
+                                            {t('viewer.total')}
+                                            {activeSort?.column === 'total' && <span className="ml-1">{activeSort.direction === 'asc' ? '▲' : '▼'}</span>}
+                                        </th>
+                                    )}
+                                    {isMovementSheet && (
+                                        <th scope="col" className="px-2 py-2 text-right text-xs font-medium text-cream/80 uppercase tracking-wider bg-charcoal">
+                                            <span className="sr-only">{t('viewer.actions')}</span>
+                                        </th>
+                                    )}
                                 </tr>
                             ))}
                         </thead>
                         <tbody className={`divide-y divide-teal/50 ${isEquipmentView ? 'bg-charcoal' : 'bg-teal'}`}>
-                            {filteredBodyRows.map((row, rowIndex) => (
-                                <tr key={rowIndex} className="group">
-                                    {row.map((cell, cellIndex) => {
-                                        if (isEquipmentView && visibleEquipmentColumns && !visibleEquipmentColumns.has(cellIndex)) {
-                                            return null;
-                                        }
-                                        if (isAreaFiltered && areaColumnIndex !== -1 && cellIndex === areaColumnIndex) return null;
-                                        
-                                        const tdClasses = [
-                                            'px-2 py-2 whitespace-nowrap text-sm text-cream',
-                                            'transition-colors duration-150',
-                                        ];
-
-                                        if (isEquipmentView) {
-                                            if (cellIndex === 0) {
-                                                if (!isAreaFiltered) {
-                                                    tdClasses.push(
-                                                        'sticky', 'left-0', 'w-20', 'z-20',
-                                                        'bg-charcoal', 'group-hover:bg-teal/30', 'border-r', 'border-teal/50'
-                                                    );
-                                                }
-                                            } else if (cellIndex === 1) {
-                                                if (isAreaFiltered) {
-                                                     tdClasses.push(
-                                                        'sticky', 'left-0', 'w-72', 'z-10',
-                                                        'bg-charcoal', 'group-hover:bg-teal/30', 'border-r', 'border-teal/50'
-                                                    );
+                            {rowRange.before > 0 && <tr aria-hidden="true"><td colSpan={1000} style={{ height: rowRange.before, padding: 0 }} /></tr>}
+                            {filteredBodyRows.slice(rowRange.start, rowRange.end).map((row, windowIndex) => {
+                                const rowIndex = rowRange.start + windowIndex;
+                                const record = isEquipmentView ? null : filteredRecords[rowIndex];
+                                const isVoided = record?.addOrUse === VOIDED_MOVEMENT;
+                                return (
+                                    <tr
+                                        key={record ? record.sheetRow : rowIndex}
+                                        ref={virtualizeRows ? measureRow(rowIndex) : undefined}
+                                        className={`group ${isVoided ? 'opacity-60' : ''}`}
+                                    >
+                                        {canSelectRows && record && (
+                                            <td className="px-2 py-2 group-hover:bg-charcoal/40 transition-colors duration-150">
+                                                <input type="checkbox" checked={selectedRows.has(record.sheetRow)} onChange={() => toggleRow(record.sheetRow)} aria-label={t('viewer.selectRow', { row: record.sheetRow + 1 })} />
+                                            </td>
+                                        )}
+                                        {renderColumns(row, (cell, cellIndex) => {
+                                            const tdClasses = [
+                                                'px-2 py-2 whitespace-nowrap text-sm text-cream',
+                                                'transition-colors duration-150',
+                                            ];
+
+                                            if (isEquipmentView) {
+                                                if (cellIndex === 0) {
+                                                    if (!isAreaFiltered) {
+                                                        tdClasses.push(
+                                                            'sticky', 'left-0', 'w-20', 'z-20',
+                                                            'bg-charcoal', 'group-hover:bg-teal/30', 'border-r', 'border-teal/50'
+                                                        );
+                                                    }
+                                                } else if (cellIndex === 1) {
+                                                    if (isAreaFiltered) {
+                                                         tdClasses.push(
+                                                            'sticky', 'left-0', 'w-72', 'z-10',
+                                                            'bg-charcoal', 'group-hover:bg-teal/30', 'border-r', 'border-teal/50'
+                                                        );
+                                                    } else {
+                                                        tdClasses.push(
+                                                            'sticky', 'left-[calc(5rem+1px)]', 'w-72', 'z-10',
+                                                            'bg-charcoal', 'group-hover:bg-teal/30'
+                                                        );
+                                                    }
+                                                } else if (cellIndex === 2) {
+                                                    const classString = tdClasses[0];
+                                                    tdClasses[0] = classString.replace('whitespace-nowrap', 'whitespace-normal');
+                                                    tdClasses.push('w-[32rem]', 'bg-teal', 'group-hover:bg-charcoal/40');
+                                                } else if (showHeatMap) {
+                                                    tdClasses.push('text-right');
                                                 } else {
-                                                    tdClasses.push(
-                                                        'sticky', 'left-[calc(5rem+1px)]', 'w-72', 'z-10',
-                                                        'bg-charcoal', 'group-hover:bg-teal/30'
-                                                    );
+                                                    tdClasses.push('bg-teal', 'group-hover:bg-charcoal/40');
                                                 }
-                                            } else if (cellIndex === 2) {
-                                                const classString = tdClasses[0];
-                                                tdClasses[0] = classString.replace('whitespace-nowrap', 'whitespace-normal');
-                                                tdClasses.push('w-[32rem]', 'bg-teal', 'group-hover:bg-charcoal/40');
                                             } else {
-                                                tdClasses.push('bg-teal', 'group-hover:bg-charcoal/40');
+                                                 tdClasses.push('group-hover:bg-charcoal/40');
+                                                 if (isVoided) tdClasses.push('line-through');
                                             }
-                                        } else {
-                                             tdClasses.push('group-hover:bg-charcoal/40');
-                                        }
 
+                                            // Heat map: the fuller the cell, the stronger the pale-yellow shading.
+                                            const heat = isEquipmentView && showHeatMap && matrix && cellIndex >= matrix.firstQuantityColumn
+                                                ? heatLevel(sortedEquipmentRows[rowIndex]?.quantities[cellIndex], equipmentTotals.max)
+                                                : null;
+                                            const heatStyle = heat === null ? undefined : {
+                                                backgroundColor: heat > 0 ? `rgba(243, 222, 138, ${(0.15 + heat * 0.75).toFixed(2)})` : 'transparent',
+                                                color: heat > 0.5 ? '#3A4A50' : undefined,
+                                            };
+
+                                            const sheetRow = record ? record.sheetRow : sortedEquipmentRows[rowIndex]?.sheetRow;
+                                            const changedStyle = sheetRow !== undefined && isCellChanged(changes, sheetRow, cellIndex) ? CHANGED_CELL_STYLE : undefined;
+
+                                            return (
+                                                <td key={cellIndex} className={tdClasses.join(' ')} style={changedStyle ? { ...heatStyle, ...changedStyle } : heatStyle}>
+                                                    {record && cellIndex === stockSheet?.columns.status ? statusLabel(String(cell ?? '')) : cell}
+                                                </td>
+                                            );
+                                        }, (side, width) => <td key={side} aria-hidden="true" style={spacerStyle(width)} />)}
+                                        {isEquipmentView && (
+                                            <td className="px-2 py-2 whitespace-nowrap text-sm text-right font-semibold text-pale-yellow bg-charcoal border-l border-teal/50 group-hover:bg-teal/30 transition-colors duration-150">
+                                                {equipmentTotals.rows[rowIndex]}
+                                            </td>
+                                        )}
+                                        {isMovementSheet && record && (
+                                            <td className="px-2 py-2 whitespace-nowrap text-right text-xs group-hover:bg-charcoal/40 transition-colors duration-150">
+                                                {canEditRows && !isVoided && (
+                                                    <button onClick={() => setEditingRecord(record)} className="text-pale-yellow hover:underline mr-3">{t('viewer.edit')}</button>
+                                                )}
+                                                <button onClick={() => setTimelineItem({ equipment: record.type, model: record.model })} className="text-cream/70 hover:underline mr-3" title={t('viewer.timelineTitle', { item: `${record.type} ${record.model}` })}>{t('viewer.timeline')}</button>
+                                                <button onClick={() => setHistoryRow(record.sheetRow)} className="text-cream/70 hover:underline" title={t('viewer.historyTitle')}>{t('viewer.history')}</button>
+                                            </td>
+                                        )}
+                                    </tr>
+                                );
+                            })}
+                            {rowRange.after > 0 && <tr aria-hidden="true"><td colSpan={1000} style={{ height: rowRange.after, padding: 0 }} /></tr>}
+                        </tbody>
+                        {isEquipmentView && matrix && (
+                            <tfoot className="sticky bottom-0 z-30">
+                                <tr>
+                                    {renderColumns(headerRows[0] || [], (_, cellIndex) => {
+                                        const tfClasses = ['px-2 py-2 whitespace-nowrap text-sm font-semibold text-pale-yellow bg-charcoal border-t border-teal/50'];
+                                        if (cellIndex === 0 && !isAreaFiltered) {
+                                            tfClasses.push('sticky', 'left-0', 'z-20', 'border-r');
+                                        } else if (cellIndex === 1) {
+                                            tfClasses.push('sticky', isAreaFiltered ? 'left-0 border-r' : 'left-[calc(5rem+1px)]', 'z-10');
+                                        } else if (cellIndex >= matrix.firstQuantityColumn) {
+                                            tfClasses.push('text-right');
+                                        }
+                                        const isLabelCell = cellIndex === (isAreaFiltered ? 1 : 0);
                                         return (
-                                            <td key={cellIndex} className={tdClasses.join(' ')}>
-                                                {cell}
+                                            <td key={cellIndex} className={tfClasses.join(' ')}>
+                                                {isLabelCell ? t('viewer.total') : cellIndex >= matrix.firstQuantityColumn ? equipmentTotals.columns.get(cellIndex) ?? 0 : ''}
                                             </td>
                                         );
-                                    })}
+                                    }, (side, width) => <td key={side} aria-hidden="true" className="bg-charcoal border-t border-teal/50" style={spacerStyle(width)} />)}
+                                    <td className="px-2 py-2 whitespace-nowrap text-sm text-right font-bold text-pale-yellow bg-charcoal border-t border-l border-teal/50">
+                                        {equipmentTotals.grand}
+                                    </td>
                                 </tr>
-                            ))}
-                        </tbody>
+                            </tfoot>
+                        )}
                     </table>
                 </div>
             ) : (
-                <p className="text-center py-8 text-cream/70">{reorderedData && reorderedData.length > headerRowCount ? 'No items match the current filter.' : 'No data found in this sheet.'}</p>
+                <p className="text-center py-8 text-cream/70">{hasBodyRows ? t('viewer.noMatches') : t('viewer.empty')}</p>
+            )}
+
+            {editingRecord && stockSheet && (
+                <StockRowEditor
+                    area={area}
+                    dataType={dataType}
+                    sheetRow={editingRecord.sheetRow}
+                    original={stockEntryValues(editingRecord, stockSheet.columns)}
+                    onClose={() => setEditingRecord(null)}
+                    onSaved={() => {
+                        setEditingRecord(null);
+                        refresh();
+                    }}
+                />
+            )}
+            {labelsToPrint && (
+                <LabelSheetDialog labels={labelsToPrint} onClose={() => setLabelsToPrint(null)} />
+            )}
+            {historyRow !== null && (
+                <AuditHistoryDialog area={area} dataType={dataType} sheetRow={historyRow} onClose={() => setHistoryRow(null)} />
+            )}
+            {timelineItem && stockSheet && (
+                <ItemHistoryDialog
+                    area={area}
+                    dataType={dataType}
+                    records={stockSheet.records}
+                    equipment={timelineItem.equipment}
+                    model={timelineItem.model}
+                    onClose={() => setTimelineItem(null)}
+                />
             )}
         </div>
     );
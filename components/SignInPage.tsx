@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { AuthError, session } from '../services/auth';
+import { useI18n } from '../hooks/useI18n';
+import { ErrorIcon, LoadingSpinner } from './icons';
+
+const SignInPage: React.FC = () => {
+  const { t } = useI18n();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (isSigningIn) return;
+
+    setIsSigningIn(true);
+    setErrorMessage('');
+    try {
+      await session.signIn(username, password);
+    } catch (err: any) {
+      if (!(err instanceof AuthError)) console.error('Sign-in failed:', err);
+      setErrorMessage(err instanceof AuthError ? err.message : t('signIn.failed', { error: err.message || String(err) }));
+      setPassword('');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const inputClasses = "w-full px-4 py-2 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream placeholder-cream/50";
+
+  return (
+    <div className="max-w-sm mx-auto mt-12 bg-teal p-6 sm:p-8 rounded-lg shadow-xl">
+      <h2 className="text-2xl font-semibold text-center mb-6">{t('signIn.title')}</h2>
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div>
+          <label htmlFor="username" className="block text-sm font-medium text-cream/90 mb-2">{t('signIn.username')}</label>
+          <input id="username" value={username} onChange={e => setUsername(e.target.value)} required autoComplete="username" autoFocus className={inputClasses} />
+        </div>
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-cream/90 mb-2">{t('signIn.password')}</label>
+          <input id="password" type="password" value={password} onChange={e => setPassword(e.target.value)} required autoComplete="current-password" className={inputClasses} />
+        </div>
+        {errorMessage && (
+          <div className="flex items-start p-3 bg-red-500/10 border border-red-500 text-red-300 rounded-lg text-sm">
+            <ErrorIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+            <p>{errorMessage}</p>
+          </div>
+        )}
+        <button type="submit" disabled={isSigningIn} className="w-full flex justify-center items-center py-3 px-4 rounded-md shadow-sm text-sm font-medium text-charcoal bg-pale-yellow hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pale-yellow focus:ring-offset-teal disabled:bg-pale-yellow/50 disabled:cursor-not-allowed">
+          {isSigningIn ? <LoadingSpinner size="h-5 w-5" /> : t('signIn.submit')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default SignInPage;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { StockBalance } from '../services/ledger';
+import { useI18n } from '../hooks/useI18n';
+
+interface StockBalanceTableProps {
+  balances: StockBalance[];
+  /** Opens the movement history of a row's equipment/model; rows are clickable when given. */
+  onSelect?: (balance: StockBalance) => void;
+}
+
+const StockBalanceTable: React.FC<StockBalanceTableProps> = ({ balances, onSelect }) => {
+  const { t, statusLabel } = useI18n();
+
+  if (balances.length === 0) {
+    return <p className="text-center py-8 text-cream/70">{t('balance.noMatches')}</p>;
+  }
+
+  const thClasses = 'px-2 py-2 text-left text-xs font-medium text-cream/80 uppercase tracking-wider bg-charcoal';
+  const tdClasses = 'px-2 py-2 whitespace-nowrap text-sm text-cream group-hover:bg-charcoal/40 transition-colors duration-150';
+
+  return (
+    <div className="overflow-auto rounded-md border border-charcoal/50">
+      <table className="min-w-full border-collapse">
+        <thead className="sticky top-0 z-30">
+          <tr>
+            <th scope="col" className={thClasses}>{t('balance.type')}</th>
+            <th scope="col" className={thClasses}>{t('balance.model')}</th>
+            <th scope="col" className={thClasses}>{t('balance.status')}</th>
+            <th scope="col" className={`${thClasses} text-right`}>{t('balance.onHand')}</th>
+            <th scope="col" className={`${thClasses} text-right`}>{t('balance.movements')}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-teal/50 bg-teal">
+          {balances.map(balance => (
+            <tr
+              key={`${balance.equipment}|${balance.model}|${balance.status}`}
+              className={`group ${onSelect ? 'cursor-pointer' : ''}`}
+              onClick={onSelect && (() => onSelect(balance))}
+              title={onSelect ? t('viewer.timelineTitle', { item: `${balance.equipment} ${balance.model}` }) : undefined}
+            >
+              <td className={tdClasses}>{balance.equipment}</td>
+              <td className={tdClasses}>{balance.model}</td>
+              <td className={tdClasses}>{statusLabel(balance.status)}</td>
+              <td className={`${tdClasses} text-right font-semibold ${balance.quantity < 0 ? 'text-red-300' : ''}`}>{balance.quantity}</td>
+              <td className={`${tdClasses} text-right text-cream/70`}>{balance.movements}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default StockBalanceTable;
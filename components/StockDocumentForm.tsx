@@ -0,0 +1,277 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Area } from '../types';
+import { AddOrUse, DropdownOptions, inventoryApi, StockDocumentInput } from '../services/api';
+import { VendorConfig } from '../services/areaRegistry';
+import { defaultEntryStatus, entryStatuses, entryTargetFor, formatSheetDate, loadEntryOptions } from '../services/entryTargets';
+import { knownModels, normalizeModel } from '../services/modelNames';
+import { documentLineProblems, DocumentLineDraft, isBlankLine } from '../services/stockDocuments';
+import { requirePermission } from '../services/auth';
+import { READY_STATUS } from '../services/ledger';
+import { useAvailableBalances } from '../hooks/useAvailableBalances';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { LoadingSpinner, SuccessIcon } from './icons';
+
+interface StockDocumentFormProps {
+  area: Area;
+  title: string;
+  /** The vendor whose stock sheet the lines go to. */
+  vendor: VendorConfig;
+  /** Back to the single-entry form for the same area/vendor. */
+  onSingleEntry?: () => void;
+}
+
+/** Key of one submission attempt; a retry of an unchanged document reuses it so no line is written twice. */
+const newDocumentKey = () => `doc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const StockDocumentForm: React.FC<StockDocumentFormProps> = ({ area, title, vendor, onSingleEntry }) => {
+  const user = useSession()?.user ?? null;
+  const { t, statusLabel } = useI18n();
+  const getTodayDate = () => new Date().toISOString().split('T')[0];
+  const target = entryTargetFor(vendor);
+
+  const [header, setHeader] = useState({ date: getTodayDate(), addOrUse: 'Add' as AddOrUse, reference: '' });
+  const nextLineId = useRef(1);
+  const blankLine = (status: string): DocumentLineDraft => ({ id: nextLineId.current++, equipment: '', model: '', number: '', status });
+  const [lines, setLines] = useState<DocumentLineDraft[]>(() => [blankLine(READY_STATUS)]);
+
+  const [options, setOptions] = useState<DropdownOptions>({ equipment: [], status: [] });
+  const [isLoadingOptions, setIsLoadingOptions] = useState(true);
+  const [optionsError, setOptionsError] = useState<string | null>(null);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+  const lastAttempt = useRef<{ payload: string; key: string } | null>(null);
+
+  const { balances, error: balanceError, reload: reloadBalances } = useAvailableBalances(area, target);
+
+  useEffect(() => {
+    let isMounted = true;
+    setIsLoadingOptions(true);
+    setOptionsError(null);
+
+    loadEntryOptions(area, vendor)
+      .then(result => {
+        if (!isMounted) return;
+        setOptions(result);
+        const statuses = entryStatuses(result);
+        setLines(prev => prev.map(line => (statuses.includes(line.status) ? line : { ...line, status: defaultEntryStatus(statuses) })));
+      })
+      .catch(err => {
+        if (!isMounted) return;
+        console.error("Failed to fetch dropdown options:", err);
+        setOptionsError(err.message);
+      })
+      .finally(() => {
+        if (isMounted) setIsLoadingOptions(false);
+      });
+
+    return () => { isMounted = false; };
+  }, [area, vendor]);
+
+  const statuses = entryStatuses(options);
+  const problems = documentLineProblems(area, lines, header.addOrUse, balances);
+  const filledLines = lines.filter(line => !isBlankLine(line));
+  const canSubmit = !isSubmitting && !isLoadingOptions && filledLines.length > 0 && problems.every(problem => problem === null);
+
+  const handleHeaderChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setHeader(prev => ({ ...prev, [name]: value }));
+  };
+
+  const updateLine = (id: number, changes: Partial<DocumentLineDraft>) => {
+    // Editing a refused line clears what the backend said about it.
+    setLines(prev => prev.map(line => (line.id === id ? { ...line, ...changes, error: undefined } : line)));
+  };
+
+  const addLine = () => setLines(prev => [...prev, blankLine(defaultEntryStatus(statuses))]);
+
+  const removeLine = (id: number) => {
+    setLines(prev => (prev.length > 1 ? prev.filter(line => line.id !== id) : [blankLine(defaultEntryStatus(statuses))]));
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    setNotice('');
+    setErrorMessage('');
+    try {
+      requirePermission(user, area, 'record');
+      const sent = filledLines.map(line => ({ ...line, model: normalizeModel(line.model, knownModels(balances, line.equipment)) }));
+      const document: StockDocumentInput = {
+        area,
+        sheetName: target.sheetName,
+        date: formatSheetDate(header.date),
+        addOrUse: header.addOrUse,
+        recordBy: user!.displayName,
+        reference: header.reference.trim() || undefined,
+        lines: sent.map(({ equipment, model, number, status }) => ({ equipment, model, number, status })),
+      };
+      const payload = JSON.stringify(document);
+      const key = lastAttempt.current?.payload === payload ? lastAttempt.current.key : newDocumentKey();
+      lastAttempt.current = { payload, key };
+
+      const result = await inventoryApi.createStockDocument({ ...document, idempotencyKey: key });
+      lastAttempt.current = null;
+
+      // Recorded lines leave the form; refused ones stay with the reason, to be fixed and sent again.
+      const refused = sent.flatMap((line, index) => {
+        const outcome = result.lines.find(candidate => candidate.index === index);
+        return outcome?.success ? [] : [{ ...line, error: outcome?.error || t('document.lineUnknown') }];
+      });
+      const recorded = sent.length - refused.length;
+      setLines(refused.length > 0 ? refused : [blankLine(defaultEntryStatus(statuses))]);
+      if (recorded > 0) {
+        setNotice(t('document.recorded', { count: recorded, sheet: target.sheetName }));
+        reloadBalances();
+      }
+      if (refused.length > 0) {
+        setErrorMessage(t('document.refused', { count: refused.length }));
+      } else {
+        setHeader(prev => ({ ...prev, reference: '' }));
+      }
+    } catch (err: any) {
+      console.error('Failed to record stock document:', err);
+      setErrorMessage(err.message || t('document.failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClasses = "w-full px-3 py-2 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream text-sm placeholder-cream/50 disabled:cursor-not-allowed";
+  const labelClasses = "block text-sm font-medium text-cream/90 mb-1";
+  const thClasses = "px-2 py-2 text-left text-xs font-medium text-cream/80 uppercase tracking-wider";
+
+  const renderLine = (line: DocumentLineDraft, index: number) => {
+    const models = knownModels(balances, line.equipment);
+    return (
+      <tr className="align-top">
+        <td className="px-2 py-2 text-sm text-cream/70">{index + 1}</td>
+        <td className="px-2 py-2 min-w-[10rem]">
+          <select aria-label={t('entry.equipment')} value={line.equipment} onChange={e => updateLine(line.id, { equipment: e.target.value })} className={inputClasses}>
+            <option value="">{isLoadingOptions ? t('entry.loadingEquipment') : t('entry.selectEquipment')}</option>
+            {options.equipment.map(item => <option key={item} value={item}>{item}</option>)}
+          </select>
+        </td>
+        <td className="px-2 py-2 min-w-[9rem]">
+          <input
+            aria-label={t('entry.model')}
+            value={line.model}
+            onChange={e => updateLine(line.id, { model: e.target.value })}
+            onBlur={() => updateLine(line.id, { model: normalizeModel(line.model, models) })}
+            list={`document-models-${line.id}`}
+            autoComplete="off"
+            className={inputClasses}
+            placeholder={t('entry.modelPlaceholder')}
+          />
+          <datalist id={`document-models-${line.id}`}>
+            {models.map(known => <option key={known.model} value={known.model} />)}
+          </datalist>
+        </td>
+        <td className="px-2 py-2 w-24">
+          <input aria-label={t('transferForm.quantity')} type="number" min="0" value={line.number} onChange={e => updateLine(line.id, { number: e.target.value })} className={inputClasses} />
+        </td>
+        <td className="px-2 py-2 min-w-[8rem]">
+          <select aria-label={t('entry.status')} value={line.status} onChange={e => updateLine(line.id, { status: e.target.value })} className={inputClasses}>
+            {statuses.map(status => <option key={status} value={status}>{statusLabel(status)}</option>)}
+          </select>
+        </td>
+        <td className="px-2 py-2 text-right">
+          <button type="button" onClick={() => removeLine(line.id)} className="text-xs text-red-300 hover:underline" aria-label={t('document.removeLine', { line: index + 1 })}>
+            {t('document.remove')}
+          </button>
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto bg-teal p-6 sm:p-8 rounded-lg shadow-xl">
+      <h3 className="text-2xl font-semibold text-center mb-2">{title}</h3>
+      <p className="text-center text-sm text-cream/70 mb-6">
+        {t('document.help')}
+        {onSingleEntry && <> <button type="button" onClick={onSingleEntry} className="text-pale-yellow hover:underline">{t('document.singleLink')}</button></>}
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="document-date" className={labelClasses}>{t('entry.date')} *</label>
+            <input id="document-date" type="date" name="date" value={header.date} onChange={handleHeaderChange} required className={inputClasses} />
+          </div>
+          <div>
+            <label htmlFor="document-addOrUse" className={labelClasses}>{t('entry.addOrUse')} *</label>
+            <select id="document-addOrUse" name="addOrUse" value={header.addOrUse} onChange={handleHeaderChange} className={inputClasses}>
+              <option value="Add">{t('entry.add')}</option>
+              <option value="Use">{t('entry.use')}</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="document-reference" className={labelClasses}>{t('document.reference')}</label>
+            <input id="document-reference" name="reference" value={header.reference} onChange={handleHeaderChange} className={inputClasses} placeholder={t('document.referencePlaceholder')} />
+          </div>
+          <div>
+            <label htmlFor="document-recordBy" className={labelClasses}>{t('entry.recordBy')}</label>
+            <input id="document-recordBy" value={user?.displayName ?? ''} readOnly disabled className={inputClasses} />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded-md border border-charcoal/50">
+          <table className="min-w-full">
+            <thead className="bg-charcoal">
+              <tr>
+                <th className={thClasses}>#</th>
+                <th className={thClasses}>{t('entry.equipment')}</th>
+                <th className={thClasses}>{t('entry.model')}</th>
+                <th className={thClasses}>{t('transfers.quantity')}</th>
+                <th className={thClasses}>{t('entry.status')}</th>
+                <th className={thClasses} />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-charcoal/50">
+              {lines.map((line, index) => {
+                const problem = line.error ?? problems[index];
+                return (
+                  <React.Fragment key={line.id}>
+                    {renderLine(line, index)}
+                    {problem && (
+                      <tr>
+                        <td />
+                        <td colSpan={5} className="px-2 pb-2 text-xs text-red-300 break-words">{problem}</td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <button type="button" onClick={addLine} className="py-2 px-4 rounded-md text-sm font-medium text-cream bg-charcoal/50 hover:bg-charcoal/70">
+            {t('document.addLine')}
+          </button>
+          <button type="submit" disabled={!canSubmit} className="flex items-center py-2 px-4 rounded-md text-sm font-medium text-charcoal bg-pale-yellow hover:opacity-90 disabled:bg-pale-yellow/50 disabled:cursor-not-allowed">
+            {isSubmitting ? <LoadingSpinner size="h-5 w-5" /> : t('document.submit', { count: filledLines.length })}
+          </button>
+        </div>
+
+        {header.addOrUse === 'Use' && balanceError && <p className="text-xs text-pale-yellow">{t('entry.balanceUnavailable')}</p>}
+        {optionsError && <p className="text-xs text-pale-yellow">{t('entry.optionsFailed')}</p>}
+      </form>
+
+      {notice && (
+        <div className="flex items-center p-4 mt-6 bg-pale-yellow/10 border border-pale-yellow/80 text-pale-yellow rounded-lg">
+          <SuccessIcon className="h-6 w-6 mr-3 flex-shrink-0" />
+          <p>{notice}</p>
+        </div>
+      )}
+      {errorMessage && <p className="mt-4 text-sm text-red-300 break-words">{errorMessage}</p>}
+    </div>
+  );
+};
+
+export default StockDocumentForm;
@@ -0,0 +1,356 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Area } from '../types';
+import { DropdownOptions } from '../services/api';
+import { defaultEntryStatus, entryStatuses, entryTargetFor, loadEntryOptions } from '../services/entryTargets';
+import { VendorConfig } from '../services/areaRegistry';
+import { READY_STATUS } from '../services/ledger';
+import { readSpreadsheetFile, SPREADSHEET_FILE_TYPES } from '../services/import';
+import { ColumnMapping, guessMapping, IMPORT_FIELDS, ImportField, ImportDefaults, SourceRow, splitImportFile, validateImportRows } from '../services/stockImport';
+import { QueuedSubmission, submissionQueue } from '../services/submissionQueue';
+import { useAvailableBalances } from '../hooks/useAvailableBalances';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../services/i18n';
+import { requirePermission } from '../services/auth';
+import SubmissionQueuePanel, { STATUS_BADGES } from './SubmissionQueuePanel';
+import { ErrorIcon, LoadingSpinner } from './icons';
+
+interface StockImportPageProps {
+  area: Area;
+  title: string;
+  vendor: VendorConfig;
+}
+
+interface LoadedFile {
+  name: string;
+  headers: string[];
+  rows: SourceRow[];
+}
+
+interface ImportResult {
+  line: number;
+  submission: QueuedSubmission;
+}
+
+const RESULT_LABELS: Record<QueuedSubmission['status'], MessageKey> = {
+  synced: 'import.result.synced',
+  pending: 'import.result.pending',
+  failed: 'import.result.failed',
+};
+
+const StockImportPage: React.FC<StockImportPageProps> = ({ area, title, vendor }) => {
+  const target = entryTargetFor(vendor);
+  const user = useSession()?.user ?? null;
+  const { locale, t, statusLabel } = useI18n();
+
+  const [options, setOptions] = useState<DropdownOptions>({ equipment: [], status: [] });
+  const [isLoadingOptions, setIsLoadingOptions] = useState(true);
+  const [optionsError, setOptionsError] = useState<string | null>(null);
+
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [defaults, setDefaults] = useState<ImportDefaults>({
+    date: new Date().toISOString().split('T')[0],
+    status: READY_STATUS,
+  });
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+
+  const { balances, error: balanceError, reload: reloadBalances } = useAvailableBalances(area, target);
+
+  useEffect(() => {
+    let isMounted = true;
+    setIsLoadingOptions(true);
+    setOptionsError(null);
+
+    loadEntryOptions(area, vendor)
+      .then(result => {
+        if (!isMounted) return;
+        setOptions(result);
+        const statuses = entryStatuses(result);
+        setDefaults(prev => (statuses.includes(prev.status) ? prev : { ...prev, status: defaultEntryStatus(statuses) }));
+      })
+      .catch(err => {
+        if (!isMounted) return;
+        console.error("Failed to fetch dropdown options:", err);
+        setOptionsError(err.message);
+      })
+      .finally(() => {
+        if (isMounted) setIsLoadingOptions(false);
+      });
+
+    return () => { isMounted = false; };
+  }, [area, vendor]);
+
+  const validated = useMemo(
+    () => (file && mapping ? validateImportRows(file.rows, mapping, { area, target, options, defaults, recordBy: user?.displayName ?? '', balances }) : []),
+    // The locale is a dependency because the row errors are worded in it.
+    [file, mapping, area, target.sheetName, options, defaults, user, balances, locale]
+  );
+  const validRows = validated.filter(row => row.entry);
+  const invalidCount = validated.length - validRows.length;
+  const missingRequired = mapping ? IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === -1) : [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    setIsReading(true);
+    setReadError(null);
+    setResults(null);
+    try {
+      const { headers, rows } = splitImportFile(await readSpreadsheetFile(selected));
+      if (rows.length === 0) {
+        throw new Error(t('import.noRows'));
+      }
+      setFile({ name: selected.name, headers, rows });
+      setMapping(guessMapping(headers));
+    } catch (err: any) {
+      console.error('Failed to read import file:', err);
+      setFile(null);
+      setMapping(null);
+      setReadError(err.message || t('import.readFailed'));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, column: number) =>
+    setMapping(prev => (prev ? { ...prev, [field]: column } : prev));
+
+  const handleDefaultsChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setDefaults(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async () => {
+    if (isSubmitting || validRows.length === 0) return;
+    const message = invalidCount > 0
+      ? t('import.confirmSkipping', { count: validRows.length, invalid: invalidCount })
+      : t('import.confirmAll', { count: validRows.length });
+    if (!window.confirm(message)) return;
+
+    setIsSubmitting(true);
+    try {
+      requirePermission(user, area, 'record');
+      const submissions = await submissionQueue.enqueueEach(target.action, validRows.map(row => row.entry!));
+      setResults(submissions.map((submission, index) => ({ line: validRows[index].line, submission })));
+      setFile(null);
+      setMapping(null);
+      reloadBalances();
+    } catch (err: any) {
+      console.error('Import failed:', err);
+      setReadError(err.message || t('import.saveFailed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClasses = "w-full px-3 py-2 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream text-sm placeholder-cream/50";
+  const labelClasses = "block text-sm font-medium text-cream/90 mb-1";
+  const thClasses = "px-2 py-2 text-left text-xs font-medium text-cream/80 uppercase tracking-wider bg-charcoal";
+  const tdClasses = "px-2 py-2 text-sm text-cream align-top";
+  const statusList = entryStatuses(options);
+
+  const renderResults = (report: ImportResult[]) => {
+    const counts = report.reduce<Record<string, number>>((acc, { submission }) => {
+      acc[submission.status] = (acc[submission.status] ?? 0) + 1;
+      return acc;
+    }, {});
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-cream/90">
+          {t('import.summary', { synced: counts.synced ?? 0, pending: counts.pending ?? 0, failed: counts.failed ?? 0 })}
+        </p>
+        <div className="overflow-auto rounded-md border border-charcoal/50 max-h-[60vh]">
+          <table className="min-w-full border-collapse">
+            <thead className="sticky top-0">
+              <tr>
+                <th className={thClasses}>{t('import.row')}</th>
+                <th className={thClasses}>{t('import.entry')}</th>
+                <th className={thClasses}>{t('import.result')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-teal/50">
+              {report.map(({ line, submission }) => (
+                <tr key={submission.id}>
+                  <td className={tdClasses}>{line}</td>
+                  <td className={tdClasses}>{t(submission.entry.addOrUse === 'Use' ? 'entry.use' : 'entry.add')} {submission.entry.number} &times; {submission.entry.equipment} {submission.entry.model}</td>
+                  <td className={tdClasses}>
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full border ${STATUS_BADGES[submission.status].className}`}>{t(RESULT_LABELS[submission.status])}</span>
+                    {submission.status === 'failed' && submission.lastError && <p className="text-xs text-red-300 mt-1 break-words">{submission.lastError}</p>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button onClick={() => setResults(null)} className="py-2 px-4 rounded-md text-sm font-medium text-charcoal bg-pale-yellow hover:opacity-90">
+          {t('import.another')}
+        </button>
+      </div>
+    );
+  };
+
+  const renderPreview = (loaded: LoadedFile, columnMapping: ColumnMapping) => {
+    const rows = showErrorsOnly ? validated.filter(row => !row.entry) : validated;
+    const cellOf = (cells: string[], field: ImportField) => (columnMapping[field] === -1 ? '' : cells[columnMapping[field]] ?? '');
+    const cellsByLine = new Map(loaded.rows.map(row => [row.line, row.cells]));
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h4 className="text-lg font-semibold mb-3">{t('import.columns', { file: loaded.name })}</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field}>
+                <label htmlFor={`map-${field}`} className={labelClasses}>{t(label)}{required ? ' *' : ''}</label>
+                <select
+                  id={`map-${field}`}
+                  value={columnMapping[field]}
+                  onChange={e => handleMappingChange(field, Number(e.target.value))}
+                  className={`${inputClasses} ${required && columnMapping[field] === -1 ? 'border-red-400' : ''}`}
+                >
+                  <option value={-1}>{required ? t('import.chooseColumn') : t('import.useDefault')}</option>
+                  {loaded.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || t('import.column', { number: index + 1 })}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-lg font-semibold mb-1">{t('import.defaults')}</h4>
+          <p className="text-xs text-cream/70 mb-3">{t('import.defaultsHelp')}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="default-date" className={labelClasses}>{t('entry.date')}</label>
+              <input id="default-date" type="date" name="date" value={defaults.date} onChange={handleDefaultsChange} className={inputClasses} />
+            </div>
+            <div>
+              <label htmlFor="default-status" className={labelClasses}>{t('entry.status')}</label>
+              <select id="default-status" name="status" value={defaults.status} onChange={handleDefaultsChange} className={inputClasses}>
+                {statusList.map(status => <option key={status} value={status}>{statusLabel(status)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="import-recordBy" className={labelClasses}>{t('entry.recordBy')}</label>
+              <input id="import-recordBy" value={user?.displayName ?? ''} readOnly className={`${inputClasses} opacity-70`} />
+            </div>
+          </div>
+        </div>
+
+        {missingRequired.length > 0 ? (
+          <p className="text-sm text-red-300">{t('import.missingColumns', { fields: missingRequired.map(f => t(f.label)).join(', ') })}</p>
+        ) : (
+          <div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <p className="text-sm">
+                <span className="text-pale-yellow font-semibold">{t('import.readyCount', { count: validRows.length })}</span>
+                {invalidCount > 0 && <span className="text-red-300 font-semibold"> &middot; {t('import.errorCount', { count: invalidCount })}</span>}
+                <span className="text-cream/70"> {t('import.ofRows', { count: validated.length })}</span>
+              </p>
+              {invalidCount > 0 && (
+                <label className="text-sm text-cream/90 flex items-center gap-2">
+                  <input type="checkbox" checked={showErrorsOnly} onChange={e => setShowErrorsOnly(e.target.checked)} />
+                  {t('import.errorsOnly')}
+                </label>
+              )}
+            </div>
+            {balanceError && (
+              <p className="mb-3 text-xs text-pale-yellow">{t('import.balanceUnavailable')}</p>
+            )}
+            <div className="overflow-auto rounded-md border border-charcoal/50 max-h-[60vh]">
+              <table className="min-w-full border-collapse">
+                <thead className="sticky top-0">
+                  <tr>
+                    <th className={thClasses}>{t('import.row')}</th>
+                    {IMPORT_FIELDS.map(({ field, label }) => <th key={field} className={thClasses}>{t(label)}</th>)}
+                    <th className={thClasses}>{t('import.check')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-teal/50">
+                  {rows.map(row => {
+                    const cells = cellsByLine.get(row.line) ?? [];
+                    return (
+                      <tr key={row.line} className={row.entry ? '' : 'bg-red-500/10'}>
+                        <td className={tdClasses}>{row.line}</td>
+                        {IMPORT_FIELDS.map(({ field }) => (
+                          <td key={field} className={`${tdClasses} whitespace-nowrap`}>{row.entry ? row.entry[field] : cellOf(cells, field)}</td>
+                        ))}
+                        <td className={tdClasses}>
+                          {row.entry ? (
+                            <span className="text-pale-yellow">{t('import.ready')}</span>
+                          ) : (
+                            <ul className="text-xs text-red-300 space-y-0.5">
+                              {row.errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="pt-4">
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting || validRows.length === 0}
+                className="w-full flex justify-center items-center py-3 px-4 rounded-md shadow-sm text-sm font-medium text-charcoal bg-pale-yellow hover:opacity-90 disabled:bg-pale-yellow/50 disabled:text-charcoal/50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? <LoadingSpinner size="h-5 w-5" /> : t('import.submit', { count: validRows.length })}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-teal p-6 sm:p-8 rounded-lg shadow-xl">
+      <h3 className="text-2xl font-semibold text-center mb-2">{title}</h3>
+      <p className="text-center text-sm text-cream/70 mb-6">{t('import.target', { sheet: target.sheetName })}</p>
+
+      {isLoadingOptions ? (
+        <div className="flex items-center justify-center text-cream/70"><LoadingSpinner size="h-5 w-5" /><span className="ml-2">{t('entry.loadingEquipment')}</span></div>
+      ) : optionsError ? (
+        <div className="flex items-center justify-center text-red-300 text-sm">
+          <ErrorIcon className="h-5 w-5 mr-2" />{t('import.optionsFailed', { error: optionsError })}
+        </div>
+      ) : results ? (
+        renderResults(results)
+      ) : (
+        <div className="space-y-6">
+          <div>
+            <label htmlFor="import-file" className={labelClasses}>{t('import.file')}</label>
+            <input
+              id="import-file"
+              type="file"
+              accept={SPREADSHEET_FILE_TYPES}
+              onChange={handleFile}
+              disabled={isReading || isSubmitting}
+              className="block w-full text-sm text-cream file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-pale-yellow file:text-charcoal hover:file:opacity-90"
+            />
+            <p className="text-xs text-cream/70 mt-1">{t('import.fileHelp')}</p>
+          </div>
+          {isReading && <div className="flex items-center text-cream/70"><LoadingSpinner size="h-5 w-5" /><span className="ml-2">{t('import.reading')}</span></div>}
+          {readError && <p className="text-sm text-red-300 break-words">{readError}</p>}
+          {file && mapping && renderPreview(file, mapping)}
+        </div>
+      )}
+
+      <SubmissionQueuePanel area={area} />
+    </div>
+  );
+};
+
+export default StockImportPage;
@@ -0,0 +1,126 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Area } from '../types';
+import { areaConfig, hasSeveralVendors } from '../services/areaRegistry';
+import { monthsEndingAt, todayIso } from '../services/consumption';
+import { downloadBlob } from '../services/export';
+import { parseStockSheet, SheetSchemaError, StockRecord } from '../services/sheetRecords';
+import { buildStockReport } from '../services/stockReport';
+import { reportDocument, reportFilename, reportHtml, reportPdf } from '../services/stockReportDocument';
+import { useSheetData } from '../hooks/useSheetData';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { LoadingSpinner } from './icons';
+
+interface StockReportPageProps {
+  area: Area;
+}
+
+/** The month before the current one, which is the one usually being reported on. */
+const previousMonth = () => monthsEndingAt(todayIso(), 2).from.slice(0, 7);
+
+const StockReportPage: React.FC<StockReportPageProps> = ({ area }) => {
+  const user = useSession()?.user ?? null;
+  const { t, locale } = useI18n();
+  const config = areaConfig(area);
+  const [vendorId, setVendorId] = useState(config.vendors[0].id);
+  const [month, setMonth] = useState(previousMonth);
+  const [preparedBy, setPreparedBy] = useState(user?.displayName ?? '');
+  const [makingPdf, setMakingPdf] = useState(false);
+  const [pdfError, setPdfError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLIFrameElement>(null);
+
+  const vendor = config.vendors.find(candidate => candidate.id === vendorId) ?? config.vendors[0];
+  const { data, loading, error } = useSheetData(area, vendor.stockDataType);
+
+  const { records, schemaError } = useMemo((): { records: StockRecord[]; schemaError: string | null } => {
+    if (!data || data.length === 0) return { records: [], schemaError: null };
+    try {
+      return { records: parseStockSheet(data).records, schemaError: null };
+    } catch (err) {
+      if (err instanceof SheetSchemaError) return { records: [], schemaError: err.message };
+      throw err;
+    }
+  }, [data]);
+
+  const report = useMemo(() => buildStockReport(area, vendor, month, records), [area, vendor, month, records]);
+  // `locale` is read by the document builder through the locale store; listed so a switch re-renders it.
+  const html = useMemo(() => reportHtml(reportDocument(report, preparedBy.trim())), [report, preparedBy, locale]);
+
+  const handlePrint = () => previewRef.current?.contentWindow?.print();
+
+  const handleDownload = () => {
+    setMakingPdf(true);
+    setPdfError(null);
+    reportPdf(reportDocument(report, preparedBy.trim()))
+      .then(blob => downloadBlob(blob, reportFilename(report)))
+      .catch(err => {
+        console.error('Failed to make the report PDF:', err);
+        setPdfError(t('report.pdfFailed', { message: err.message }));
+      })
+      .finally(() => setMakingPdf(false));
+  };
+
+  const inputClasses = "px-3 py-1.5 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream text-sm";
+  const loadError = error ?? schemaError;
+  const ready = !loading && !loadError && !!month;
+
+  return (
+    <div className="bg-teal p-4 sm:p-6 rounded-lg shadow-xl">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-2xl font-semibold">{t('report.title')}</h3>
+          <p className="text-xs text-cream/60 mt-1">{t('report.help')}</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          {hasSeveralVendors(area) && (
+            <div>
+              <label htmlFor="report-vendor" className="block text-xs text-cream/70 mb-1">{t('report.vendor')}</label>
+              <select id="report-vendor" value={vendor.id} onChange={e => setVendorId(e.target.value)} className={inputClasses}>
+                {config.vendors.map(candidate => <option key={candidate.id} value={candidate.id}>{candidate.name}</option>)}
+              </select>
+            </div>
+          )}
+          <div>
+            <label htmlFor="report-month" className="block text-xs text-cream/70 mb-1">{t('report.month')}</label>
+            <input id="report-month" type="month" value={month} onChange={e => e.target.value && setMonth(e.target.value)} className={inputClasses} />
+          </div>
+          <div>
+            <label htmlFor="report-prepared-by" className="block text-xs text-cream/70 mb-1">{t('report.preparedByName')}</label>
+            <input id="report-prepared-by" type="text" value={preparedBy} onChange={e => setPreparedBy(e.target.value)} className={inputClasses} />
+          </div>
+          <button
+            onClick={handlePrint}
+            disabled={!ready}
+            className="px-4 py-1.5 text-sm font-medium rounded-md bg-charcoal/50 text-cream hover:bg-charcoal/70 focus:outline-none focus:ring-2 focus:ring-pale-yellow disabled:opacity-50"
+          >
+            {t('report.print')}
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!ready || makingPdf}
+            className="inline-flex items-center px-4 py-1.5 text-sm font-medium rounded-md text-charcoal bg-pale-yellow hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-pale-yellow disabled:opacity-50"
+          >
+            {makingPdf && <LoadingSpinner size="h-4 w-4" />}
+            <span className={makingPdf ? 'ml-2' : ''}>{makingPdf ? t('report.makingPdf') : t('report.downloadPdf')}</span>
+          </button>
+        </div>
+      </div>
+
+      {pdfError && <p className="mb-4 text-sm text-red-300">{pdfError}</p>}
+      {loading ? (
+        <div className="flex items-center justify-center py-10 text-cream/70"><LoadingSpinner size="h-5 w-5" /><span className="ml-2">{t('report.loading')}</span></div>
+      ) : loadError ? (
+        <p className="text-center py-10 text-red-300">{t('report.loadFailed', { message: loadError })}</p>
+      ) : (
+        <iframe
+          ref={previewRef}
+          title={t('report.preview')}
+          srcDoc={html}
+          className="w-full h-[70vh] rounded-md bg-white"
+        />
+      )}
+    </div>
+  );
+};
+
+export default StockReportPage;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Area, SheetDataType } from '../types';
+import { inventoryApi, StockEntryField, StockEntryValues } from '../services/api';
+import { requirePermission } from '../services/auth';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../services/i18n';
+import Modal from './Modal';
+import { LoadingSpinner } from './icons';
+
+interface StockRowEditorProps {
+  area: Area;
+  dataType: SheetDataType;
+  sheetRow: number;
+  original: StockEntryValues;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const FIELD_LABELS: Record<StockEntryField, MessageKey> = {
+  date: 'entry.date',
+  equipment: 'entry.equipment',
+  model: 'entry.model',
+  number: 'entry.number',
+  addOrUse: 'entry.addOrUse',
+  status: 'entry.status',
+  recordBy: 'entry.recordBy',
+};
+
+const StockRowEditor: React.FC<StockRowEditorProps> = ({ area, dataType, sheetRow, original, onClose, onSaved }) => {
+  const [values, setValues] = useState<StockEntryValues>(original);
+  const user = useSession()?.user ?? null;
+  const { t } = useI18n();
+  const editedBy = user?.displayName ?? '';
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fields = Object.keys(FIELD_LABELS) as StockEntryField[];
+  const changedFields = fields.filter(field => values[field].trim() !== original[field]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setValues(prev => ({ ...prev, [name]: value }));
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setErrorMessage('');
+    try {
+      requirePermission(user, area, 'edit');
+      await action();
+      onSaved();
+    } catch (err: any) {
+      console.error('Failed to correct stock row:', err);
+      setErrorMessage(err.message || t('edit.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (isSaving || changedFields.length === 0) return;
+
+    const summary = changedFields.map(field => `${t(FIELD_LABELS[field])}: "${original[field]}" → "${values[field].trim()}"`).join('\n');
+    if (!window.confirm(`${t('edit.confirmSave')}\n\n${summary}`)) return;
+
+    const changes: Partial<StockEntryValues> = {};
+    changedFields.forEach(field => { changes[field] = values[field].trim(); });
+    void run(() => inventoryApi.updateStockEntry({ area, dataType, sheetRow, expected: original, changes, editedBy, reason: reason.trim() }));
+  };
+
+  const handleVoid = () => {
+    if (isSaving) return;
+    if (!reason.trim()) {
+      setErrorMessage(t('edit.reasonRequired'));
+      return;
+    }
+    if (!window.confirm(t('edit.confirmVoid'))) return;
+    void run(() => inventoryApi.voidStockEntry({ area, dataType, sheetRow, expected: original, editedBy, reason: reason.trim() }));
+  };
+
+  const inputClasses = "w-full px-3 py-2 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream placeholder-cream/50";
+  const labelClasses = "block text-sm font-medium text-cream/90 mb-1";
+
+  return (
+    <Modal title={t('edit.title', { row: sheetRow + 1 })} onClose={onClose}>
+      <form onSubmit={handleSave} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {fields.map(field => (
+            <div key={field}>
+              <label htmlFor={`edit-${field}`} className={labelClasses}>{t(FIELD_LABELS[field])}</label>
+              {field === 'addOrUse' ? (
+                <select id={`edit-${field}`} name={field} value={values[field]} onChange={handleChange} className={inputClasses}>
+                  <option value="Add">{t('entry.add')}</option>
+                  <option value="Use">{t('entry.use')}</option>
+                </select>
+              ) : (
+                <input
+                  id={`edit-${field}`}
+                  name={field}
+                  type={field === 'number' ? 'number' : 'text'}
+                  min={field === 'number' ? 0 : undefined}
+                  value={values[field]}
+                  onChange={handleChange}
+                  className={`${inputClasses} ${changedFields.includes(field) ? 'border-pale-yellow' : ''}`}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="pt-4 border-t border-charcoal/50 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="edit-editedBy" className={labelClasses}>{t('edit.correctedBy')}</label>
+            <input id="edit-editedBy" value={editedBy} readOnly className={`${inputClasses} opacity-70`} />
+          </div>
+          <div>
+            <label htmlFor="edit-reason" className={labelClasses}>{t('edit.reason')} *</label>
+            <input id="edit-reason" value={reason} onChange={e => setReason(e.target.value)} required className={inputClasses} placeholder={t('edit.reasonPlaceholder')} />
+          </div>
+        </div>
+
+        {errorMessage && <p className="text-sm text-red-300 break-words">{errorMessage}</p>}
+
+        <div className="flex items-center justify-between pt-2">
+          <button type="button" onClick={handleVoid} disabled={isSaving} className="py-2 px-4 rounded-md text-sm font-medium text-red-300 border border-red-400/60 hover:bg-red-500/10 disabled:opacity-50">
+            {t('edit.void')}
+          </button>
+          <button type="submit" disabled={isSaving || changedFields.length === 0} className="flex items-center py-2 px-4 rounded-md text-sm font-medium text-charcoal bg-pale-yellow hover:opacity-90 disabled:bg-pale-yellow/50 disabled:cursor-not-allowed">
+            {isSaving ? <LoadingSpinner size="h-5 w-5" /> : changedFields.length > 0 ? t('edit.saveCount', { count: changedFields.length }) : t('edit.save')}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default StockRowEditor;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Area } from '../types';
+import { useSubmissions } from '../hooks/useSubmissions';
+import { useI18n } from '../hooks/useI18n';
+import { useSession } from '../hooks/useSession';
+import { MessageKey } from '../services/i18n';
+import { canSendAs, submissionQueue, SubmissionStatus } from '../services/submissionQueue';
+
+interface SubmissionQueuePanelProps {
+  area: Area;
+}
+
+export const STATUS_BADGES: Record<SubmissionStatus, { label: MessageKey; className: string }> = {
+  pending: { label: 'queue.pending', className: 'bg-pale-yellow/20 text-pale-yellow border-pale-yellow/60' },
+  synced: { label: 'queue.synced', className: 'bg-green-500/20 text-green-300 border-green-400/60' },
+  failed: { label: 'queue.failed', className: 'bg-red-500/20 text-red-300 border-red-400/60' },
+};
+
+const SubmissionQueuePanel: React.FC<SubmissionQueuePanelProps> = ({ area }) => {
+  const submissions = useSubmissions(area);
+  const { t, statusLabel } = useI18n();
+  const username = useSession()?.user.username ?? null;
+
+  if (submissions.length === 0) return null;
+
+  const pendingCount = submissions.filter(s => s.status === 'pending').length;
+
+  return (
+    <div className="mt-6 bg-charcoal/40 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-cream/90 uppercase tracking-wider">{t('queue.title')}</h4>
+        {pendingCount > 0 && (
+          <span className="text-xs text-pale-yellow">{t('queue.waiting', { count: pendingCount })}</span>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {submissions.map(submission => {
+          const { entry } = submission;
+          const badge = STATUS_BADGES[submission.status];
+          return (
+            <li key={submission.id} className="flex items-start justify-between gap-3 text-sm bg-charcoal/40 rounded-md px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-cream truncate">
+                  <span className="font-semibold">{t(entry.addOrUse === 'Use' ? 'entry.use' : 'entry.add')} {entry.number}</span> &times; {entry.equipment} {entry.model}
+                </p>
+                <p className="text-xs text-cream/60">{entry.date} &middot; {statusLabel(entry.status)} &middot; {entry.recordBy}</p>
+                {submission.status === 'pending' && !canSendAs(submission, username) && (
+                  <p className="text-xs text-pale-yellow mt-1">{t('queue.heldFor', { user: submission.recordedBy ?? entry.recordBy })}</p>
+                )}
+                {submission.status !== 'synced' && submission.lastError && (
+                  <p className="text-xs text-red-300 mt-1 break-words">{submission.lastError}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-full border ${badge.className}`}>{t(badge.label)}</span>
+                {submission.status !== 'synced' && (
+                  <button onClick={() => submissionQueue.retry(submission.id)} className="text-xs text-pale-yellow hover:underline">{t('viewer.retry')}</button>
+                )}
+                {submission.status !== 'pending' && (
+                  <button onClick={() => submissionQueue.dismiss(submission.id)} className="text-xs text-cream/60 hover:underline">{t('queue.dismiss')}</button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SubmissionQueuePanel;
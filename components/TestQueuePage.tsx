@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Area } from '../types';
+import { StockTest } from '../services/api';
+import { hasSeveralVendors } from '../services/areaRegistry';
+import { balanceKey, TEST_PENDING_STATUS } from '../services/ledger';
+import { PendingTest, pendingTestQuantity, TEST_RESULT_LABELS } from '../services/stockTests';
+import { can } from '../services/auth';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { usePendingTests } from '../hooks/usePendingTests';
+import { useTestResults } from '../hooks/useTestResults';
+import TestResultForm from './TestResultForm';
+import { ErrorIcon, LoadingSpinner, SuccessIcon } from './icons';
+
+interface TestQueuePageProps {
+  area: Area;
+}
+
+/** Results listed below the queue; older ones stay in the backend's log. */
+const RECENT_RESULTS_LIMIT = 20;
+
+const pendingKey = ({ vendor, balance }: PendingTest) => `${vendor.id}\u0000${balanceKey(balance.equipment, balance.model, balance.status)}`;
+
+const TestQueuePage: React.FC<TestQueuePageProps> = ({ area }) => {
+  const user = useSession()?.user ?? null;
+  const { t, statusLabel, formatDateTime } = useI18n();
+  const pending = usePendingTests(area);
+  const history = useTestResults(area);
+  const [testing, setTesting] = useState<PendingTest | null>(null);
+  const [notice, setNotice] = useState('');
+
+  const canRecord = can(user, area, 'record');
+  const showVendor = hasSeveralVendors(area);
+  const recent = history.results.slice(0, RECENT_RESULTS_LIMIT);
+
+  const recorded = (result: StockTest) => {
+    setTesting(null);
+    setNotice(t('tests.recorded', {
+      id: result.id,
+      quantity: result.quantity,
+      model: result.model,
+      status: statusLabel(result.resultStatus),
+    }));
+    pending.reload();
+    history.reload();
+  };
+
+  const thClasses = "py-1 pr-3";
+
+  const renderQueue = () => {
+    if (pending.loading && pending.tests.length === 0) {
+      return <div className="flex justify-center py-10"><LoadingSpinner /></div>;
+    }
+    if (pending.error) {
+      return (
+        <div className="flex flex-col items-center py-10 text-red-300">
+          <ErrorIcon />
+          <p className="mt-2">{t('tests.loadFailed', { error: pending.error })}</p>
+          <button onClick={pending.reload} className="mt-3 text-pale-yellow hover:underline">{t('common.tryAgain')}</button>
+        </div>
+      );
+    }
+    if (pending.tests.length === 0) {
+      return <p className="text-cream/70 text-sm">{t('tests.noneWaiting')}</p>;
+    }
+    return (
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm text-left">
+          <thead>
+            <tr className="text-xs uppercase tracking-wider text-cream/70">
+              {showVendor && <th className={thClasses}>{t('tests.stock')}</th>}
+              <th className={thClasses}>{t('entry.equipment')}</th>
+              <th className={thClasses}>{t('entry.model')}</th>
+              <th className={`${thClasses} text-right`}>{t('tests.waitingQuantity')}</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-charcoal/50">
+            {pending.tests.map(test => (
+              <tr key={pendingKey(test)} className="align-top">
+                {showVendor && <td className="py-2 pr-3">{test.vendor.name}</td>}
+                <td className="py-2 pr-3">{test.balance.equipment}</td>
+                <td className="py-2 pr-3">{test.balance.model}</td>
+                <td className="py-2 pr-3 text-right font-semibold">{test.balance.quantity}</td>
+                <td className="py-2 text-right">
+                  {canRecord && (
+                    <button onClick={() => { setNotice(''); setTesting(test); }} className="py-1 px-3 rounded-md text-xs font-semibold text-charcoal bg-pale-yellow hover:opacity-90">
+                      {t('tests.record')}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const renderResults = () => {
+    if (history.error) {
+      return (
+        <p className="text-sm text-red-300">
+          {t('tests.resultsFailed', { error: history.error })}{' '}
+          <button onClick={history.reload} className="text-pale-yellow hover:underline">{t('common.tryAgain')}</button>
+        </p>
+      );
+    }
+    if (recent.length === 0) {
+      return <p className="text-cream/70 text-sm">{history.loading ? t('tests.loadingResults') : t('tests.noResults')}</p>;
+    }
+    return (
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm text-left">
+          <thead>
+            <tr className="text-xs uppercase tracking-wider text-cream/70">
+              <th className={thClasses}>{t('tests.id')}</th>
+              <th className={thClasses}>{t('entry.equipment')}</th>
+              <th className={`${thClasses} text-right`}>{t('transfers.quantity')}</th>
+              <th className={thClasses}>{t('testForm.result')}</th>
+              <th className="py-1">{t('viewer.history')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-charcoal/50">
+            {recent.map(result => (
+              <tr key={result.id} className="align-top">
+                <td className="py-2 pr-3 font-mono text-xs whitespace-nowrap">{result.id}</td>
+                <td className="py-2 pr-3">
+                  <p>{result.equipment} · {result.model}</p>
+                  {result.notes && <p className="text-xs text-cream/60">{result.notes}</p>}
+                </td>
+                <td className="py-2 pr-3 text-right font-semibold">{result.quantity}</td>
+                <td className="py-2 pr-3">
+                  <span className={result.result === 'pass' ? 'text-pale-yellow' : 'text-red-300'}>{t(TEST_RESULT_LABELS[result.result])}</span>
+                  <span className="text-cream/70"> → {statusLabel(result.resultStatus)}</span>
+                </td>
+                <td className="py-2 text-xs text-cream/70">
+                  <p>{t('tests.testedOn', { name: result.testedBy, date: result.date })}</p>
+                  <p>{t('tests.recordedAt', { time: formatDateTime(result.recordedAt) })}</p>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-teal p-4 sm:p-6 rounded-lg shadow-xl">
+      <div className="mb-6">
+        <h3 className="text-2xl font-semibold">{t('area.tests')}</h3>
+        <p className="text-xs text-cream/60 mt-1">{t('tests.help', { status: statusLabel(TEST_PENDING_STATUS) })}</p>
+      </div>
+
+      {notice && (
+        <div className="flex items-center p-3 mb-6 bg-pale-yellow/10 border border-pale-yellow/80 text-pale-yellow rounded-lg text-sm">
+          <SuccessIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+          <p>{notice}</p>
+        </div>
+      )}
+
+      <div className="space-y-8">
+        <section>
+          <h4 className="text-lg font-semibold text-pale-yellow mb-2">{t('tests.waiting', { count: pendingTestQuantity(pending.tests) })}</h4>
+          {renderQueue()}
+        </section>
+        <section>
+          <h4 className="text-lg font-semibold text-pale-yellow mb-2">{t('tests.recentResults')}</h4>
+          {renderResults()}
+        </section>
+      </div>
+
+      {testing && (
+        <TestResultForm area={area} test={testing} onClose={() => setTesting(null)} onRecorded={recorded} />
+      )}
+    </div>
+  );
+};
+
+export default TestQueuePage;
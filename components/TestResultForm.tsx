@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { Area } from '../types';
+import { DropdownOptions, inventoryApi, StockTest, TestResult } from '../services/api';
+import { areaConfig, withVendor } from '../services/areaRegistry';
+import { entryStatuses, entryTargetFor, formatSheetDate, loadEntryOptions } from '../services/entryTargets';
+import { READY_STATUS } from '../services/ledger';
+import { failStatuses, PendingTest, TEST_RESULT_LABELS } from '../services/stockTests';
+import { requirePermission } from '../services/auth';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import Modal from './Modal';
+import { LoadingSpinner } from './icons';
+
+interface TestResultFormProps {
+  area: Area;
+  /** The item being tested and how many of it are waiting. */
+  test: PendingTest;
+  onClose: () => void;
+  onRecorded: (result: StockTest) => void;
+}
+
+const RESULTS: TestResult[] = ['pass', 'fail'];
+
+const TestResultForm: React.FC<TestResultFormProps> = ({ area, test, onClose, onRecorded }) => {
+  const user = useSession()?.user ?? null;
+  const { t, statusLabel } = useI18n();
+  const { vendor, balance } = test;
+  const getTodayDate = () => new Date().toISOString().split('T')[0];
+
+  const [result, setResult] = useState<TestResult>('pass');
+  const [quantity, setQuantity] = useState(String(balance.quantity));
+  const [failStatus, setFailStatus] = useState('');
+  const [testedBy, setTestedBy] = useState(user?.displayName ?? '');
+  const [notes, setNotes] = useState('');
+  const [date, setDate] = useState(getTodayDate);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const [options, setOptions] = useState<DropdownOptions>({ equipment: [], status: [] });
+  const [isLoadingOptions, setIsLoadingOptions] = useState(true);
+  const [optionsError, setOptionsError] = useState<string | null>(null);
+
+  // Failed items move to whichever other statuses the backend offers for this vendor.
+  useEffect(() => {
+    let isMounted = true;
+    setIsLoadingOptions(true);
+    setOptionsError(null);
+
+    loadEntryOptions(area, vendor)
+      .then(loaded => {
+        if (!isMounted) return;
+        setOptions(loaded);
+        setFailStatus(prev => prev || (failStatuses(entryStatuses(loaded))[0] ?? ''));
+      })
+      .catch(err => {
+        if (!isMounted) return;
+        console.error("Failed to fetch dropdown options:", err);
+        setOptionsError(err.message);
+      })
+      .finally(() => {
+        if (isMounted) setIsLoadingOptions(false);
+      });
+
+    return () => { isMounted = false; };
+  }, [area, vendor]);
+
+  const failOptions = failStatuses(entryStatuses(options));
+  const resultStatus = result === 'pass' ? READY_STATUS : failStatus;
+  const exceedsWaiting = Number(quantity) > balance.quantity;
+  const canSubmit = !isSaving && !exceedsWaiting && resultStatus !== '' && testedBy.trim() !== '';
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSaving(true);
+    setErrorMessage('');
+    try {
+      requirePermission(user, area, 'record');
+      const recorded = await inventoryApi.recordTestResult({
+        area,
+        dataType: vendor.stockDataType,
+        sheetName: entryTargetFor(vendor).sheetName,
+        date: formatSheetDate(date),
+        equipment: balance.equipment,
+        model: balance.model,
+        quantity: Number(quantity),
+        result,
+        resultStatus,
+        testedBy: testedBy.trim(),
+        notes: notes.trim() || undefined,
+      });
+      onRecorded(recorded);
+    } catch (err: any) {
+      console.error('Failed to record test result:', err);
+      setErrorMessage(err.message || t('testForm.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClasses = "w-full px-3 py-2 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream placeholder-cream/50 disabled:cursor-not-allowed";
+  const labelClasses = "block text-sm font-medium text-cream/90 mb-1";
+
+  const renderFailStatusInput = () => {
+    if (isLoadingOptions) {
+      return <div className={`${inputClasses} flex items-center`}><LoadingSpinner size="h-5 w-5" /><span className="ml-2 text-cream/50">{t('testForm.loadingStatuses')}</span></div>;
+    }
+    if (failOptions.length === 0) {
+      return <p className="text-sm text-red-300">{optionsError ? t('testForm.statusesFailed', { error: optionsError }) : t('testForm.noFailStatus')}</p>;
+    }
+    return (
+      <select id="test-fail-status" value={failStatus} onChange={e => setFailStatus(e.target.value)} required className={inputClasses}>
+        {failOptions.map(status => <option key={status} value={status}>{statusLabel(status)}</option>)}
+      </select>
+    );
+  };
+
+  return (
+    <Modal title={t('tests.record')} onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <p className="font-semibold">{balance.equipment} · {balance.model}</p>
+          <p className="text-sm text-cream/70">
+            {t('testForm.waiting', { quantity: balance.quantity, stock: withVendor(areaConfig(area).name, area, vendor) })}
+          </p>
+        </div>
+
+        <fieldset>
+          <legend className={labelClasses}>{t('testForm.result')} *</legend>
+          <div className="flex gap-2">
+            {RESULTS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setResult(option)}
+                aria-pressed={result === option}
+                className={`flex-1 py-2 px-3 rounded-md text-sm font-semibold border ${result === option
+                  ? (option === 'pass' ? 'bg-pale-yellow text-charcoal border-pale-yellow' : 'bg-red-400 text-charcoal border-red-400')
+                  : 'border-charcoal bg-charcoal/50 text-cream hover:bg-charcoal/70'}`}
+              >
+                {t(TEST_RESULT_LABELS[option])}
+              </button>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-cream/70">
+            {result === 'pass' ? t('testForm.passHelp', { status: statusLabel(READY_STATUS) }) : t('testForm.failHelp')}
+          </p>
+        </fieldset>
+
+        {result === 'fail' && (
+          <div>
+            <label htmlFor="test-fail-status" className={labelClasses}>{t('testForm.moveTo')} *</label>
+            {renderFailStatusInput()}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="test-quantity" className={labelClasses}>{t('transferForm.quantity')} *</label>
+            <input id="test-quantity" type="number" min="1" step="1" value={quantity} onChange={e => setQuantity(e.target.value)} required className={inputClasses} />
+            {exceedsWaiting && <p className="mt-1 text-xs text-red-300">{t('testForm.exceedsWaiting', { quantity: balance.quantity })}</p>}
+          </div>
+          <div>
+            <label htmlFor="test-date" className={labelClasses}>{t('testForm.date')} *</label>
+            <input id="test-date" type="date" value={date} onChange={e => setDate(e.target.value)} required className={inputClasses} />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="test-tester" className={labelClasses}>{t('testForm.testedBy')} *</label>
+          <input id="test-tester" value={testedBy} onChange={e => setTestedBy(e.target.value)} required className={inputClasses} />
+        </div>
+
+        <div>
+          <label htmlFor="test-notes" className={labelClasses}>{t('testForm.notes')}</label>
+          <textarea id="test-notes" value={notes} onChange={e => setNotes(e.target.value)} rows={3} className={inputClasses} placeholder={t('testForm.notesPlaceholder')} />
+        </div>
+
+        {errorMessage && <p className="text-sm text-red-300 break-words">{errorMessage}</p>}
+
+        <div className="flex justify-end pt-2">
+          <button type="submit" disabled={!canSubmit} className="flex items-center py-2 px-4 rounded-md text-sm font-medium text-charcoal bg-pale-yellow hover:opacity-90 disabled:bg-pale-yellow/50 disabled:cursor-not-allowed">
+            {isSaving ? <LoadingSpinner size="h-5 w-5" /> : t('testForm.save')}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default TestResultForm;
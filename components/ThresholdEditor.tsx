@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Area } from '../types';
+import { inventoryApi, StockThreshold, StockThresholdInput } from '../services/api';
+import { stockViewsForArea } from '../services/routing';
+import { stockLabel } from '../services/areaRegistry';
+import { requirePermission } from '../services/auth';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { LoadingSpinner } from './icons';
+
+interface ThresholdEditorProps {
+  area: Area;
+  thresholds: StockThreshold[];
+  onChanged: () => void;
+}
+
+const ThresholdEditor: React.FC<ThresholdEditorProps> = ({ area, thresholds, onChanged }) => {
+  const user = useSession()?.user ?? null;
+  const { t } = useI18n();
+  const dataTypes = stockViewsForArea(area);
+  const emptyDraft = (): StockThresholdInput => ({ area, dataType: dataTypes[0], equipment: '', model: '', minQuantity: 1 });
+
+  const [draft, setDraft] = useState<StockThresholdInput>(emptyDraft);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setDraft(prev => ({ ...prev, [name]: name === 'minQuantity' ? Number(value) : value }));
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setErrorMessage('');
+    try {
+      requirePermission(user, area, 'manage');
+      await action();
+      onChanged();
+    } catch (err: any) {
+      console.error('Failed to update thresholds:', err);
+      setErrorMessage(err.message || t('thresholds.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (isSaving) return;
+    void run(async () => {
+      await inventoryApi.saveThreshold({ ...draft, equipment: draft.equipment.trim(), model: draft.model.trim() });
+      setDraft(emptyDraft());
+    });
+  };
+
+  const handleDelete = (threshold: StockThreshold) => {
+    if (!window.confirm(t('thresholds.confirmRemove', { item: `${threshold.equipment} ${threshold.model}`.trim() }))) return;
+    void run(() => inventoryApi.deleteThreshold(area, threshold.id));
+  };
+
+  const inputClasses = "w-full px-3 py-1.5 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream text-sm placeholder-cream/50";
+
+  return (
+    <div className="mt-4 space-y-4">
+      {thresholds.length > 0 && (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wider text-cream/70">
+              {dataTypes.length > 1 && <th className="py-1 pr-2">{t('stock.stock')}</th>}
+              <th className="py-1 pr-2">{t('entry.equipment')}</th>
+              <th className="py-1 pr-2">{t('entry.model')}</th>
+              <th className="py-1 pr-2 text-right">{t('thresholds.minimum')}</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-charcoal/50">
+            {thresholds.map(threshold => (
+              <tr key={threshold.id}>
+                {dataTypes.length > 1 && <td className="py-1.5 pr-2">{stockLabel(area, threshold.dataType)}</td>}
+                <td className="py-1.5 pr-2">{threshold.equipment}</td>
+                <td className="py-1.5 pr-2">{threshold.model || <span className="text-cream/50">{t('thresholds.allModels')}</span>}</td>
+                <td className="py-1.5 pr-2 text-right">{threshold.minQuantity}</td>
+                <td className="py-1.5 text-right whitespace-nowrap">
+                  <button onClick={() => setDraft(threshold)} className="text-xs text-pale-yellow hover:underline mr-3">{t('viewer.edit')}</button>
+                  <button onClick={() => handleDelete(threshold)} className="text-xs text-red-300 hover:underline">{t('thresholds.remove')}</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+        {dataTypes.length > 1 && (
+          <select name="dataType" value={draft.dataType} onChange={handleChange} className={inputClasses} aria-label={t('stock.stock')}>
+            {dataTypes.map(dataType => <option key={dataType} value={dataType}>{stockLabel(area, dataType)}</option>)}
+          </select>
+        )}
+        <input name="equipment" value={draft.equipment} onChange={handleChange} required placeholder={t('entry.equipment')} className={inputClasses} />
+        <input name="model" value={draft.model} onChange={handleChange} placeholder={t('thresholds.modelPlaceholder')} className={inputClasses} />
+        <input name="minQuantity" type="number" min="0" value={draft.minQuantity} onChange={handleChange} required className={inputClasses} aria-label={t('thresholds.minimumQuantity')} />
+        <button type="submit" disabled={isSaving} className="flex justify-center items-center py-1.5 px-3 rounded-md text-sm font-medium text-charcoal bg-pale-yellow hover:opacity-90 disabled:bg-pale-yellow/50">
+          {isSaving ? <LoadingSpinner size="h-4 w-4" /> : draft.id ? t('thresholds.update') : t('thresholds.add')}
+        </button>
+      </form>
+      {errorMessage && <p className="text-xs text-red-300">{errorMessage}</p>}
+    </div>
+  );
+};
+
+export default ThresholdEditor;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Area } from '../types';
+import { inventoryApi, StockTransfer } from '../services/api';
+import { areaConfig, hasSeveralVendors } from '../services/areaRegistry';
+import { entryTargetFor, formatSheetDate } from '../services/entryTargets';
+import { balanceKey, sortedBalances } from '../services/ledger';
+import { endpointKey, endpointLabel, transferDestinations, transferEndpoint } from '../services/transfers';
+import { requirePermission } from '../services/auth';
+import { useAvailableBalances } from '../hooks/useAvailableBalances';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import Modal from './Modal';
+import { LoadingSpinner } from './icons';
+
+interface TransferFormProps {
+  /** The area the stock leaves from. */
+  area: Area;
+  onClose: () => void;
+  onCreated: (transfer: StockTransfer) => void;
+}
+
+const TransferForm: React.FC<TransferFormProps> = ({ area, onClose, onCreated }) => {
+  const user = useSession()?.user ?? null;
+  const { t, statusLabel } = useI18n();
+  const vendors = areaConfig(area).vendors;
+  const getTodayDate = () => new Date().toISOString().split('T')[0];
+
+  const [vendorId, setVendorId] = useState(vendors[0].id);
+  const [itemKey, setItemKey] = useState('');
+  const [destinationKey, setDestinationKey] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [date, setDate] = useState(getTodayDate);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const vendor = vendors.find(candidate => candidate.id === vendorId) ?? vendors[0];
+  const from = transferEndpoint(area, vendor);
+  const destinations = transferDestinations(from);
+  const destination = destinations.find(endpoint => endpointKey(endpoint) === destinationKey) ?? null;
+
+  // Only what is on the shelf can be sent, queued entries included.
+  const { balances, loading, error: balanceError } = useAvailableBalances(area, entryTargetFor(vendor));
+  const items = balances ? sortedBalances(balances).filter(balance => balance.quantity > 0) : [];
+  const item = items.find(balance => balanceKey(balance.equipment, balance.model, balance.status) === itemKey) ?? null;
+  const exceedsBalance = item !== null && Number(quantity) > item.quantity;
+
+  const handleVendorChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setVendorId(e.target.value);
+    setItemKey('');
+    setDestinationKey('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (isSaving || !item || !destination || exceedsBalance) return;
+
+    setIsSaving(true);
+    setErrorMessage('');
+    try {
+      requirePermission(user, area, 'record');
+      const transfer = await inventoryApi.createTransfer({
+        from,
+        to: destination,
+        date: formatSheetDate(date),
+        equipment: item.equipment,
+        model: item.model,
+        quantity: Number(quantity),
+        status: item.status,
+        sentBy: user!.displayName,
+        note: note.trim() || undefined,
+      });
+      onCreated(transfer);
+    } catch (err: any) {
+      console.error('Failed to create transfer:', err);
+      setErrorMessage(err.message || t('transferForm.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClasses = "w-full px-3 py-2 bg-charcoal/50 border border-charcoal rounded-md focus:outline-none focus:ring-2 focus:ring-pale-yellow text-cream placeholder-cream/50 disabled:cursor-not-allowed";
+  const labelClasses = "block text-sm font-medium text-cream/90 mb-1";
+
+  const renderItemInput = () => {
+    if (loading) {
+      return <div className={`${inputClasses} flex items-center`}><LoadingSpinner size="h-5 w-5" /><span className="ml-2 text-cream/50">{t('transferForm.loadingStock')}</span></div>;
+    }
+    return (
+      <select id="transfer-item" value={itemKey} onChange={e => setItemKey(e.target.value)} required className={inputClasses}>
+        <option value="" disabled>{items.length === 0 ? t('transferForm.nothingOnHand') : t('entry.selectEquipment')}</option>
+        {items.map(balance => (
+          <option key={balanceKey(balance.equipment, balance.model, balance.status)} value={balanceKey(balance.equipment, balance.model, balance.status)}>
+            {balance.equipment} · {balance.model} · {statusLabel(balance.status)} ({t('transferForm.onHand', { quantity: balance.quantity })})
+          </option>
+        ))}
+      </select>
+    );
+  };
+
+  return (
+    <Modal title={t('transfers.new')} onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-cream/70">
+          {t('transferForm.help', { from: endpointLabel(from) })}
+        </p>
+
+        {hasSeveralVendors(area) && (
+          <div>
+            <label htmlFor="transfer-vendor" className={labelClasses}>{t('transferForm.fromStock')} *</label>
+            <select id="transfer-vendor" value={vendor.id} onChange={handleVendorChange} className={inputClasses}>
+              {vendors.map(candidate => <option key={candidate.id} value={candidate.id}>{candidate.name}</option>)}
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="transfer-item" className={labelClasses}>{t('entry.equipment')} *</label>
+          {renderItemInput()}
+          {balanceError && <p className="mt-1 text-xs text-red-300">{t('transferForm.balanceFailed', { error: balanceError })}</p>}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="transfer-quantity" className={labelClasses}>{t('transferForm.quantity')} *</label>
+            <input id="transfer-quantity" type="number" min="1" step="1" value={quantity} onChange={e => setQuantity(e.target.value)} required className={inputClasses} />
+            {exceedsBalance && <p className="mt-1 text-xs text-red-300">{t('transferForm.exceedsBalance', { quantity: item!.quantity })}</p>}
+          </div>
+          <div>
+            <label htmlFor="transfer-date" className={labelClasses}>{t('entry.date')} *</label>
+            <input id="transfer-date" type="date" value={date} onChange={e => setDate(e.target.value)} required className={inputClasses} />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="transfer-destination" className={labelClasses}>{t('transferForm.to')} *</label>
+          <select id="transfer-destination" value={destinationKey} onChange={e => setDestinationKey(e.target.value)} required className={inputClasses}>
+            <option value="" disabled>{t('transferForm.selectDestination')}</option>
+            {destinations.map(endpoint => <option key={endpointKey(endpoint)} value={endpointKey(endpoint)}>{endpointLabel(endpoint)}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="transfer-note" className={labelClasses}>{t('transferForm.note')}</label>
+          <input id="transfer-note" value={note} onChange={e => setNote(e.target.value)} className={inputClasses} placeholder={t('transferForm.notePlaceholder')} />
+        </div>
+
+        {errorMessage && <p className="text-sm text-red-300 break-words">{errorMessage}</p>}
+
+        <div className="flex justify-end pt-2">
+          <button type="submit" disabled={isSaving || !item || !destination || exceedsBalance} className="flex items-center py-2 px-4 rounded-md text-sm font-medium text-charcoal bg-pale-yellow hover:opacity-90 disabled:bg-pale-yellow/50 disabled:cursor-not-allowed">
+            {isSaving ? <LoadingSpinner size="h-5 w-5" /> : t('transferForm.send')}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default TransferForm;
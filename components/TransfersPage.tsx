@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { Area } from '../types';
+import { inventoryApi, StockTransfer } from '../services/api';
+import { formatSheetDate } from '../services/entryTargets';
+import { endpointLabel, isOpenTransfer, TRANSFER_STATE_LABELS } from '../services/transfers';
+import { can, requirePermission } from '../services/auth';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { useTransfers } from '../hooks/useTransfers';
+import TransferForm from './TransferForm';
+import { ErrorIcon, LoadingSpinner, SuccessIcon } from './icons';
+
+interface TransfersPageProps {
+  area: Area;
+}
+
+/** Closed transfers listed below the open ones; older ones stay in the backend's log. */
+const RECENT_CLOSED_LIMIT = 20;
+
+const TransfersPage: React.FC<TransfersPageProps> = ({ area }) => {
+  const user = useSession()?.user ?? null;
+  const { t, statusLabel, formatDateTime } = useI18n();
+  const { transfers, loading, error, reload } = useTransfers(area);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const open = transfers.filter(isOpenTransfer);
+  const closed = transfers.filter(transfer => !isOpenTransfer(transfer)).slice(0, RECENT_CLOSED_LIMIT);
+
+  const changed = (message: string) => {
+    setNotice(message);
+    reload();
+  };
+
+  const close = async (transfer: StockTransfer, receive: boolean) => {
+    const prompt = receive
+      ? t('transfers.confirmReceive', { quantity: transfer.quantity, model: transfer.model, to: endpointLabel(transfer.to) })
+      : t('transfers.confirmCancel', { id: transfer.id, quantity: transfer.quantity, model: transfer.model, from: endpointLabel(transfer.from) });
+    if (!window.confirm(prompt)) return;
+
+    setBusyId(transfer.id);
+    setNotice('');
+    setErrorMessage('');
+    try {
+      const date = formatSheetDate(new Date().toISOString().split('T')[0]);
+      if (receive) {
+        requirePermission(user, transfer.to.area, 'record');
+        await inventoryApi.receiveTransfer(transfer, date, user!.displayName);
+        changed(t('transfers.received', { id: transfer.id, to: endpointLabel(transfer.to) }));
+      } else {
+        requirePermission(user, transfer.from.area, 'record');
+        await inventoryApi.cancelTransfer(transfer, date, user!.displayName);
+        changed(t('transfers.cancelled', { id: transfer.id, from: endpointLabel(transfer.from) }));
+      }
+    } catch (err: any) {
+      console.error('Failed to close transfer:', err);
+      setErrorMessage(err.message || t('transfers.updateFailed'));
+      reload();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderActions = (transfer: StockTransfer) => {
+    if (busyId === transfer.id) return <LoadingSpinner size="h-5 w-5" />;
+    const canReceive = can(user, transfer.to.area, 'record');
+    const canCancel = can(user, transfer.from.area, 'record');
+    return (
+      <div className="flex justify-end gap-2">
+        {canReceive && (
+          <button onClick={() => void close(transfer, true)} disabled={busyId !== null} className="py-1 px-3 rounded-md text-xs font-semibold text-charcoal bg-pale-yellow hover:opacity-90 disabled:opacity-50">
+            {t('transfers.receive')}
+          </button>
+        )}
+        {canCancel && (
+          <button onClick={() => void close(transfer, false)} disabled={busyId !== null} className="py-1 px-3 rounded-md text-xs font-medium text-red-300 border border-red-400/60 hover:bg-red-500/10 disabled:opacity-50">
+            {t('common.cancel')}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderRow = (transfer: StockTransfer, actions: boolean) => (
+    <tr key={transfer.id} className="align-top">
+      <td className="py-2 pr-3 font-mono text-xs whitespace-nowrap">{transfer.id}</td>
+      <td className="py-2 pr-3">
+        <span className={transfer.from.area === area ? 'text-cream' : 'text-cream/70'}>{endpointLabel(transfer.from)}</span>
+        {' → '}
+        <span className={transfer.to.area === area ? 'text-cream' : 'text-cream/70'}>{endpointLabel(transfer.to)}</span>
+      </td>
+      <td className="py-2 pr-3">
+        <p>{transfer.equipment} · {transfer.model}</p>
+        <p className="text-xs text-cream/60">{statusLabel(transfer.status)}{transfer.note ? ` — ${transfer.note}` : ''}</p>
+      </td>
+      <td className="py-2 pr-3 text-right font-semibold">{transfer.quantity}</td>
+      <td className="py-2 pr-3 text-xs text-cream/70">
+        <p>{t('transfers.sentBy', { name: transfer.sentBy, time: formatDateTime(transfer.sentAt) })}</p>
+        {transfer.closedAt && <p>{t('transfers.closedBy', { state: t(TRANSFER_STATE_LABELS[transfer.state]), name: transfer.closedBy ?? '', time: formatDateTime(transfer.closedAt) })}</p>}
+      </td>
+      <td className="py-2 text-right">
+        {actions ? renderActions(transfer) : <span className="text-xs text-cream/70">{t(TRANSFER_STATE_LABELS[transfer.state])}</span>}
+      </td>
+    </tr>
+  );
+
+  const renderTable = (rows: StockTransfer[], actions: boolean) => (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm text-left">
+        <thead>
+          <tr className="text-xs uppercase tracking-wider text-cream/70">
+            <th className="py-1 pr-3">{t('transfers.id')}</th>
+            <th className="py-1 pr-3">{t('transfers.route')}</th>
+            <th className="py-1 pr-3">{t('entry.equipment')}</th>
+            <th className="py-1 pr-3 text-right">{t('transfers.quantity')}</th>
+            <th className="py-1 pr-3">{t('viewer.history')}</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-charcoal/50">
+          {rows.map(transfer => renderRow(transfer, actions))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (loading && transfers.length === 0) {
+      return <div className="flex justify-center py-10"><LoadingSpinner /></div>;
+    }
+    if (error) {
+      return (
+        <div className="flex flex-col items-center py-10 text-red-300">
+          <ErrorIcon />
+          <p className="mt-2">{t('transfers.loadFailed', { error })}</p>
+          <button onClick={reload} className="mt-3 text-pale-yellow hover:underline">{t('common.tryAgain')}</button>
+        </div>
+      );
+    }
+    return (
+      <div className="space-y-8">
+        <section>
+          <h4 className="text-lg font-semibold text-pale-yellow mb-2">{t('transfers.inTransit', { count: open.length })}</h4>
+          {open.length === 0
+            ? <p className="text-cream/70 text-sm">{t('transfers.noneOpen')}</p>
+            : renderTable(open, true)}
+        </section>
+        {closed.length > 0 && (
+          <section>
+            <h4 className="text-lg font-semibold text-pale-yellow mb-2">{t('transfers.recentlyClosed')}</h4>
+            {renderTable(closed, false)}
+          </section>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-teal p-4 sm:p-6 rounded-lg shadow-xl">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-semibold">{t('area.transfers')}</h3>
+        {can(user, area, 'record') && (
+          <button onClick={() => setIsFormOpen(true)} className="py-2 px-4 rounded-md text-sm font-medium text-charcoal bg-pale-yellow hover:opacity-90">
+            {t('transfers.new')}
+          </button>
+        )}
+      </div>
+
+      {notice && (
+        <div className="flex items-center p-3 mb-6 bg-pale-yellow/10 border border-pale-yellow/80 text-pale-yellow rounded-lg text-sm">
+          <SuccessIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+          <p>{notice}</p>
+        </div>
+      )}
+      {errorMessage && <p className="mb-6 text-sm text-red-300 break-words">{errorMessage}</p>}
+
+      {renderContent()}
+
+      {isFormOpen && (
+        <TransferForm
+          area={area}
+          onClose={() => setIsFormOpen(false)}
+          onCreated={transfer => {
+            setIsFormOpen(false);
+            changed(t('transfers.sent', { id: transfer.id, to: endpointLabel(transfer.to) }));
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TransfersPage;
@@ -0,0 +1,35 @@
+import { Area, SheetDataType } from '../types';
+import { inventoryApi } from '../services/api';
+import { areaConfig } from '../services/areaRegistry';
+import { BalanceSheet } from '../services/ledger';
+import { pendingTests } from '../services/stockTests';
+import { evaluateThresholds } from '../services/thresholds';
+import { fetchStockBalances } from './useStockBalances';
+import { useAsyncResource } from './useAsyncResource';
+
+/**
+ * Loads an area's minimum-stock thresholds and the balances of its stock sheets once, and derives
+ * both the low-stock alerts and the items waiting for test from them.
+ */
+export const useAreaStockStatus = (area: Area) => {
+  const { data, loading, error, reload } = useAsyncResource(async () => {
+    const vendors = areaConfig(area).vendors;
+    const [thresholds, balanceSheets] = await Promise.all([
+      inventoryApi.getThresholds(area),
+      Promise.all(vendors.map(vendor => fetchStockBalances(area, vendor.stockDataType))),
+    ]);
+    const balancesByDataType: Partial<Record<SheetDataType, BalanceSheet>> = {};
+    vendors.forEach((vendor, i) => { balancesByDataType[vendor.stockDataType] = balanceSheets[i]; });
+    return {
+      thresholds,
+      alerts: evaluateThresholds(thresholds, balancesByDataType),
+      pendingTests: vendors.flatMap((vendor, i) => pendingTests(vendor, balanceSheets[i])),
+    };
+  }, [area], 'stock status');
+
+  const thresholds = data?.thresholds ?? [];
+  const alerts = data?.alerts ?? [];
+  const alertCount = (dataType: SheetDataType) => alerts.filter(a => a.threshold.dataType === dataType).length;
+
+  return { thresholds, alerts, alertCount, pendingTests: data?.pendingTests ?? [], loading, error, reload };
+};
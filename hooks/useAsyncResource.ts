@@ -0,0 +1,39 @@
+import { DependencyList, useCallback, useEffect, useState } from 'react';
+
+/**
+ * Runs `load` when the page mounts, whenever `deps` change and on `reload`, and keeps its last result.
+ * A run that finishes after the page unmounted or a newer run started is ignored. A failed run keeps
+ * the previous data and reports the message in `error`; `description` names what failed in the log.
+ */
+export const useAsyncResource = <T>(load: () => Promise<T>, deps: DependencyList, description: string) => {
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+    setError(null);
+
+    load()
+      .then(result => {
+        if (isMounted) setData(result);
+      })
+      .catch(err => {
+        if (!isMounted) return;
+        console.error(`Failed to load ${description}:`, err);
+        setError(err.message);
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => { isMounted = false; };
+    // `load` is rebuilt on every render; `deps` lists what it reads.
+  }, [...deps, reloadCount]);
+
+  const reload = useCallback(() => setReloadCount(count => count + 1), []);
+
+  return { data, loading, error, reload };
+};
@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import { Area } from '../types';
+import { EntryTarget } from '../services/entryTargets';
+import { foldMovements } from '../services/ledger';
+import { useStockBalances } from './useStockBalances';
+import { useSubmissions } from './useSubmissions';
+
+/**
+ * On-hand balances of an entry target's sheet, including entries still waiting in the offline queue:
+ * they aren't in the sheet yet, but they already change what is on the shelf.
+ */
+export const useAvailableBalances = (area: Area, target: EntryTarget) => {
+  const { balances, loading, error, reload } = useStockBalances(area, target.dataType);
+  const submissions = useSubmissions(area);
+
+  const availableBalances = useMemo(() => {
+    if (!balances) return null;
+    const pending = submissions
+      .filter(s => s.status === 'pending' && s.entry.sheetName === target.sheetName)
+      .map(s => ({ ...s.entry, quantity: Number(s.entry.number) }));
+    return foldMovements(area, pending, balances);
+  }, [balances, submissions, area, target.sheetName]);
+
+  return { balances: availableBalances, loading, error, reload };
+};
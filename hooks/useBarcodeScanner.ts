@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+
+/** A keyboard-wedge scanner "types" much faster than a person; slower keystrokes start a new code. */
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+/**
+ * Picks up codes from a keyboard-wedge barcode/QR scanner while no text field has focus.
+ * The scanner sends the code as keystrokes followed by Enter; `onScan` receives the whole code.
+ */
+export const useBarcodeScanner = (onScan: (code: string) => void) => {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Codes scanned into a field are handled by that field.
+      if (e.target instanceof Element && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const now = performance.now();
+      if (now - lastKeyAt > MAX_KEY_INTERVAL_MS) buffer = '';
+      lastKeyAt = now;
+
+      if (e.key === 'Enter') {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (e.key.length === 1) {
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
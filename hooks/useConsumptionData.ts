@@ -0,0 +1,37 @@
+import { inventoryApi } from '../services/api';
+import { AreaConfig, withVendor } from '../services/areaRegistry';
+import { MovementPoint, movementPoints } from '../services/consumption';
+import { parseStockSheet } from '../services/sheetRecords';
+import { useAsyncResource } from './useAsyncResource';
+
+/**
+ * Loads the stock sheets of every vendor of the given areas and reduces them to countable movements.
+ * Sheets that fail to load or parse are named in `failed`; the rest still count.
+ */
+export const useConsumptionData = (areas: AreaConfig[]) => {
+  const areaIds = areas.map(area => area.id).join('\u0000');
+
+  // `areaIds` stands in for `areas`, which callers usually rebuild on every render.
+  const { data, loading, reload } = useAsyncResource(async () => {
+    const sheets = areas.flatMap(area => area.vendors.map(vendor => ({ area, vendor })));
+    const results = await Promise.allSettled(sheets.map(async ({ area, vendor }) => {
+      const sheet = await inventoryApi.getData(area.id, vendor.stockDataType);
+      return sheet.length > 0 ? movementPoints(area.id, vendor, parseStockSheet(sheet).records) : [];
+    }));
+
+    const points: MovementPoint[] = [];
+    const failed: string[] = [];
+    results.forEach((result, i) => {
+      const { area, vendor } = sheets[i];
+      if (result.status === 'fulfilled') {
+        points.push(...result.value);
+      } else {
+        console.error(`Failed to load ${area.name} ${vendor.name} stock for analytics:`, result.reason);
+        failed.push(withVendor(area.name, area.id, vendor));
+      }
+    });
+    return { points, failed };
+  }, [areaIds], 'consumption data');
+
+  return { points: data?.points ?? [], failed: data?.failed ?? [], loading, reload };
+};
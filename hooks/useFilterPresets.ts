@@ -0,0 +1,12 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Area, SheetDataType } from '../types';
+import { filterPresetStore } from '../services/filterPresets';
+
+/** Saved filter presets of one area and sheet; updates when presets are saved or removed. */
+export const useFilterPresets = (area: Area, dataType: SheetDataType) => {
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => filterPresetStore.subscribe(() => setVersion(v => v + 1)), []);
+
+  return useMemo(() => filterPresetStore.list(area, dataType), [area, dataType, version]);
+};
@@ -0,0 +1,89 @@
+import { useCallback, useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { inventoryApi, SheetData } from '../services/api';
+import { AREAS } from '../services/areaRegistry';
+import { can } from '../services/auth';
+import { MIN_SEARCH_LENGTH, SearchGroup, searchSheet, SearchSource, searchSources, sourceKey } from '../services/globalSearch';
+import { SheetSchemaError } from '../services/sheetRecords';
+import { useI18n } from './useI18n';
+import { useSession } from './useSession';
+
+/**
+ * Searches the stock and equipment sheets of every area the user can view.
+ * Sheets are downloaded once, when the first search is typed, and searched locally from then on;
+ * `reload` fetches them again. Sheets that fail to load or parse are listed in `failed`.
+ */
+export const useGlobalSearch = (term: string) => {
+  const user = useSession()?.user ?? null;
+  const { locale } = useI18n();
+  const sources = useMemo(() => searchSources(AREAS.filter(area => can(user, area.id, 'view'))), [user]);
+
+  const [sheets, setSheets] = useState<Map<string, SheetData>>(new Map());
+  const [loadErrors, setLoadErrors] = useState<SearchSource[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [requested, setRequested] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const deferredTerm = useDeferredValue(term);
+  const isActive = term.trim().length >= MIN_SEARCH_LENGTH;
+
+  useEffect(() => {
+    if (isActive) setRequested(true);
+  }, [isActive]);
+
+  useEffect(() => {
+    if (!requested) return;
+    let isMounted = true;
+    setLoading(true);
+
+    Promise.allSettled(sources.map(source => inventoryApi.getData(source.area, source.dataType)))
+      .then(results => {
+        if (!isMounted) return;
+        const loaded = new Map<string, SheetData>();
+        const failed: SearchSource[] = [];
+        results.forEach((result, i) => {
+          if (result.status === 'fulfilled') {
+            loaded.set(sourceKey(sources[i]), result.value);
+          } else {
+            console.error(`Failed to load ${sources[i].areaName} ${sources[i].dataType} for search:`, result.reason);
+            failed.push(sources[i]);
+          }
+        });
+        setSheets(loaded);
+        setLoadErrors(failed);
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => { isMounted = false; };
+  }, [requested, sources, reloadCount]);
+
+  const { groups, unreadable } = useMemo(() => {
+    const found: SearchGroup[] = [];
+    const schemaFailures: SearchSource[] = [];
+    sources.forEach(source => {
+      const data = sheets.get(sourceKey(source));
+      if (!data) return;
+      try {
+        const group = searchSheet(source, data, deferredTerm);
+        if (group) found.push(group);
+      } catch (err) {
+        if (!(err instanceof SheetSchemaError)) throw err;
+        schemaFailures.push(source);
+      }
+    });
+    return { groups: found, unreadable: schemaFailures };
+    // `locale` because equipment matches word their "+N more" in the interface language.
+  }, [sources, sheets, deferredTerm, locale]);
+
+  const reload = useCallback(() => setReloadCount(count => count + 1), []);
+
+  return {
+    groups,
+    failed: [...loadErrors, ...unreadable],
+    loading,
+    isActive,
+    isStale: deferredTerm !== term,
+    reload,
+  };
+};
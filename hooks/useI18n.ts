@@ -0,0 +1,15 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { formattersFor, localeStore, MessageKey, MessageParams, statusLabel, translate } from '../services/i18n';
+
+/** The interface language, its translations and formatters; re-renders when the language is switched. */
+export const useI18n = () => {
+  const [locale, setLocale] = useState(localeStore.current);
+
+  useEffect(() => localeStore.subscribe(setLocale), []);
+
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(locale, key, params), [locale]);
+  const status = useCallback((value: string) => statusLabel(locale, value), [locale]);
+  const formatters = useMemo(() => formattersFor(locale), [locale]);
+
+  return { locale, setLocale: localeStore.set, t, statusLabel: status, ...formatters };
+};
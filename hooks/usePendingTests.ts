@@ -0,0 +1,16 @@
+import { Area } from '../types';
+import { areaConfig } from '../services/areaRegistry';
+import { pendingTests } from '../services/stockTests';
+import { fetchStockBalances } from './useStockBalances';
+import { useAsyncResource } from './useAsyncResource';
+
+/** Loads the items waiting for test in every stock sheet of an area. */
+export const usePendingTests = (area: Area) => {
+  const { data, loading, error, reload } = useAsyncResource(async () => {
+    const vendors = areaConfig(area).vendors;
+    const balanceSheets = await Promise.all(vendors.map(vendor => fetchStockBalances(area, vendor.stockDataType)));
+    return vendors.flatMap((vendor, i) => pendingTests(vendor, balanceSheets[i]));
+  }, [area], 'items waiting for test');
+
+  return { tests: data ?? [], loading, error, reload };
+};
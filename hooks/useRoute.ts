@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { buildPath, parseLocation, Route } from '../services/routing';
+
+interface HistoryState {
+  /** Path of the entry this one was pushed from, so "Back" can pop instead of pushing. */
+  from?: string;
+}
+
+const currentPath = () => window.location.pathname + window.location.search;
+
+/**
+ * Keeps the app route in sync with the browser URL and history.
+ * `navigate` pushes a new entry (or replaces the current one); `goBack` returns to `parent`
+ * by popping history when we got here from there, and pushes `parent` otherwise (e.g. after a deep link).
+ */
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(() => parseLocation(window.location));
+
+  useEffect(() => {
+    // Normalize deep links (unknown views, trailing slashes, ...) to their canonical path.
+    const canonical = buildPath(parseLocation(window.location));
+    if (canonical !== currentPath()) {
+      window.history.replaceState(window.history.state, '', canonical);
+    }
+
+    const handlePopState = () => setRoute(parseLocation(window.location));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((next: Route, options: { replace?: boolean } = {}) => {
+    const path = buildPath(next);
+    const from = currentPath();
+    if (path === from) return;
+
+    if (options.replace) {
+      window.history.replaceState(window.history.state, '', path);
+    } else {
+      const state: HistoryState = { from };
+      window.history.pushState(state, '', path);
+    }
+    setRoute(parseLocation(window.location));
+  }, []);
+
+  const goBack = useCallback((parent: Route) => {
+    const state = window.history.state as HistoryState | null;
+    if (state?.from === buildPath(parent)) {
+      window.history.back();
+    } else {
+      navigate(parent);
+    }
+  }, [navigate]);
+
+  return { route, navigate, goBack };
+};
@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { AuthSession, session } from '../services/auth';
+
+/** The signed-in session of this browser, or null; updates on sign-in, sign-out and expiry. */
+export const useSession = (): AuthSession | null => {
+  const [current, setCurrent] = useState(() => session.current());
+
+  useEffect(() => session.subscribe(setCurrent), []);
+
+  return current;
+};
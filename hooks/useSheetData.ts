@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Area, SheetDataType } from '../types';
+import { inventoryApi, SheetData } from '../services/api';
+
+const REFRESH_INTERVAL_MS = 30_000;
+
+/**
+ * Loads a sheet and keeps it current while the page is in view.
+ * Checks run every 30 seconds and send the version already held, so an unchanged sheet costs a
+ * tiny response instead of a full download. Checks pause while the tab is hidden or the device is
+ * offline and catch up as soon as it's back. A failed background check keeps the last good data and
+ * is reported through `refreshError`; only a failed first load replaces the data with `error`.
+ */
+export const useSheetData = (area: Area, dataType: SheetDataType) => {
+  const [data, setData] = useState<SheetData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  /** When the backend last confirmed the data on screen is current. */
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const refreshRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    let isMounted = true;
+    let version: string | null = null;
+    let loaded = false;
+    let lastCheck = 0;
+    let inFlight = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const cancelTimer = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    };
+
+    const schedule = () => {
+      cancelTimer();
+      // A failed first load waits for an explicit retry; a hidden or offline page waits for its event.
+      if (!loaded || document.hidden || !navigator.onLine) return;
+      const delay = Math.max(lastCheck + REFRESH_INTERVAL_MS - Date.now(), 0);
+      timer = setTimeout(() => { void check(); }, delay);
+    };
+
+    const check = async () => {
+      if (inFlight) return;
+      inFlight = true;
+      cancelTimer();
+      const isInitialLoad = !loaded;
+      if (isInitialLoad) {
+        setLoading(true);
+        setError(null);
+      } else {
+        setRefreshing(true);
+      }
+
+      try {
+        const snapshot = await inventoryApi.getSheetSnapshot(area, dataType, version);
+        if (!isMounted) return;
+        version = snapshot.version;
+        if (snapshot.data) setData(snapshot.data);
+        loaded = true;
+        lastCheck = Date.now();
+        setLastUpdated(new Date(lastCheck));
+        setRefreshError(null);
+      } catch (err: any) {
+        if (!isMounted) return;
+        console.error("Failed to fetch sheet data:", err);
+        lastCheck = Date.now();
+        if (isInitialLoad) {
+          setError(err.message);
+        } else {
+          setRefreshError(err.message);
+        }
+      } finally {
+        inFlight = false;
+        if (isMounted) {
+          if (isInitialLoad) setLoading(false);
+          setRefreshing(false);
+          schedule();
+        }
+      }
+    };
+
+    setData(null);
+    setLastUpdated(null);
+    setRefreshError(null);
+    refreshRef.current = () => { void check(); };
+    void check();
+
+    const handleVisibility = () => {
+      // Returning to the tab refreshes straight away if a check fell due while it was hidden.
+      if (document.hidden) cancelTimer();
+      else schedule();
+    };
+    const handleOnline = () => {
+      setOnline(true);
+      if (loaded) void check();
+    };
+    const handleOffline = () => {
+      setOnline(false);
+      cancelTimer();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      isMounted = false;
+      cancelTimer();
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [area, dataType]);
+
+  /** Checks for changes now, e.g. right after this page wrote to the sheet. */
+  const refresh = useCallback(() => refreshRef.current(), []);
+
+  return { data, loading, error, lastUpdated, refreshError, refreshing, online, refresh };
+};
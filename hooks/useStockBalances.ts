@@ -0,0 +1,19 @@
+import { Area, SheetDataType } from '../types';
+import { inventoryApi } from '../services/api';
+import { parseStockSheet } from '../services/sheetRecords';
+import { BalanceSheet, foldMovements, recordToMovement } from '../services/ledger';
+import { useAsyncResource } from './useAsyncResource';
+
+/** Fetches a stock sheet's movement history and folds it into on-hand balances. */
+export const fetchStockBalances = async (area: Area, dataType: SheetDataType): Promise<BalanceSheet> => {
+  const data = await inventoryApi.getData(area, dataType);
+  const records = data.length > 0 ? parseStockSheet(data).records : [];
+  return foldMovements(area, records.map(recordToMovement));
+};
+
+/** Loads a stock sheet's movement history and folds it into on-hand balances. */
+export const useStockBalances = (area: Area, dataType: SheetDataType) => {
+  const { data, loading, error, reload } = useAsyncResource(() => fetchStockBalances(area, dataType), [area, dataType], 'stock balances');
+  // Checks against balances that failed to reload would pass or refuse entries on stale numbers.
+  return { balances: error ? null : data, loading, error, reload };
+};
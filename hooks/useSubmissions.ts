@@ -0,0 +1,12 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Area } from '../types';
+import { QueuedSubmission, submissionQueue, submissionsForArea } from '../services/submissionQueue';
+
+/** Live view of the offline submission queue, newest first, optionally limited to one area. */
+export const useSubmissions = (area?: Area): QueuedSubmission[] => {
+  const [submissions, setSubmissions] = useState<QueuedSubmission[]>([]);
+
+  useEffect(() => submissionQueue.subscribe(setSubmissions), []);
+
+  return useMemo(() => (area ? submissionsForArea(submissions, area) : submissions), [submissions, area]);
+};
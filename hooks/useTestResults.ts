@@ -0,0 +1,9 @@
+import { Area } from '../types';
+import { inventoryApi } from '../services/api';
+import { useAsyncResource } from './useAsyncResource';
+
+/** Loads the test results recorded in an area, newest first. */
+export const useTestResults = (area: Area) => {
+  const { data, loading, error, reload } = useAsyncResource(() => inventoryApi.getTestResults(area), [area], 'test results');
+  return { results: data ?? [], loading, error, reload };
+};
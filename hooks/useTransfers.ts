@@ -0,0 +1,9 @@
+import { Area } from '../types';
+import { inventoryApi } from '../services/api';
+import { useAsyncResource } from './useAsyncResource';
+
+/** Loads the transfers leaving from or arriving in an area, newest first. */
+export const useTransfers = (area: Area) => {
+  const { data, loading, error, reload } = useAsyncResource(() => inventoryApi.getTransfers(area), [area], 'transfers');
+  return { transfers: data ?? [], loading, error, reload };
+};
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface ScrollState {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+/** Tracks a scroll container's scroll position and size, at most once per animation frame. */
+const useScrollState = (container: HTMLElement | null, enabled: boolean): ScrollState => {
+  const [state, setState] = useState<ScrollState>({ top: 0, left: 0, width: 0, height: 0 });
+
+  useEffect(() => {
+    if (!enabled || !container) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      setState(prev => {
+        const next = { top: container.scrollTop, left: container.scrollLeft, width: container.clientWidth, height: container.clientHeight };
+        return prev.top === next.top && prev.left === next.left && prev.width === next.width && prev.height === next.height ? prev : next;
+      });
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    container.addEventListener('scroll', schedule, { passive: true });
+    const observer = new ResizeObserver(schedule);
+    observer.observe(container);
+    return () => {
+      container.removeEventListener('scroll', schedule);
+      observer.disconnect();
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [container, enabled]);
+
+  return state;
+};
+
+export interface VirtualRange {
+  /** First rendered index. */
+  start: number;
+  /** One past the last rendered index. */
+  end: number;
+  /** Space taken by the items before `start`, in pixels. */
+  before: number;
+  /** Space taken by the items from `end` on, in pixels. */
+  after: number;
+}
+
+/** Index of the item containing `position`, given the cumulative offsets (offsets[i] is where item i starts). */
+const findIndex = (offsets: Float64Array, count: number, position: number) => {
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(0, low);
+};
+
+interface VirtualRowsOptions {
+  count: number;
+  /** Changes whenever the rows themselves change (filter, sort, reload), invalidating measured heights. */
+  rowsKey: unknown;
+  /** Height assumed for rows that haven't been rendered yet. */
+  estimatedHeight: number;
+  /** Height of the sticky header above the first row. */
+  headerHeight: number;
+  overscan?: number;
+  enabled: boolean;
+}
+
+/**
+ * Row virtualization for a table inside a scroll container. Rows may differ in height:
+ * each rendered row is measured through `measureRow`, and unmeasured rows use the estimate.
+ */
+export const useVirtualRows = (
+  container: HTMLElement | null,
+  { count, rowsKey, estimatedHeight, headerHeight, overscan = 10, enabled }: VirtualRowsOptions,
+) => {
+  const scroll = useScrollState(container, enabled);
+  const heights = useRef(new Map<number, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+
+  // Measured heights belong to the rows that were on screen; a new row set starts over.
+  const measuredFor = useRef(rowsKey);
+  if (measuredFor.current !== rowsKey) {
+    measuredFor.current = rowsKey;
+    heights.current.clear();
+  }
+
+  const offsets = useMemo(() => {
+    const result = new Float64Array(count + 1);
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (heights.current.get(i) ?? estimatedHeight);
+    }
+    return result;
+  }, [count, rowsKey, estimatedHeight, measureVersion]);
+
+  const range: VirtualRange = useMemo(() => {
+    if (!enabled || count === 0) {
+      return { start: 0, end: count, before: 0, after: 0 };
+    }
+    const top = Math.max(0, scroll.top - headerHeight);
+    const bottom = top + (scroll.height || estimatedHeight * 20);
+    const start = Math.max(0, findIndex(offsets, count, top) - overscan);
+    const end = Math.min(count, findIndex(offsets, count, bottom) + 1 + overscan);
+    return { start, end, before: offsets[start], after: offsets[count] - offsets[end] };
+  }, [enabled, count, scroll.top, scroll.height, headerHeight, estimatedHeight, offsets, overscan]);
+
+  // Collect heights of rendered rows after layout, and re-render once if any estimate was off.
+  const pending = useRef(false);
+  const measureRow = useCallback((index: number) => (element: HTMLElement | null) => {
+    if (!element) return;
+    const height = element.getBoundingClientRect().height;
+    if (height > 0 && Math.abs((heights.current.get(index) ?? -1) - height) > 0.5) {
+      heights.current.set(index, height);
+      pending.current = true;
+    }
+  }, []);
+
+  useLayoutEffect(() => {
+    if (pending.current) {
+      pending.current = false;
+      setMeasureVersion(version => version + 1);
+    }
+  });
+
+  return { range, measureRow };
+};
+
+interface VirtualColumnsOptions {
+  count: number;
+  /** Every virtualized column has this width, in pixels. */
+  columnWidth: number;
+  /** Distance from the table's left edge to the first virtualized column. */
+  leadingWidth: number;
+  overscan?: number;
+  enabled: boolean;
+}
+
+/** Column virtualization for equal-width columns that follow a block of leading (e.g. sticky) columns. */
+export const useVirtualColumns = (
+  container: HTMLElement | null,
+  { count, columnWidth, leadingWidth, overscan = 3, enabled }: VirtualColumnsOptions,
+): VirtualRange => {
+  const scroll = useScrollState(container, enabled);
+
+  return useMemo(() => {
+    if (!enabled || count === 0) {
+      return { start: 0, end: count, before: 0, after: 0 };
+    }
+    // The sticky columns cover part of the viewport; counting it as visible only adds a little overscan.
+    const left = Math.max(0, scroll.left - leadingWidth);
+    const right = scroll.left + (scroll.width || columnWidth * 12) - leadingWidth;
+    const start = Math.max(0, Math.floor(left / columnWidth) - overscan);
+    const end = Math.min(count, Math.max(start, Math.ceil(right / columnWidth) + overscan));
+    return { start, end, before: start * columnWidth, after: (count - end) * columnWidth };
+  }, [enabled, count, scroll.left, scroll.width, leadingWidth, columnWidth, overscan]);
+};
@@ -0,0 +1,63 @@
+import { BackendError, DeploymentError, SessionExpiredError } from './errors';
+import { ActionParams, ApiResponse, BackendAdapter } from './types';
+
+const unwrap = <T>(action: string, result: ApiResponse<T>, fallbackError: string): T => {
+  if (!result.success) {
+    const message = result.error || fallbackError;
+    if (result.code === 'unauthorized') throw new SessionExpiredError(message, action);
+    if (result.code === 'deployment' || !result.error) throw new DeploymentError(message, action);
+    throw new BackendError(message, action);
+  }
+  return result.data as T;
+};
+
+/** The response body as JSON; anything else comes from Google rather than the script. */
+const readJson = async <T>(action: string, res: Response): Promise<ApiResponse<T>> => {
+  try {
+    return await res.json();
+  } catch (err: any) {
+    throw new DeploymentError(`The script's answer to ${action} could not be read (${err?.message || err}).`, action);
+  }
+};
+
+/**
+ * Talks to the Google Apps Script web app.
+ * Requests never send cookies: the deployment runs as "Execute as Me", and auth cookies
+ * from a signed-in browser would make Google treat it as "Execute as User".
+ */
+export const createAppsScriptAdapter = (scriptUrl: string): BackendAdapter => {
+  const post = async <T>(action: string, fields: ActionParams, fallbackError: string): Promise<T> => {
+    // Use FormData for robust POST requests to Google Apps Script.
+    // Do NOT set Content-Type manually; the browser adds it with the boundary.
+    const formBody = new FormData();
+    formBody.append('action', action);
+    Object.entries(fields).forEach(([key, value]) => formBody.append(key, value));
+
+    const res = await fetch(scriptUrl, {
+      method: 'POST',
+      credentials: 'omit',
+      body: formBody,
+    });
+    return unwrap<T>(action, await readJson<T>(action, res), fallbackError);
+  };
+
+  return {
+    name: 'appsScript',
+
+    async get<T>(action: string, params: ActionParams): Promise<T> {
+      // A token in the URL would end up in browser history, proxy logs and the script's execution log,
+      // so reads that carry one are sent as a POST instead.
+      if (params.sessionToken) return post<T>(action, params, 'Invalid data format received.');
+
+      const url = new URL(scriptUrl);
+      url.searchParams.append('action', action);
+      Object.entries(params).forEach(([key, value]) => url.searchParams.append(key, value));
+
+      const res = await fetch(url.toString(), { credentials: 'omit' });
+      if (!res.ok) throw new Error(`HTTP error! status: ${res.status}`);
+      return unwrap<T>(action, await readJson<T>(action, res), 'Invalid data format received.');
+    },
+
+    post: <T>(action: string, fields: ActionParams) => post<T>(action, fields, 'An unknown error occurred on submission.'),
+  };
+};
@@ -0,0 +1,198 @@
+import { Area, SheetDataType } from '../../types';
+import { ActionParams, AuditEntry, BackendAdapter, CreateEntryAction, CreateEntryResult, DropdownOptions, InventoryClient, SheetData, SheetSnapshot, StockDocumentInput, StockDocumentResult, StockEntryInput, StockEntryValues, StockRowRef, StockTest, StockTestInput, StockThreshold, StockTransfer, StockTransferInput, TransferEndpoint } from './types';
+
+const toEntryFields = (entry: StockEntryInput): ActionParams => {
+  const fields: ActionParams = { area: entry.area };
+  if (entry.sheetName) {
+    fields.sheetName = entry.sheetName;
+  }
+  fields.date = entry.date;
+  fields.equipment = entry.equipment;
+  fields.model = entry.model;
+  fields.number = entry.number;
+  fields.addOrUse = entry.addOrUse;
+  fields.status = entry.status;
+  // Note: The GAS backend is configured to map this 'recordBy' field to Column H (Index 7)
+  fields.recordBy = entry.recordBy;
+  if (entry.idempotencyKey) {
+    fields.idempotencyKey = entry.idempotencyKey;
+  }
+  return fields;
+};
+
+const toDocumentFields = (document: StockDocumentInput): ActionParams => {
+  const fields: ActionParams = {
+    area: document.area,
+    sheetName: document.sheetName,
+    date: document.date,
+    addOrUse: document.addOrUse,
+    recordBy: document.recordBy,
+    lines: JSON.stringify(document.lines),
+  };
+  if (document.reference) {
+    fields.reference = document.reference;
+  }
+  if (document.idempotencyKey) {
+    fields.idempotencyKey = document.idempotencyKey;
+  }
+  return fields;
+};
+
+const toThreshold = (raw: Record<string, unknown>): StockThreshold => ({
+  id: String(raw.id ?? ''),
+  area: raw.area as Area,
+  dataType: raw.dataType as SheetDataType,
+  equipment: String(raw.equipment ?? ''),
+  model: String(raw.model ?? ''),
+  minQuantity: Number(raw.minQuantity) || 0,
+});
+
+const toRowFields = (ref: StockRowRef, editedBy: string, reason: string, expected: StockEntryValues): ActionParams => ({
+  area: ref.area,
+  dataType: ref.dataType,
+  sheetRow: String(ref.sheetRow),
+  expected: JSON.stringify(expected),
+  editedBy,
+  reason,
+});
+
+const toEndpointFields = (prefix: 'from' | 'to', endpoint: TransferEndpoint): ActionParams => ({
+  [`${prefix}Area`]: endpoint.area,
+  [`${prefix}DataType`]: endpoint.dataType,
+  [`${prefix}Sheet`]: endpoint.sheetName,
+});
+
+const toTransferFields = (transfer: StockTransferInput): ActionParams => {
+  // `area` is the source: sending stock out is what the caller's role has to allow.
+  const fields: ActionParams = {
+    area: transfer.from.area,
+    ...toEndpointFields('from', transfer.from),
+    ...toEndpointFields('to', transfer.to),
+    date: transfer.date,
+    equipment: transfer.equipment,
+    model: transfer.model,
+    quantity: String(transfer.quantity),
+    status: transfer.status,
+    sentBy: transfer.sentBy,
+  };
+  if (transfer.note) {
+    fields.note = transfer.note;
+  }
+  return fields;
+};
+
+const toTestFields = (test: StockTestInput): ActionParams => {
+  const fields: ActionParams = {
+    area: test.area,
+    dataType: test.dataType,
+    sheetName: test.sheetName,
+    date: test.date,
+    equipment: test.equipment,
+    model: test.model,
+    quantity: String(test.quantity),
+    result: test.result,
+    resultStatus: test.resultStatus,
+    testedBy: test.testedBy,
+  };
+  if (test.notes) {
+    fields.notes = test.notes;
+  }
+  return fields;
+};
+
+/** What `getData` answers when called with a `version` parameter. */
+interface SheetVersionPayload {
+  version: string;
+  unchanged?: boolean;
+  data?: SheetData;
+}
+
+const normalizeOptions = (data: Partial<DropdownOptions> | undefined): DropdownOptions => ({
+  equipment: data?.equipment || [],
+  status: data?.status || [],
+});
+
+/**
+ * Builds the typed inventory client on top of a backend adapter.
+ * Every backend action is exposed as one method; callers never see form bodies. The only action names
+ * callers pass are the per-area entry actions declared in `areas.json`.
+ */
+export const createInventoryClient = (adapter: BackendAdapter): InventoryClient => {
+  return {
+    getData: async (area: Area, dataType: SheetDataType) => {
+      const data = await adapter.get<SheetData>('getData', { area, type: dataType });
+      if (!Array.isArray(data)) {
+        throw new Error('Invalid data format received.');
+      }
+      return data;
+    },
+    getSheetSnapshot: async (area, dataType, knownVersion) => {
+      // Sending `version` opts in to the envelope; older deployments ignore it and return the bare sheet.
+      const payload = await adapter.get<SheetData | SheetVersionPayload>('getData', { area, type: dataType, version: knownVersion ?? '' });
+      if (Array.isArray(payload)) {
+        return { version: null, data: payload };
+      }
+      if (!payload || typeof payload.version !== 'string') {
+        throw new Error('Invalid data format received.');
+      }
+      if (payload.unchanged) {
+        return { version: payload.version, data: null };
+      }
+      if (!Array.isArray(payload.data)) {
+        throw new Error('Invalid data format received.');
+      }
+      return { version: payload.version, data: payload.data };
+    },
+    getEntryOptions: async (action, area) =>
+      normalizeOptions(await adapter.get<Partial<DropdownOptions>>(action, { area })),
+    createEntry: (action, entry) => adapter.post<CreateEntryResult>(action, toEntryFields(entry)),
+    createStockDocument: async document => {
+      const result = await adapter.post<StockDocumentResult>('createStockDocument', toDocumentFields(document));
+      if (!result || !Array.isArray(result.lines)) {
+        throw new Error('Invalid data format received.');
+      }
+      return result;
+    },
+    getThresholds: async area => {
+      const data = await adapter.get<Record<string, unknown>[]>('getThresholds', { area });
+      return (data || []).map(toThreshold);
+    },
+    saveThreshold: async threshold => {
+      const fields: ActionParams = {
+        area: threshold.area,
+        dataType: threshold.dataType,
+        equipment: threshold.equipment,
+        model: threshold.model,
+        minQuantity: String(threshold.minQuantity),
+      };
+      if (threshold.id) {
+        fields.id = threshold.id;
+      }
+      return toThreshold(await adapter.post<Record<string, unknown>>('saveThreshold', fields));
+    },
+    deleteThreshold: async (area, id) => {
+      await adapter.post('deleteThreshold', { area, id });
+    },
+    updateStockEntry: edit => adapter.post<AuditEntry>('updateStockEntry', {
+      ...toRowFields(edit, edit.editedBy, edit.reason, edit.expected),
+      changes: JSON.stringify(edit.changes),
+    }),
+    voidStockEntry: edit => adapter.post<AuditEntry>('voidStockEntry', toRowFields(edit, edit.editedBy, edit.reason, edit.expected)),
+    getAuditLog: async (area, dataType, sheetRow) => {
+      const params: ActionParams = { area, type: dataType };
+      if (sheetRow !== undefined) {
+        params.sheetRow = String(sheetRow);
+      }
+      return (await adapter.get<AuditEntry[]>('getAuditLog', params)) || [];
+    },
+    getTransfers: async area => (await adapter.get<StockTransfer[]>('getTransfers', { area })) || [],
+    createTransfer: transfer => adapter.post<StockTransfer>('createTransfer', toTransferFields(transfer)),
+    // Receiving writes to the destination sheet, cancelling to the source; `area` is the one written to.
+    receiveTransfer: (transfer, date, receivedBy) =>
+      adapter.post<StockTransfer>('receiveTransfer', { area: transfer.to.area, id: transfer.id, date, closedBy: receivedBy }),
+    cancelTransfer: (transfer, date, cancelledBy) =>
+      adapter.post<StockTransfer>('cancelTransfer', { area: transfer.from.area, id: transfer.id, date, closedBy: cancelledBy }),
+    getTestResults: async area => (await adapter.get<StockTest[]>('getTestResults', { area })) || [],
+    recordTestResult: test => adapter.post<StockTest>('recordTestResult', toTestFields(test)),
+  };
+};
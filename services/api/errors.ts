@@ -0,0 +1,34 @@
+/**
+ * The backend answered but refused the request (`success: false`).
+ * Unlike a network failure, retrying the same request won't help until something changes on the sheet side.
+ */
+export class BackendError extends Error {
+  constructor(message: string, public readonly action: string) {
+    super(message);
+    this.name = 'BackendError';
+  }
+}
+
+/**
+ * The Apps Script deployment couldn't serve the call at all: it answered with something other than
+ * JSON (not shared with "Anyone", so Google sent a sign-in page), or it refused with `code: 'deployment'`
+ * or without any reason (an old version that lacks the action or its authorization).
+ * Not a `BackendError`: a one-off error page from Google is worth retrying.
+ */
+export class DeploymentError extends Error {
+  constructor(message: string, public readonly action: string) {
+    super(message);
+    this.name = 'DeploymentError';
+  }
+}
+
+/**
+ * The backend refused the call because its session token is missing or expired (`code: 'unauthorized'`).
+ * Unlike other refusals this goes away once the user signs in again.
+ */
+export class SessionExpiredError extends BackendError {
+  constructor(message: string, action: string) {
+    super(message, action);
+    this.name = 'SessionExpiredError';
+  }
+}
@@ -0,0 +1,22 @@
+import { createAppsScriptAdapter } from './appsScriptAdapter';
+import { createInventoryClient } from './client';
+import { createMockAdapter, MockSeed } from './mockAdapter';
+import mockData from './mockData.json';
+import { setSessionToken, withSessionToken } from './sessionToken';
+
+// IMPORTANT: This is your Google Apps Script Web App URL.
+export const GOOGLE_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbx03kVQ0fRNdbIeE0e9hfhiWAIj4F2iPT25B06WVoZwSZLl60-1ef8ypap3FST8L_F4/exec';
+
+// Set INVENGO_BACKEND=mock in .env.local to run against the bundled sample data instead of the live sheet.
+export const isMockBackend = process.env.INVENGO_BACKEND === 'mock';
+
+export const backendAdapter = withSessionToken(isMockBackend
+  ? createMockAdapter(mockData as MockSeed)
+  : createAppsScriptAdapter(GOOGLE_SCRIPT_URL));
+
+export const inventoryApi = createInventoryClient(backendAdapter);
+
+export { createInventoryClient, createAppsScriptAdapter, createMockAdapter, setSessionToken };
+export type { MockSeed };
+export * from './types';
+export * from './errors';
@@ -0,0 +1,379 @@
+import { BackendError, DeploymentError } from './errors';
+import { parseStockSheet, resolveColumns, STOCK_SCHEMA, StockColumn } from '../sheetRecords';
+import { foldMovements, getBalance, recordToMovement, TEST_PENDING_STATUS, VOIDED_MOVEMENT } from '../ledger';
+import {
+  ActionParams, AuditChange, AuditEntry, BackendAdapter, DropdownOptions, SheetData, StockDocumentLine, StockDocumentLineResult, StockEntryField, StockEntryValues, StockTest,
+  StockThreshold, StockTransfer, TransferEndpoint,
+} from './types';
+
+/** Shape of `mockData.json`, the seed for the offline backend. */
+export interface MockSeed {
+  /** Dropdown option payloads keyed by the action that returns them. */
+  options: Record<string, DropdownOptions>;
+  /** Sheet name served by `getData`, keyed by area then data type. */
+  dataSheets: Record<string, Record<string, string>>;
+  /** Default target sheet for each create action when no `sheetName` is posted, keyed by area. */
+  entrySheets: Record<string, Record<string, string>>;
+  sheets: Record<string, SheetData>;
+  thresholds: StockThreshold[];
+  auditLog: AuditEntry[];
+  transfers: StockTransfer[];
+  stockTests: StockTest[];
+}
+
+type MockHandler = (params: ActionParams, db: MockSeed) => unknown;
+
+const MOCK_LATENCY_MS = 150;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const requireSheet = (db: MockSeed, sheetName: string | undefined, action: string): SheetData => {
+  const sheet = sheetName ? db.sheets[sheetName] : undefined;
+  if (!sheet) {
+    throw new BackendError(`Sheet not found: ${sheetName || '(none)'}`, action);
+  }
+  return sheet;
+};
+
+/** FNV-1a hash of the sheet contents; stands in for the digest the Apps Script computes per sheet. */
+const sheetVersion = (sheet: SheetData) => {
+  const text = JSON.stringify(sheet);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${sheet.length}-${(hash >>> 0).toString(16)}`;
+};
+
+const getData: MockHandler = (params, db) => {
+  const sheet = requireSheet(db, db.dataSheets[params.area]?.[params.type], 'getData');
+  if (params.version === undefined) return sheet;
+  const version = sheetVersion(sheet);
+  return version === params.version ? { version, unchanged: true } : { version, data: sheet };
+};
+
+/** IDs that tie a movement to the transfer, test or document it belongs to. */
+interface MovementLinks {
+  transferId?: string;
+  testId?: string;
+  reference?: string;
+}
+
+/**
+ * Appends a movement in the `... Customerinfor` column order:
+ * Timestamp, Date, Type, Model, Number, Add/Use, Status, Record by, Transfer ID, Test ID, Reference.
+ */
+const appendMovement = (sheet: SheetData, movement: ActionParams, links: MovementLinks = {}) => {
+  sheet.push([
+    new Date().toISOString(),
+    movement.date,
+    movement.equipment,
+    movement.model,
+    movement.number,
+    movement.addOrUse,
+    movement.status,
+    movement.recordBy,
+    links.transferId ?? '',
+    links.testId ?? '',
+    links.reference ?? '',
+  ]);
+};
+
+const appendEntry = (action: string): MockHandler => (params, db) => {
+  const sheetName = params.sheetName || db.entrySheets[action]?.[params.area];
+  appendMovement(requireSheet(db, sheetName, action), params);
+  return { message: `Added to ${sheetName}` };
+};
+
+const toEndpoint = (params: ActionParams, prefix: 'from' | 'to'): TransferEndpoint => ({
+  area: params[`${prefix}Area`],
+  dataType: params[`${prefix}DataType`],
+  sheetName: params[`${prefix}Sheet`],
+});
+
+/** `<prefix>-<yyyymmdd>-<4 hex digits>`; short enough to write on a delivery note or a test tag. */
+const linkId = (prefix: 'TR' | 'TS') => {
+  const day = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return `${prefix}-${day}-${Math.floor(Math.random() * 0x10000).toString(16).toUpperCase().padStart(4, '0')}`;
+};
+
+/** Writes the source leg (a Use) and opens the transfer as in transit. */
+const createTransfer: MockHandler = (params, db) => {
+  const from = toEndpoint(params, 'from');
+  const to = toEndpoint(params, 'to');
+  const quantity = Number(params.quantity);
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new BackendError('Quantity must be a whole number above zero.', 'createTransfer');
+  }
+  if (from.sheetName === to.sheetName) {
+    throw new BackendError('A transfer must go to a different stock sheet.', 'createTransfer');
+  }
+  const source = requireSheet(db, from.sheetName, 'createTransfer');
+  requireSheet(db, to.sheetName, 'createTransfer');
+
+  const transfer: StockTransfer = {
+    id: linkId('TR'),
+    from,
+    to,
+    equipment: params.equipment,
+    model: params.model,
+    quantity,
+    status: params.status,
+    state: 'in_transit',
+    sentBy: params.sentBy,
+    sentAt: new Date().toISOString(),
+  };
+  if (params.note) {
+    transfer.note = params.note;
+  }
+  appendMovement(source, { ...params, number: String(quantity), addOrUse: 'Use', recordBy: params.sentBy }, { transferId: transfer.id });
+  db.transfers.push(transfer);
+  return transfer;
+};
+
+/** Closes an in-transit transfer by writing an Add to `destination`: the receiving sheet, or the source when cancelled. */
+const closeTransfer = (action: string, state: StockTransfer['state'], destination: 'from' | 'to'): MockHandler => (params, db) => {
+  const transfer = db.transfers.find(t => t.id === params.id);
+  if (!transfer) {
+    throw new BackendError(`Transfer not found: ${params.id}`, action);
+  }
+  if (transfer.state !== 'in_transit') {
+    throw new BackendError(`Transfer ${transfer.id} was already ${transfer.state === 'received' ? 'received' : 'cancelled'}.`, action);
+  }
+  const sheet = requireSheet(db, transfer[destination].sheetName, action);
+  appendMovement(sheet, {
+    date: params.date,
+    equipment: transfer.equipment,
+    model: transfer.model,
+    number: String(transfer.quantity),
+    addOrUse: 'Add',
+    status: transfer.status,
+    recordBy: params.closedBy,
+  }, { transferId: transfer.id });
+  Object.assign(transfer, { state, closedBy: params.closedBy, closedAt: new Date().toISOString() });
+  return transfer;
+};
+
+const sheetBalances = (area: string, sheet: SheetData) =>
+  foldMovements(area as StockTest['area'], parseStockSheet(sheet).records.map(recordToMovement));
+
+/**
+ * Writes every line of a stock document that passes the checks a single entry would, as its own row
+ * carrying the document's reference. Use lines are checked against what is on hand, including the
+ * lines of the same document written before them.
+ */
+const createStockDocument: MockHandler = (params, db) => {
+  const sheet = requireSheet(db, params.sheetName, 'createStockDocument');
+  const lines: StockDocumentLine[] = JSON.parse(params.lines || '[]');
+  if (lines.length === 0) {
+    throw new BackendError('The document has no lines.', 'createStockDocument');
+  }
+  const isUse = params.addOrUse === 'Use';
+  let balances = sheetBalances(params.area, sheet);
+
+  const results = lines.map((line, index): StockDocumentLineResult => {
+    const quantity = Number(line.number);
+    let error = '';
+    if (!line.equipment || !line.model) error = 'Equipment and model are required.';
+    else if (!Number.isFinite(quantity) || quantity <= 0) error = `Invalid quantity: ${line.number}`;
+    else if (!line.status) error = 'Status is required.';
+    else if (isUse && quantity > getBalance(balances, line.equipment, line.model, line.status)) {
+      error = `Only ${getBalance(balances, line.equipment, line.model, line.status)} ${line.model} on hand (${line.status}).`;
+    }
+    if (error) return { index, success: false, error };
+
+    const movement = { ...line, date: params.date, addOrUse: params.addOrUse, recordBy: params.recordBy };
+    appendMovement(sheet, movement, { reference: params.reference });
+    balances = foldMovements(params.area as StockTest['area'], [{ ...movement, quantity }], balances);
+    return { index, success: true };
+  });
+  return { lines: results };
+};
+
+/**
+ * Moves tested items out of "waiting for test": a Use of the pending status and an Add of the
+ * result status, both carrying the test ID. Refuses more than the sheet has waiting.
+ */
+const recordTestResult: MockHandler = (params, db) => {
+  const quantity = Number(params.quantity);
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new BackendError('Quantity must be a whole number above zero.', 'recordTestResult');
+  }
+  if (params.result !== 'pass' && params.result !== 'fail') {
+    throw new BackendError(`Unknown test result: ${params.result}`, 'recordTestResult');
+  }
+  if (!params.resultStatus || params.resultStatus === TEST_PENDING_STATUS) {
+    throw new BackendError('Choose the status the tested items move to.', 'recordTestResult');
+  }
+  const sheet = requireSheet(db, params.sheetName, 'recordTestResult');
+  const waiting = getBalance(sheetBalances(params.area, sheet), params.equipment, params.model, TEST_PENDING_STATUS);
+  if (quantity > waiting) {
+    throw new BackendError(`Only ${waiting} ${params.equipment} ${params.model} are waiting for test.`, 'recordTestResult');
+  }
+
+  const test: StockTest = {
+    id: linkId('TS'),
+    area: params.area as StockTest['area'],
+    dataType: params.dataType as StockTest['dataType'],
+    sheetName: params.sheetName,
+    date: params.date,
+    equipment: params.equipment,
+    model: params.model,
+    quantity,
+    result: params.result,
+    resultStatus: params.resultStatus,
+    testedBy: params.testedBy,
+    recordedAt: new Date().toISOString(),
+  };
+  if (params.notes) {
+    test.notes = params.notes;
+  }
+  const movement = { ...params, number: String(quantity), recordBy: params.testedBy };
+  appendMovement(sheet, { ...movement, addOrUse: 'Use', status: TEST_PENDING_STATUS }, { testId: test.id });
+  appendMovement(sheet, { ...movement, addOrUse: 'Add', status: params.resultStatus }, { testId: test.id });
+  db.stockTests.push(test);
+  return test;
+};
+
+const saveThreshold: MockHandler = (params, db) => {
+  const threshold = {
+    id: params.id || `thr-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    area: params.area,
+    dataType: params.dataType,
+    equipment: params.equipment,
+    model: params.model || '',
+    minQuantity: Number(params.minQuantity) || 0,
+  } as StockThreshold;
+  db.thresholds = [...db.thresholds.filter(t => t.id !== threshold.id), threshold];
+  return threshold;
+};
+
+const ENTRY_FIELD_COLUMNS: Record<StockEntryField, StockColumn> = {
+  date: 'date',
+  equipment: 'type',
+  model: 'model',
+  number: 'number',
+  addOrUse: 'addOrUse',
+  status: 'status',
+  recordBy: 'recordBy',
+};
+
+/**
+ * Applies a correction to one movement row and records it in the audit log.
+ * Refuses when the row no longer holds the values the editor started from, e.g. after a concurrent edit.
+ */
+const editStockRow = (action: AuditEntry['action'], params: ActionParams, db: MockSeed, changes: Partial<StockEntryValues>): AuditEntry => {
+  const sheet = requireSheet(db, db.dataSheets[params.area]?.[params.dataType], action);
+  const sheetRow = Number(params.sheetRow);
+  const row = sheet[sheetRow];
+  if (!row || sheetRow < STOCK_SCHEMA.headerRowCount) {
+    throw new BackendError(`Row ${params.sheetRow} does not exist.`, action);
+  }
+
+  const columns = resolveColumns(STOCK_SCHEMA, sheet[0]);
+  const expected: Partial<StockEntryValues> = JSON.parse(params.expected || '{}');
+  const fields = Object.keys(ENTRY_FIELD_COLUMNS) as StockEntryField[];
+  const current = (field: StockEntryField) => {
+    const index = columns[ENTRY_FIELD_COLUMNS[field]];
+    return index === -1 ? '' : String(row[index] ?? '');
+  };
+
+  const stale = fields.some(field => expected[field] !== undefined && expected[field] !== current(field));
+  if (stale) {
+    throw new BackendError('This row was changed by someone else. Reload the sheet and try again.', action);
+  }
+
+  const applied: AuditChange[] = [];
+  fields.forEach(field => {
+    const newValue = changes[field];
+    const index = columns[ENTRY_FIELD_COLUMNS[field]];
+    if (newValue === undefined || index === -1 || newValue === current(field)) return;
+    applied.push({ field, oldValue: current(field), newValue });
+    row[index] = newValue;
+  });
+
+  const entry: AuditEntry = {
+    id: `audit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    area: params.area as AuditEntry['area'],
+    dataType: params.dataType as AuditEntry['dataType'],
+    sheetRow,
+    action,
+    editedBy: params.editedBy,
+    editedAt: new Date().toISOString(),
+    reason: params.reason || '',
+    changes: applied,
+  };
+  db.auditLog.push(entry);
+  return entry;
+};
+
+const getHandlers: Record<string, MockHandler> = {
+  getData,
+  getThresholds: (params, db) => db.thresholds.filter(t => t.area === params.area),
+  getAuditLog: (params, db) => db.auditLog
+    .filter(e => e.area === params.area && e.dataType === params.type)
+    .filter(e => params.sheetRow === undefined || e.sheetRow === Number(params.sheetRow))
+    .sort((a, b) => b.editedAt.localeCompare(a.editedAt)),
+  getTransfers: (params, db) => db.transfers
+    .filter(t => t.from.area === params.area || t.to.area === params.area)
+    .sort((a, b) => b.sentAt.localeCompare(a.sentAt)),
+  getTestResults: (params, db) => db.stockTests
+    .filter(t => t.area === params.area)
+    .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt)),
+};
+
+const postHandlers: Record<string, MockHandler> = {
+  saveThreshold,
+  deleteThreshold: (params, db) => {
+    db.thresholds = db.thresholds.filter(t => t.id !== params.id);
+    return null;
+  },
+  updateStockEntry: (params, db) => editStockRow('update', params, db, JSON.parse(params.changes || '{}')),
+  voidStockEntry: (params, db) => editStockRow('void', params, db, { addOrUse: VOIDED_MOVEMENT }),
+  createTransfer,
+  receiveTransfer: closeTransfer('receiveTransfer', 'received', 'to'),
+  cancelTransfer: closeTransfer('cancelTransfer', 'cancelled', 'from'),
+  recordTestResult,
+  createStockDocument,
+};
+
+/**
+ * In-memory backend seeded from a JSON document, for offline development and demos.
+ * Writes only live for the lifetime of the page; the seed itself is never mutated.
+ */
+export const createMockAdapter = (seed: MockSeed): BackendAdapter => {
+  const db: MockSeed = structuredClone(seed);
+  // Results of writes already applied, keyed by idempotency key, so a retried POST is answered without writing twice.
+  const completedWrites = new Map<string, unknown>();
+
+  // Entry-form option and create actions are named per area in `areas.json`; the seed declares which exist.
+  const getHandler = (action: string): MockHandler | undefined =>
+    getHandlers[action] ?? (db.options[action] ? () => db.options[action] : undefined);
+  const postHandler = (action: string): MockHandler | undefined =>
+    postHandlers[action] ?? (db.entrySheets[action] ? appendEntry(action) : undefined);
+
+  const dispatch = async <T>(handlerFor: (action: string) => MockHandler | undefined, action: string, params: ActionParams): Promise<T> => {
+    await delay(MOCK_LATENCY_MS);
+    const handler = handlerFor(action);
+    if (!handler) {
+      throw new DeploymentError(`Unknown action: ${action}`, action);
+    }
+    const key = params.idempotencyKey;
+    if (key && completedWrites.has(key)) {
+      return structuredClone(completedWrites.get(key)) as T;
+    }
+    const result = handler(params, db);
+    if (key) {
+      completedWrites.set(key, result);
+    }
+    // Hand out copies so callers can't mutate the mock sheets behind the adapter's back.
+    return structuredClone(result) as T;
+  };
+
+  return {
+    name: 'mock',
+    get: (action, params) => dispatch(getHandler, action, params),
+    post: (action, fields) => dispatch(postHandler, action, fields),
+  };
+};
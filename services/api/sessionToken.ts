@@ -0,0 +1,21 @@
+import { ActionParams, BackendAdapter } from './types';
+
+let sessionToken: string | null = null;
+
+/** Set by the session store whenever someone signs in or out. */
+export const setSessionToken = (token: string | null) => {
+  sessionToken = token;
+};
+
+const withToken = (params: ActionParams): ActionParams =>
+  sessionToken ? { ...params, sessionToken } : params;
+
+/**
+ * Wraps an adapter so every call carries the signed-in user's session token as `sessionToken`.
+ * Adapters must keep it out of URLs; the Apps Script one sends such reads as a POST.
+ */
+export const withSessionToken = (adapter: BackendAdapter): BackendAdapter => ({
+  name: adapter.name,
+  get: (action, params) => adapter.get(action, withToken(params)),
+  post: (action, fields) => adapter.post(action, withToken(fields)),
+});
@@ -0,0 +1,285 @@
+import { Area, SheetDataType } from '../../types';
+
+/**
+ * Envelope returned by every backend action.
+ * The Apps Script deployment always answers with this shape, even on failure.
+ */
+export interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  /**
+   * Machine-readable reason of a refusal: `unauthorized` when the session token is missing or expired,
+   * `deployment` when the deployed script can't run the action (outdated, or lacking authorization).
+   */
+  code?: string;
+}
+
+/** Raw sheet payload: header row(s) followed by body rows, all as strings. */
+export type SheetData = string[][];
+
+/**
+ * Result of a version-aware `getData` call.
+ * `data` is null when the sheet still matches the version the caller already holds; `version` is
+ * null when the deployment predates sheet versions, in which case every call returns the full sheet.
+ */
+export interface SheetSnapshot {
+  version: string | null;
+  data: SheetData | null;
+}
+
+export interface DropdownOptions {
+  equipment: string[];
+  status: string[];
+}
+
+export type AddOrUse = 'Add' | 'Use';
+
+/** A single Add/Use movement as posted to a `... Customerinfor` sheet. */
+export interface StockEntryInput {
+  area: Area;
+  sheetName?: string;
+  /** Already formatted as `DD/Mon/YYYY`. */
+  date: string;
+  equipment: string;
+  model: string;
+  number: string;
+  addOrUse: AddOrUse;
+  status: string;
+  recordBy: string;
+  /** Client-generated key; the backend ignores a second POST carrying a key it has already applied. */
+  idempotencyKey?: string;
+}
+
+/** One item line of a stock document. */
+export interface StockDocumentLine {
+  equipment: string;
+  model: string;
+  number: string;
+  status: string;
+}
+
+/**
+ * Several movements entered from one goods receipt or work order. The header fields are shared by
+ * every line; the backend writes each valid line as its own row and reports on every line.
+ */
+export interface StockDocumentInput {
+  area: Area;
+  sheetName: string;
+  /** Already formatted as `DD/Mon/YYYY`. */
+  date: string;
+  addOrUse: AddOrUse;
+  recordBy: string;
+  /** PO, work order or receipt number, written to the Reference column of every line. */
+  reference?: string;
+  lines: StockDocumentLine[];
+  /** Client-generated key; the backend answers a second POST carrying it with the first result. */
+  idempotencyKey?: string;
+}
+
+export interface StockDocumentLineResult {
+  /** Position of the line in the posted `lines`. */
+  index: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface StockDocumentResult {
+  lines: StockDocumentLineResult[];
+}
+
+/**
+ * Backend action that appends a movement to a `... Customerinfor` sheet, e.g. `createStockEntry`.
+ * Each area/vendor names its own in `areas.json`.
+ */
+export type CreateEntryAction = string;
+
+export interface CreateEntryResult {
+  message?: string;
+}
+
+/**
+ * Minimum quantity to keep on the shelf for one equipment/model in one stock sheet.
+ * A blank `model` applies the minimum to all models of the equipment combined.
+ */
+export interface StockThreshold {
+  id: string;
+  area: Area;
+  dataType: SheetDataType;
+  equipment: string;
+  model: string;
+  minQuantity: number;
+}
+
+export type StockThresholdInput = Omit<StockThreshold, 'id'> & { id?: string };
+
+/** Fields of a stock movement that can be corrected after it was recorded. */
+export type StockEntryField = 'date' | 'equipment' | 'model' | 'number' | 'addOrUse' | 'status' | 'recordBy';
+
+export type StockEntryValues = Record<StockEntryField, string>;
+
+/** Points at one movement row of the stock sheet served by `getData(area, dataType)`. */
+export interface StockRowRef {
+  area: Area;
+  dataType: SheetDataType;
+  /** Zero-based row index in the sheet, header row included. */
+  sheetRow: number;
+}
+
+export interface StockRowEdit extends StockRowRef {
+  /** Values the editor started from; the backend refuses the edit if the row no longer matches them. */
+  expected: StockEntryValues;
+  changes: Partial<StockEntryValues>;
+  editedBy: string;
+  reason: string;
+}
+
+export interface StockRowVoid extends StockRowRef {
+  expected: StockEntryValues;
+  editedBy: string;
+  reason: string;
+}
+
+export interface AuditChange {
+  field: StockEntryField;
+  oldValue: string;
+  newValue: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  area: Area;
+  dataType: SheetDataType;
+  sheetRow: number;
+  action: 'update' | 'void';
+  editedBy: string;
+  /** ISO timestamp. */
+  editedAt: string;
+  reason: string;
+  changes: AuditChange[];
+}
+
+/**
+ * Where a transfer stands: `in_transit` once the source leg is written, `received` once the
+ * destination leg is, `cancelled` when the items went back to the source instead.
+ */
+export type TransferState = 'in_transit' | 'received' | 'cancelled';
+
+/** One stock sheet a transfer leaves from or arrives in. */
+export interface TransferEndpoint {
+  area: Area;
+  /** The vendor's stock sheet, as passed to `getData`. */
+  dataType: SheetDataType;
+  /** The `... Customerinfor` sheet the leg is written to. */
+  sheetName: string;
+}
+
+export interface StockTransferInput {
+  from: TransferEndpoint;
+  to: TransferEndpoint;
+  /** Already formatted as `DD/Mon/YYYY`. */
+  date: string;
+  equipment: string;
+  model: string;
+  quantity: number;
+  /** Status of the items in both sheets. */
+  status: string;
+  sentBy: string;
+  note?: string;
+}
+
+/**
+ * Stock lent from one area/vendor to another, recorded as a linked pair of movements:
+ * a Use in the source sheet and an Add in the destination sheet, both carrying the transfer `id`.
+ */
+export interface StockTransfer {
+  /** Written to the Transfer ID column of both legs, e.g. `TR-20251019-4F2A`. */
+  id: string;
+  from: TransferEndpoint;
+  to: TransferEndpoint;
+  equipment: string;
+  model: string;
+  quantity: number;
+  status: string;
+  state: TransferState;
+  sentBy: string;
+  /** ISO timestamp. */
+  sentAt: string;
+  /** Who received or cancelled the transfer, and when (ISO timestamp). */
+  closedBy?: string;
+  closedAt?: string;
+  note?: string;
+}
+
+/** Outcome of testing items that were waiting for test. */
+export type TestResult = 'pass' | 'fail';
+
+export interface StockTestInput {
+  area: Area;
+  /** The vendor's stock sheet, as passed to `getData`. */
+  dataType: SheetDataType;
+  /** The `... Customerinfor` sheet both legs are written to. */
+  sheetName: string;
+  /** Already formatted as `DD/Mon/YYYY`. */
+  date: string;
+  equipment: string;
+  model: string;
+  quantity: number;
+  result: TestResult;
+  /** Status the tested items move to: ready on a pass, a scrap or return status on a fail. */
+  resultStatus: string;
+  testedBy: string;
+  notes?: string;
+}
+
+/**
+ * A test result, recorded as a linked pair of movements in one stock sheet: a Use out of
+ * "waiting for test" and an Add into `resultStatus`, both carrying the test `id`.
+ */
+export interface StockTest extends StockTestInput {
+  /** Written to the Test ID column of both legs, e.g. `TS-20251019-4F2A`. */
+  id: string;
+  /** ISO timestamp. */
+  recordedAt: string;
+}
+
+/** Parameters carried by a single backend call, flattened to strings. */
+export type ActionParams = Record<string, string>;
+
+/**
+ * Transport used by the inventory client.
+ * Implementations unwrap the `ApiResponse` envelope and throw on `success: false`.
+ */
+export interface BackendAdapter {
+  readonly name: string;
+  get<T>(action: string, params: ActionParams): Promise<T>;
+  post<T>(action: string, fields: ActionParams): Promise<T>;
+}
+
+export interface InventoryClient {
+  getData(area: Area, dataType: SheetDataType): Promise<SheetData>;
+  getSheetSnapshot(area: Area, dataType: SheetDataType, knownVersion: string | null): Promise<SheetSnapshot>;
+  /** Entry-form options served by `action`, the options action an area/vendor declares in `areas.json`. */
+  getEntryOptions(action: string, area: Area): Promise<DropdownOptions>;
+  createEntry(action: CreateEntryAction, entry: StockEntryInput): Promise<CreateEntryResult>;
+  /** Writes the lines of a stock document as one batch; lines the sheet refuses are reported, not thrown. */
+  createStockDocument(document: StockDocumentInput): Promise<StockDocumentResult>;
+  getThresholds(area: Area): Promise<StockThreshold[]>;
+  saveThreshold(threshold: StockThresholdInput): Promise<StockThreshold>;
+  deleteThreshold(area: Area, id: string): Promise<void>;
+  updateStockEntry(edit: StockRowEdit): Promise<AuditEntry>;
+  voidStockEntry(edit: StockRowVoid): Promise<AuditEntry>;
+  getAuditLog(area: Area, dataType: SheetDataType, sheetRow?: number): Promise<AuditEntry[]>;
+  /** Transfers leaving from or arriving in the area, newest first. */
+  getTransfers(area: Area): Promise<StockTransfer[]>;
+  /** Writes the source leg and opens the transfer as in transit. */
+  createTransfer(transfer: StockTransferInput): Promise<StockTransfer>;
+  /** Writes the destination leg. `date` is already formatted as `DD/Mon/YYYY`. */
+  receiveTransfer(transfer: StockTransfer, date: string, receivedBy: string): Promise<StockTransfer>;
+  /** Writes an Add back to the source sheet instead of receiving the items. */
+  cancelTransfer(transfer: StockTransfer, date: string, cancelledBy: string): Promise<StockTransfer>;
+  /** Test results recorded in the area, newest first. */
+  getTestResults(area: Area): Promise<StockTest[]>;
+  /** Writes both legs of a test result. */
+  recordTestResult(test: StockTestInput): Promise<StockTest>;
+}
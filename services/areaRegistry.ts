@@ -0,0 +1,158 @@
+import { Area, SheetDataType } from '../types';
+import { CreateEntryAction } from './api';
+import areasConfig from '../areas.json';
+import { t } from './i18n';
+
+/** One vendor's stock within an area: the sheet its movements are written to and the actions that serve it. */
+export interface VendorConfig {
+  /** Short id used in view names, e.g. `supcon` in `customer_form_supcon`. */
+  id: string;
+  /** Shown next to stock views and forms when the area keeps more than one vendor's stock. */
+  name: string;
+  /** `type` passed to `getData` for the vendor's movement sheet; also the name of its stock view. */
+  stockDataType: SheetDataType;
+  /** Backend action that appends a movement to `entrySheet`. */
+  entryAction: CreateEntryAction;
+  entrySheet: string;
+  /** Backend action that returns the equipment and status options of the vendor's entry form. */
+  optionsAction: string;
+}
+
+export interface AreaConfig {
+  /** What the backend receives as `area`, and what stored entries and thresholds are keyed by. */
+  id: Area;
+  /** URL segment of the area, also used in file names. */
+  slug: string;
+  /** Short name for buttons. */
+  name: string;
+  /** Heading of the area page. */
+  title: string;
+  /** `type` passed to `getData` for the equipment matrix; null when the area has none. */
+  equipmentDataType: SheetDataType | null;
+  /** The first vendor is the area's main stock. */
+  vendors: VendorConfig[];
+}
+
+/** `areas.json` declares something the dashboard can't work with. */
+export class AreaRegistryError extends Error {
+  constructor(message: string) {
+    super(`areas.json: ${message}`);
+    this.name = 'AreaRegistryError';
+  }
+}
+
+const SLUG_PATTERN = /^[a-z0-9-]+$/;
+const VENDOR_ID_PATTERN = /^[a-z0-9]+$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireRecord = (value: unknown, field: string): Record<string, unknown> => {
+  if (!isRecord(value)) throw new AreaRegistryError(`${field} must be an object.`);
+  return value;
+};
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new AreaRegistryError(`${field} must be a non-empty string.`);
+  }
+  return value.trim();
+};
+
+const parseVendor = (value: unknown, field: string): VendorConfig => {
+  const raw = requireRecord(value, field);
+  const id = requireString(raw.id, `${field}.id`);
+  if (!VENDOR_ID_PATTERN.test(id)) {
+    throw new AreaRegistryError(`${field}.id "${id}" may only contain lowercase letters and digits.`);
+  }
+  return {
+    id,
+    name: requireString(raw.name, `${field}.name`),
+    stockDataType: requireString(raw.stockDataType, `${field}.stockDataType`),
+    entryAction: requireString(raw.entryAction, `${field}.entryAction`),
+    entrySheet: requireString(raw.entrySheet, `${field}.entrySheet`),
+    optionsAction: requireString(raw.optionsAction, `${field}.optionsAction`),
+  };
+};
+
+const parseArea = (value: unknown, field: string): AreaConfig => {
+  const raw = requireRecord(value, field);
+  const id = requireString(raw.id, `${field}.id`);
+  const slug = requireString(raw.slug, `${field}.slug`);
+  if (!SLUG_PATTERN.test(slug)) {
+    throw new AreaRegistryError(`${field}.slug "${slug}" may only contain lowercase letters, digits and dashes.`);
+  }
+  if (!Array.isArray(raw.vendors) || raw.vendors.length === 0) {
+    throw new AreaRegistryError(`${field}.vendors must list at least one vendor.`);
+  }
+  const vendors = raw.vendors.map((vendor: unknown, i: number) => parseVendor(vendor, `${field}.vendors[${i}]`));
+  const equipmentDataType = raw.equipmentDataType == null ? null : requireString(raw.equipmentDataType, `${field}.equipmentDataType`);
+
+  const seenVendors = new Set<string>();
+  const seenDataTypes = new Set<string>(equipmentDataType ? [equipmentDataType] : []);
+  vendors.forEach(vendor => {
+    if (seenVendors.has(vendor.id)) throw new AreaRegistryError(`${field} declares vendor "${vendor.id}" twice.`);
+    if (seenDataTypes.has(vendor.stockDataType)) throw new AreaRegistryError(`${field} uses data type "${vendor.stockDataType}" twice.`);
+    seenVendors.add(vendor.id);
+    seenDataTypes.add(vendor.stockDataType);
+  });
+
+  const name = raw.name == null ? id : requireString(raw.name, `${field}.name`);
+  return {
+    id,
+    slug,
+    name,
+    title: raw.title == null ? name : requireString(raw.title, `${field}.title`),
+    equipmentDataType,
+    vendors,
+  };
+};
+
+/** Validates the area registry, so a typo in the config fails at startup rather than on some page later. */
+export const parseAreaRegistry = (raw: unknown): AreaConfig[] => {
+  const list = isRecord(raw) ? raw.areas : undefined;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new AreaRegistryError('"areas" must list at least one area.');
+  }
+  const areas = list.map((area, i) => parseArea(area, `areas[${i}]`));
+  ['id', 'slug'].forEach(key => {
+    const values = areas.map(area => area[key as 'id' | 'slug']);
+    const duplicate = values.find((value, i) => values.indexOf(value) !== i);
+    if (duplicate) throw new AreaRegistryError(`two areas share the ${key} "${duplicate}".`);
+  });
+  return areas;
+};
+
+/** Every plant area the dashboard serves, in display order. */
+export const AREAS: AreaConfig[] = parseAreaRegistry(areasConfig);
+
+export const findArea = (area: Area): AreaConfig | undefined => AREAS.find(config => config.id === area);
+
+export const areaConfig = (area: Area): AreaConfig => {
+  const config = findArea(area);
+  if (!config) {
+    throw new AreaRegistryError(`no area "${area}" is declared.`);
+  }
+  return config;
+};
+
+export const areaBySlug = (slug: string): AreaConfig | null =>
+  AREAS.find(config => config.slug === slug.toLowerCase()) ?? null;
+
+/** The vendor whose movement sheet is `dataType`, or null for the equipment matrix. */
+export const vendorForDataType = (area: Area, dataType: SheetDataType): VendorConfig | null =>
+  areaConfig(area).vendors.find(vendor => vendor.stockDataType === dataType) ?? null;
+
+/** Whether the area keeps stock for several vendors, and so has to say which one a page is about. */
+export const hasSeveralVendors = (area: Area) => areaConfig(area).vendors.length > 1;
+
+/** Adds the vendor to a label in areas with several vendors, e.g. "Stock & Status (SUPCON)". */
+export const withVendor = (label: string, area: Area, vendor: VendorConfig) =>
+  hasSeveralVendors(area) ? `${label} (${vendor.name})` : label;
+
+/** Short name of a stock sheet next to others of the same area: the vendor, or just "Stock". */
+export const stockLabel = (area: Area, dataType: SheetDataType) => {
+  const vendor = vendorForDataType(area, dataType);
+  if (!vendor) return dataType === areaConfig(area).equipmentDataType ? t('stock.equipment') : dataType;
+  return hasSeveralVendors(area) ? vendor.name : t('stock.stock');
+};
@@ -0,0 +1,43 @@
+import { BackendAdapter, BackendError } from '../api';
+import { AuthSession, AuthUser, IdentityProvider } from './types';
+import { AuthError } from './errors';
+
+interface SignInResult {
+  user: AuthUser;
+  token: string;
+  /** Epoch milliseconds or an ISO timestamp. */
+  expiresAt?: number | string;
+}
+
+const DEFAULT_SESSION_LENGTH_MS = 12 * 60 * 60_000;
+
+const toEpoch = (value: number | string | undefined) => {
+  const time = typeof value === 'string' && Number.isNaN(Number(value)) ? Date.parse(value) : Number(value);
+  return Number.isFinite(time) && time > 0 ? time : Date.now() + DEFAULT_SESSION_LENGTH_MS;
+};
+
+/**
+ * Signs in through the backend's `signIn` action, which checks the credentials against the
+ * deployment's own user list and returns the user with their roles and a session token.
+ */
+export const createBackendIdentityProvider = (adapter: BackendAdapter): IdentityProvider => ({
+  name: adapter.name,
+
+  async signIn(username: string, password: string): Promise<AuthSession> {
+    try {
+      const result = await adapter.post<SignInResult>('signIn', { username: username.trim(), password });
+      if (!result?.user || !result.token) {
+        throw new Error('Invalid sign-in response received.');
+      }
+      return { user: result.user, token: result.token, expiresAt: toEpoch(result.expiresAt) };
+    } catch (err) {
+      // The backend answers wrong credentials with `success: false`.
+      if (err instanceof BackendError) throw new AuthError(err.message);
+      throw err;
+    }
+  },
+
+  async signOut(session: AuthSession) {
+    await adapter.post('signOut', { token: session.token });
+  },
+});
@@ -0,0 +1,15 @@
+/** The identity provider refused the credentials. */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/** The signed-in user's role in an area doesn't allow what they tried to do. */
+export class PermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionError';
+  }
+}
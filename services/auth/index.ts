@@ -0,0 +1,21 @@
+import { backendAdapter, isMockBackend } from '../api';
+import { createBackendIdentityProvider } from './backendProvider';
+import { createLocalIdentityProvider, LocalUserRecord } from './localProvider';
+import { createSessionStore } from './session';
+import localUsers from './localUsers.json';
+
+// Set INVENGO_AUTH=local in .env.local to sign in against the bundled `localUsers.json` instead of the
+// backend's `signIn` action. The mock backend has no users of its own, so it always uses the local store.
+const provider = process.env.INVENGO_AUTH === 'local' || isMockBackend
+  ? createLocalIdentityProvider(localUsers as LocalUserRecord[])
+  : createBackendIdentityProvider(backendAdapter);
+
+export const session = createSessionStore(provider);
+
+export { createBackendIdentityProvider, createLocalIdentityProvider, createSessionStore };
+export { hashPassword } from './localProvider';
+export type { LocalUserRecord };
+export type { SessionStore } from './session';
+export * from './types';
+export * from './errors';
+export * from './permissions';
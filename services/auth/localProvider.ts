@@ -0,0 +1,52 @@
+import { AuthSession, AuthUser, IdentityProvider } from './types';
+import { AuthError } from './errors';
+import { t } from '../i18n';
+
+/** A user of the bundled store; the password is kept only as a salted PBKDF2-SHA-256 hash. */
+export interface LocalUserRecord extends AuthUser {
+  salt: string;
+  iterations: number;
+  /** Hex-encoded 256-bit PBKDF2-SHA-256 of the password with `salt`. */
+  passwordHash: string;
+}
+
+const SESSION_LENGTH_MS = 12 * 60 * 60_000;
+const DEFAULT_ITERATIONS = 100_000;
+
+const toHex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+/** Hash stored in `localUsers.json` for a password; also handy in the browser console when adding a user. */
+export const hashPassword = async (password: string, salt: string, iterations = DEFAULT_ITERATIONS): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt: encoder.encode(salt), iterations, hash: 'SHA-256' }, key, 256);
+  return toHex(bits);
+};
+
+const generateToken = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+/**
+ * Signs in against a user list shipped with the app, for the offline setup.
+ * It keeps honest people honest; anyone who can change the bundle can change the list.
+ */
+export const createLocalIdentityProvider = (users: LocalUserRecord[]): IdentityProvider => ({
+  name: 'local',
+
+  async signIn(username: string, password: string): Promise<AuthSession> {
+    const record = users.find(user => user.username.toLowerCase() === username.trim().toLowerCase());
+    // Hash even for unknown names, so the response time doesn't tell which usernames exist.
+    const hash = await hashPassword(password, record?.salt ?? 'unknown-user', record?.iterations ?? DEFAULT_ITERATIONS);
+    if (!record || hash !== record.passwordHash) {
+      throw new AuthError(t('signIn.wrongPassword'));
+    }
+    const { salt, iterations, passwordHash, ...user } = record;
+    return { user, token: generateToken(), expiresAt: Date.now() + SESSION_LENGTH_MS };
+  },
+
+  async signOut() {
+    // Local sessions only live in this browser; forgetting them is enough.
+  },
+});
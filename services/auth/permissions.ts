@@ -0,0 +1,44 @@
+import { Area } from '../../types';
+import { AuthUser, Role } from './types';
+import { PermissionError } from './errors';
+import { MessageKey, t } from '../i18n';
+
+/**
+ * `view` the area's sheets, `record` new stock movements, `edit` (correct or void) recorded
+ * movements, and `manage` the area's settings such as minimum quantities.
+ */
+export type Permission = 'view' | 'record' | 'edit' | 'manage';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ['view'],
+  recorder: ['view', 'record'],
+  area_admin: ['view', 'record', 'edit', 'manage'],
+};
+
+export const ROLE_LABELS: Record<Role, MessageKey> = {
+  viewer: 'role.viewer',
+  recorder: 'role.recorder',
+  area_admin: 'role.areaAdmin',
+};
+
+const PERMISSION_LABELS: Record<Permission, MessageKey> = {
+  view: 'permission.view',
+  record: 'permission.record',
+  edit: 'permission.edit',
+  manage: 'permission.manage',
+};
+
+export const roleIn = (user: AuthUser | null, area: Area): Role | null =>
+  user ? user.roles[area] ?? user.roles['*'] ?? null : null;
+
+export const can = (user: AuthUser | null, area: Area, permission: Permission): boolean => {
+  const role = roleIn(user, area);
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+};
+
+/** Guards an action whose button may still be on screen from before a sign-out or role change. */
+export const requirePermission = (user: AuthUser | null, area: Area, permission: Permission) => {
+  if (!can(user, area, permission)) {
+    throw new PermissionError(t(user ? 'permission.deniedAccount' : 'permission.deniedSignedOut', { action: t(PERMISSION_LABELS[permission]), area }));
+  }
+};
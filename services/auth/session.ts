@@ -0,0 +1,82 @@
+import { setSessionToken } from '../api';
+import { AuthSession, IdentityProvider } from './types';
+
+type Listener = (session: AuthSession | null) => void;
+
+const STORAGE_KEY = 'invengo.session';
+/** Longest delay `setTimeout` accepts; longer sessions are re-checked when it fires. */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const readStored = (): AuthSession | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as AuthSession | null;
+    return stored?.user && stored.token && stored.expiresAt > Date.now() ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The signed-in user of this browser.
+ * The session survives reloads (localStorage) until it expires or the user signs out.
+ */
+export const createSessionStore = (provider: IdentityProvider) => {
+  const listeners = new Set<Listener>();
+  let session: AuthSession | null = null;
+  let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const scheduleExpiry = () => {
+    if (expiryTimer) clearTimeout(expiryTimer);
+    expiryTimer = null;
+    if (!session) return;
+    const delay = Math.min(Math.max(session.expiresAt - Date.now(), 0), MAX_TIMER_MS);
+    expiryTimer = setTimeout(() => { current(); scheduleExpiry(); }, delay);
+  };
+
+  const update = (next: AuthSession | null) => {
+    session = next;
+    setSessionToken(next?.token ?? null);
+    scheduleExpiry();
+    if (next) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    listeners.forEach(listener => listener(next));
+  };
+
+  const current = () => {
+    if (session && session.expiresAt <= Date.now()) update(null);
+    return session;
+  };
+
+  session = readStored();
+  setSessionToken(session?.token ?? null);
+  scheduleExpiry();
+
+  return {
+    providerName: provider.name,
+
+    current,
+
+    async signIn(username: string, password: string) {
+      update(await provider.signIn(username, password));
+    },
+
+    async signOut() {
+      const ended = session;
+      update(null);
+      if (ended) {
+        // The user is signed out locally either way; a backend that can't be told just lets the token expire.
+        await provider.signOut(ended).catch(err => console.error('Failed to end the session on the backend:', err));
+      }
+    },
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export type SessionStore = ReturnType<typeof createSessionStore>;
@@ -0,0 +1,30 @@
+import { Area } from '../../types';
+
+/** What someone may do in one area; each role includes everything the one before it allows. */
+export type Role = 'viewer' | 'recorder' | 'area_admin';
+
+export interface AuthUser {
+  username: string;
+  /** Written to "Record by" and "Corrected by" for everything this user does. */
+  displayName: string;
+  /** Role per area id; `*` covers every area without an entry of its own. Areas with neither are hidden. */
+  roles: Record<Area | '*', Role>;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  /** Sent with every backend call so the deployment can check who is asking. */
+  token: string;
+  /** Epoch milliseconds; the session has to be renewed by signing in again after this. */
+  expiresAt: number;
+}
+
+/**
+ * Checks credentials and says who they belong to.
+ * Implementations throw `AuthError` for wrong credentials and plain errors when they can't be checked.
+ */
+export interface IdentityProvider {
+  readonly name: string;
+  signIn(username: string, password: string): Promise<AuthSession>;
+  signOut(session: AuthSession): Promise<void>;
+}
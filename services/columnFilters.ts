@@ -0,0 +1,130 @@
+import { parseQuantity } from './sheetRecords';
+import { parseImportDate } from './stockImport';
+
+/** Picked values (any of them matches), a numeric range, or a `YYYY-MM-DD` date range. */
+export type ColumnFilter =
+  | { column: string; kind: 'values'; values: string[] }
+  | { column: string; kind: 'range'; min: number | null; max: number | null }
+  | { column: string; kind: 'dates'; from: string; to: string };
+
+export type ColumnFilterKind = ColumnFilter['kind'];
+
+/** A table column that can be filtered, and how. */
+export interface FilterableColumn {
+  name: string;
+  index: number;
+  kind: ColumnFilterKind;
+}
+
+/** A filter together with the column it applies to in the sheet on screen. */
+export interface ResolvedColumnFilter {
+  filter: ColumnFilter;
+  column: FilterableColumn;
+}
+
+const columnKey = (name: string) => name.trim().toLowerCase();
+
+/** A filter that narrows nothing, e.g. a range with both ends open, is dropped rather than kept. */
+export const isActiveFilter = (filter: ColumnFilter) => {
+  switch (filter.kind) {
+    case 'values': return filter.values.length > 0;
+    case 'range': return filter.min !== null || filter.max !== null;
+    case 'dates': return !!filter.from || !!filter.to;
+  }
+};
+
+const isNumberOrNull = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isFinite(value));
+
+const toFilter = (value: unknown): ColumnFilter | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.column !== 'string' || !raw.column.trim()) return null;
+  const column = raw.column;
+  if (raw.kind === 'values' && Array.isArray(raw.values)) {
+    return { column, kind: 'values', values: raw.values.filter((v): v is string => typeof v === 'string') };
+  }
+  if (raw.kind === 'range' && isNumberOrNull(raw.min ?? null) && isNumberOrNull(raw.max ?? null)) {
+    return { column, kind: 'range', min: (raw.min ?? null) as number | null, max: (raw.max ?? null) as number | null };
+  }
+  if (raw.kind === 'dates') {
+    const date = (v: unknown) => (typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : '');
+    return { column, kind: 'dates', from: date(raw.from), to: date(raw.to) };
+  }
+  return null;
+};
+
+/** Column filters as carried in the `cols` query parameter. */
+export const encodeColumnFilters = (filters: ColumnFilter[]): string | undefined => {
+  const active = filters.filter(isActiveFilter);
+  return active.length > 0 ? JSON.stringify(active) : undefined;
+};
+
+/** Reads the `cols` query parameter; anything malformed, e.g. a hand-edited link, is ignored. */
+export const decodeColumnFilters = (raw: string | undefined): ColumnFilter[] => {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(toFilter).filter((filter): filter is ColumnFilter => !!filter && isActiveFilter(filter));
+  } catch {
+    return [];
+  }
+};
+
+/** Replaces the filter on `column` (matched by header name), or removes it when `next` is null or inactive. */
+export const withColumnFilter = (filters: ColumnFilter[], column: string, next: ColumnFilter | null): ColumnFilter[] => {
+  const others = filters.filter(filter => columnKey(filter.column) !== columnKey(column));
+  return next && isActiveFilter(next) ? [...others, next] : others;
+};
+
+export const filterFor = (filters: ColumnFilter[], column: string) =>
+  filters.find(filter => columnKey(filter.column) === columnKey(column));
+
+/**
+ * Pairs each filter with the column of that name in the sheet on screen. Filters are kept by header
+ * name so links and presets survive columns being moved; a filter on a column the sheet doesn't
+ * have, or of a kind the column can't take, doesn't apply.
+ */
+export const resolveColumnFilters = (filters: ColumnFilter[], columns: FilterableColumn[]): ResolvedColumnFilter[] =>
+  filters.flatMap(filter => {
+    const column = columns.find(candidate => columnKey(candidate.name) === columnKey(filter.column));
+    return column && column.kind === filter.kind ? [{ filter, column }] : [];
+  });
+
+/** `YYYY-MM-DD` of a Date cell, or of a Timestamp cell such as `2025-09-25T08:30:00.000Z`. */
+export const cellDate = (cell: string): string | null => parseImportDate(cell) ?? parseImportDate(cell.trim().slice(0, 10));
+
+const cellMatches = (filter: ColumnFilter, cell: string) => {
+  const value = String(cell ?? '').trim();
+  switch (filter.kind) {
+    case 'values':
+      return filter.values.includes(value);
+    case 'range': {
+      const quantity = parseQuantity(value);
+      if (quantity === null) return false;
+      return (filter.min === null || quantity >= filter.min) && (filter.max === null || quantity <= filter.max);
+    }
+    case 'dates': {
+      const date = cellDate(value);
+      if (!date) return false;
+      return (!filter.from || date >= filter.from) && (!filter.to || date <= filter.to);
+    }
+  }
+};
+
+/** Whether a row passes every filter; filters on different columns combine with AND. */
+export const matchesColumnFilters = (cells: string[], filters: ResolvedColumnFilter[]) =>
+  filters.every(({ filter, column }) => cellMatches(filter, cells[column.index]));
+
+/** Distinct non-empty values of a column with how many rows hold each, most common first. */
+export const columnValues = (rows: string[][], index: number): { value: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    const value = String(row[index] ?? '').trim();
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
@@ -0,0 +1,133 @@
+import { Area } from '../types';
+import { AreaConfig, VendorConfig } from './areaRegistry';
+import { movementSign } from './ledger';
+import { StockRecord } from './sheetRecords';
+import { parseImportDate } from './stockImport';
+
+/** One countable Add or Use, reduced to what the analytics group by. */
+export interface MovementPoint {
+  area: Area;
+  vendor: VendorConfig;
+  /** `YYYY-MM-DD`. */
+  date: string;
+  equipment: string;
+  /** +1 for Add, -1 for Use. */
+  sign: 1 | -1;
+  quantity: number;
+}
+
+/** Inclusive range of `YYYY-MM-DD` dates. */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface MonthlyVolume {
+  /** `YYYY-MM`. */
+  month: string;
+  added: number;
+  used: number;
+}
+
+/**
+ * The Add/Use movements of a stock sheet that count as stock coming in or being consumed.
+ * Voided rows, rows without a readable date or quantity, and both legs of inter-area transfers
+ * (stock changing shelves, not being used) and of test results (stock changing status) are left out.
+ */
+export const movementPoints = (area: Area, vendor: VendorConfig, records: StockRecord[]): MovementPoint[] =>
+  records.flatMap(record => {
+    const sign = movementSign(record.addOrUse);
+    const date = parseImportDate(record.date) ?? parseImportDate(record.timestamp.slice(0, 10));
+    if (sign === 0 || record.quantity === null || record.quantity <= 0 || !date || record.transferId || record.testId) return [];
+    return [{ area, vendor, date, equipment: record.type, sign: sign as 1 | -1, quantity: record.quantity }];
+  });
+
+export const inRange = (point: MovementPoint, range: DateRange) => point.date >= range.from && point.date <= range.to;
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** The `months` calendar months ending with the month of `end` (a `YYYY-MM-DD` date). */
+export const monthsEndingAt = (end: string, months: number): DateRange => {
+  const [year, month] = end.split('-').map(Number);
+  return {
+    from: isoDate(new Date(year, month - months, 1)),
+    to: isoDate(new Date(year, month, 0)),
+  };
+};
+
+export const todayIso = () => isoDate(new Date());
+
+/** Every `YYYY-MM` the range touches, in order. */
+export const monthsInRange = (range: DateRange): string[] => {
+  const months: string[] = [];
+  let [year, month] = range.from.split('-').map(Number);
+  const last = range.to.slice(0, 7);
+  // Cap the loop so a mistyped year can't hang the page.
+  for (let i = 0; i < 240; i++) {
+    const key = `${year}-${String(month).padStart(2, '0')}`;
+    if (key > last) break;
+    months.push(key);
+    month = month === 12 ? 1 : month + 1;
+    if (month === 1) year++;
+  }
+  return months;
+};
+
+/** Quantity added and used per month of the range; months without movements count as zero. */
+export const monthlyVolume = (points: MovementPoint[], range: DateRange): MonthlyVolume[] => {
+  const byMonth = new Map(monthsInRange(range).map(month => [month, { month, added: 0, used: 0 }]));
+  points.filter(point => inRange(point, range)).forEach(point => {
+    const volume = byMonth.get(point.date.slice(0, 7));
+    if (!volume) return;
+    if (point.sign > 0) volume.added += point.quantity;
+    else volume.used += point.quantity;
+  });
+  return [...byMonth.values()];
+};
+
+/** Quantity used per month, split by `groupOf`, e.g. per vendor or per area. */
+export const monthlyUseBy = (points: MovementPoint[], range: DateRange, groups: string[], groupOf: (point: MovementPoint) => string) => {
+  const months = monthsInRange(range);
+  const values = new Map(groups.map(group => [group, months.map(() => 0)]));
+  points.filter(point => point.sign < 0 && inRange(point, range)).forEach(point => {
+    const month = months.indexOf(point.date.slice(0, 7));
+    const series = values.get(groupOf(point));
+    if (month !== -1 && series) series[month] += point.quantity;
+  });
+  return groups.map(group => ({ group, values: values.get(group)! }));
+};
+
+/** Equipment types by quantity used in the range, most used first. */
+export const topConsumed = (points: MovementPoint[], range: DateRange, limit: number) => {
+  const totals = new Map<string, number>();
+  points.filter(point => point.sign < 0 && inRange(point, range)).forEach(point => {
+    totals.set(point.equipment, (totals.get(point.equipment) ?? 0) + point.quantity);
+  });
+  return [...totals]
+    .map(([equipment, quantity]) => ({ equipment, quantity }))
+    .sort((a, b) => b.quantity - a.quantity || a.equipment.localeCompare(b.equipment))
+    .slice(0, limit);
+};
+
+export interface AreaConsumption {
+  area: AreaConfig;
+  added: number;
+  used: number;
+  /** Used per month, averaged over every month of the range. */
+  usedPerMonth: number;
+}
+
+export const consumptionByArea = (points: MovementPoint[], range: DateRange, areas: AreaConfig[]): AreaConsumption[] => {
+  const monthCount = Math.max(monthsInRange(range).length, 1);
+  return areas.map(area => {
+    const own = points.filter(point => point.area === area.id && inRange(point, range));
+    const added = own.filter(point => point.sign > 0).reduce((sum, point) => sum + point.quantity, 0);
+    const used = own.filter(point => point.sign < 0).reduce((sum, point) => sum + point.quantity, 0);
+    return { area, added, used, usedPerMonth: used / monthCount };
+  });
+};
+
+/** The latest movement date, for anchoring the default range to data that exists. */
+export const latestDate = (points: MovementPoint[]): string | null =>
+  points.reduce<string | null>((latest, point) => (latest === null || point.date > latest ? point.date : latest), null);
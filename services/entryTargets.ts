@@ -0,0 +1,49 @@
+import { Area, SheetDataType } from '../types';
+import { CreateEntryAction, DropdownOptions, inventoryApi } from './api';
+import { VendorConfig } from './areaRegistry';
+import { READY_STATUS, TEST_PENDING_STATUS } from './ledger';
+
+/** Where a stock entry of an area/vendor is written, and which sheet and options belong to it. */
+export interface EntryTarget {
+  action: CreateEntryAction;
+  sheetName: string;
+  /** The stock view that shows `sheetName`. */
+  dataType: SheetDataType;
+}
+
+export const entryTargetFor = (vendor: VendorConfig): EntryTarget => ({
+  action: vendor.entryAction,
+  sheetName: vendor.entrySheet,
+  dataType: vendor.stockDataType,
+});
+
+/** Statuses offered when the backend's options carry none, e.g. from an older deployment. */
+const FALLBACK_STATUSES = [READY_STATUS, TEST_PENDING_STATUS];
+
+/** Statuses an entry can be recorded with: the backend's list for the area/vendor. */
+export const entryStatuses = (options: DropdownOptions): string[] =>
+  options.status.length > 0 ? options.status : FALLBACK_STATUSES;
+
+/** Status a new entry starts with: ready when it's offered, else the first status offered. */
+export const defaultEntryStatus = (statuses: string[]) =>
+  statuses.includes(READY_STATUS) ? READY_STATUS : statuses[0] ?? READY_STATUS;
+
+/** Equipment and status options of an area/vendor's entry form. */
+export const loadEntryOptions = (area: Area, vendor: VendorConfig): Promise<DropdownOptions> =>
+  inventoryApi.getEntryOptions(vendor.optionsAction, area);
+
+export const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * Converts a date string from 'YYYY-MM-DD' to the 'D/Mon/YYYY' format the sheets use, e.g. "28/Oct/2025".
+ */
+export const formatSheetDate = (isoDate: string): string => {
+  if (!isoDate) return '';
+  const [year, month, day] = isoDate.split('-').map(part => parseInt(part, 10));
+  const date = new Date(year, month - 1, day);
+  if (Number.isNaN(date.getTime())) {
+    console.error("Could not format date:", isoDate);
+    return isoDate; // Fallback to original string on error
+  }
+  return `${date.getDate()}/${MONTH_NAMES[date.getMonth()]}/${date.getFullYear()}`;
+};
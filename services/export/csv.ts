@@ -0,0 +1,15 @@
+/** Cells Excel and Sheets would run as a formula; user input such as models and notes can start this way. */
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+const escapeCell = (raw: string) => {
+  // A leading apostrophe makes the spreadsheet show the text as typed; negative quantities stay numbers.
+  const value = FORMULA_START.test(raw) && !NUMBER.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Serializes rows as CSV. Starts with a byte-order mark so Excel opens the Thai text as UTF-8.
+ */
+export const toCsv = (rows: string[][]): string =>
+  '﻿' + rows.map(row => row.map(cell => escapeCell(String(cell ?? ''))).join(',')).join('\r\n');
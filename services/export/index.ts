@@ -0,0 +1,51 @@
+import { Area, ViewType } from '../../types';
+import { areaSlug } from '../routing';
+import { toCsv } from './csv';
+import { toXlsx, XLSX_MIME_TYPE } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+/** A table exactly as it is on screen: only the visible rows and columns, headers first. */
+export interface ExportTable {
+  title: string;
+  headerRows: string[][];
+  bodyRows: string[][];
+  /** Sticky columns on screen, frozen in the workbook. */
+  frozenColumnCount?: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** e.g. `invengo_pulp2_equipment_20251019-1430.xlsx`, in local time. */
+export const exportFilename = (area: Area, view: ViewType | string, format: ExportFormat, now = new Date()) => {
+  const stamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}`;
+  return `invengo_${areaSlug(area)}_${view}_${stamp}.${format}`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before the object URL goes away.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const tableToBlob = (table: ExportTable, format: ExportFormat): Blob => {
+  const rows = [...table.headerRows, ...table.bodyRows];
+  if (format === 'csv') {
+    return new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  }
+  const workbook = toXlsx(rows, {
+    sheetName: table.title,
+    headerRowCount: table.headerRows.length,
+    frozenColumnCount: table.frozenColumnCount,
+  });
+  return new Blob([workbook], { type: XLSX_MIME_TYPE });
+};
+
+export const exportTable = (table: ExportTable, format: ExportFormat, filename: string) =>
+  downloadBlob(tableToBlob(table, format), filename);
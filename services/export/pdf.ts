@@ -0,0 +1,73 @@
+/**
+ * Just enough of the PDF format to bind page images into a document: one JPEG per page, drawn
+ * over the whole page. Text is drawn into the images by the browser, so Thai and any other script
+ * prints correctly without embedding fonts.
+ */
+
+export interface PdfPage {
+  /** JPEG file contents. */
+  jpeg: Uint8Array;
+  /** Pixel size of the image. */
+  width: number;
+  height: number;
+}
+
+/** Page size in PDF points (1/72 inch). */
+export const A4_PORTRAIT = { width: 595.28, height: 841.89 };
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+export const createPdf = (pages: PdfPage[], pageSize = A4_PORTRAIT): Uint8Array => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  // Objects are numbered from 1 in the order they're written; the xref table lists their offsets.
+  const object = (body: string, stream?: Uint8Array) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Object 1 is the catalog, 2 the page tree, then three objects per page: page, image, contents.
+  const pageRef = (index: number) => 3 + index * 3;
+  const { width, height } = pageSize;
+
+  write('%PDF-1.4\n%âãÏÓ\n');
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageRef(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  pages.forEach((page, i) => {
+    const ref = pageRef(i);
+    const contents = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Page Do Q`);
+    object(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Page ${ref + 1} 0 R >> >> /Contents ${ref + 2} 0 R >>`);
+    object(
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+      page.jpeg
+    );
+    object(`<< /Length ${contents.length} >>`, contents);
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  parts.forEach(part => {
+    pdf.set(part, position);
+    position += part.length;
+  });
+  return pdf;
+};
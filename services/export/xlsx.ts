@@ -0,0 +1,124 @@
+import { createZip } from './zip';
+
+export interface WorksheetOptions {
+  sheetName: string;
+  /** Rows at the top that are headers: rendered bold and frozen while scrolling. */
+  headerRowCount: number;
+  /** Columns at the left to freeze, e.g. Area and Cabinet of the equipment matrix. */
+  frozenColumnCount?: number;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const escapeXml = (value: string) =>
+  value
+    // Control characters are not allowed in XML 1.0 and make Excel reject the file.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** Zero-based column index to its spreadsheet letter: 0 → A, 25 → Z, 26 → AA. */
+export const columnLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+/** Excel forbids these characters in sheet names and caps them at 31 characters. */
+const safeSheetName = (name: string) => name.replace(/[\\/?*[\]:]/g, '-').slice(0, 31) || 'Sheet1';
+
+/**
+ * A plain number as Excel would write it back. Leading zeros ("00123") or trailing ones ("1.50") mark
+ * codes and IDs, and digit runs past Excel's 15 significant digits are serial numbers: those stay text.
+ */
+const NUMERIC_CELL = /^-?(0|[1-9]\d*)(\.\d*[1-9])?$/;
+const MAX_NUMBER_DIGITS = 15;
+
+const isNumberCell = (text: string) => NUMERIC_CELL.test(text) && text.replace(/\D/g, '').length <= MAX_NUMBER_DIGITS;
+
+const cellXml = (value: string, reference: string, isHeader: boolean) => {
+  const text = String(value ?? '');
+  if (text === '') return '';
+  const style = isHeader ? ' s="1"' : '';
+  // Body cells that are plain numbers are written as numbers so they can be summed in Excel.
+  if (!isHeader && isNumberCell(text.trim())) {
+    return `<c r="${reference}"${style}><v>${text.trim()}</v></c>`;
+  }
+  return `<c r="${reference}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+const sheetViewXml = (headerRowCount: number, frozenColumnCount: number) => {
+  if (headerRowCount === 0 && frozenColumnCount === 0) return '';
+  const split = [
+    frozenColumnCount > 0 ? `xSplit="${frozenColumnCount}"` : '',
+    headerRowCount > 0 ? `ySplit="${headerRowCount}"` : '',
+  ].filter(Boolean).join(' ');
+  const topLeft = `${columnLetter(frozenColumnCount)}${headerRowCount + 1}`;
+  const activePane = headerRowCount > 0 ? (frozenColumnCount > 0 ? 'bottomRight' : 'bottomLeft') : 'topRight';
+  return `<sheetViews><sheetView workbookViewId="0"><pane ${split} topLeftCell="${topLeft}" activePane="${activePane}" state="frozen"/></sheetView></sheetViews>`;
+};
+
+const worksheetXml = (rows: string[][], { headerRowCount, frozenColumnCount = 0 }: WorksheetOptions) => {
+  const body = rows.map((row, r) => {
+    const cells = row.map((value, c) => cellXml(value, `${columnLetter(c)}${r + 1}`, r < headerRowCount)).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  return XML_HEADER +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    sheetViewXml(headerRowCount, frozenColumnCount) +
+    `<sheetData>${body}</sheetData>` +
+    '</worksheet>';
+};
+
+const CONTENT_TYPES = XML_HEADER +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS = XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const WORKBOOK_RELS = XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
+
+/** Style 0 is the default; style 1 is the bold header style. */
+const STYLES = XML_HEADER +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+const workbookXml = (sheetName: string) => XML_HEADER +
+  '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+  `<sheets><sheet name="${escapeXml(safeSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>` +
+  '</workbook>';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/** Builds a single-sheet .xlsx workbook. */
+export const toXlsx = (rows: string[][], options: WorksheetOptions): Uint8Array =>
+  createZip([
+    { path: '[Content_Types].xml', content: CONTENT_TYPES },
+    { path: '_rels/.rels', content: ROOT_RELS },
+    { path: 'xl/workbook.xml', content: workbookXml(options.sheetName) },
+    { path: 'xl/_rels/workbook.xml.rels', content: WORKBOOK_RELS },
+    { path: 'xl/styles.xml', content: STYLES },
+    { path: 'xl/worksheets/sheet1.xml', content: worksheetXml(rows, options) },
+  ]);
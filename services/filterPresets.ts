@@ -0,0 +1,89 @@
+import { Area, SheetDataType } from '../types';
+import { ViewFilters } from './routing';
+
+/** A named set of viewer filters, saved for one area and one sheet. */
+export interface FilterPreset {
+  id: string;
+  name: string;
+  area: Area;
+  dataType: SheetDataType;
+  filters: ViewFilters;
+}
+
+type Listener = (presets: FilterPreset[]) => void;
+
+const STORAGE_KEY = 'invengo.filterPresets';
+
+/** The filters a preset keeps; the entry-form prefill (`equipment`, `model`) isn't a filter. */
+export const presetFilters = (filters: ViewFilters): ViewFilters => {
+  const kept: ViewFilters = {};
+  (['type', 'area', 'cabinet', 'q', 'cols'] as const).forEach(key => {
+    const value = filters[key];
+    if (value && value !== 'All') kept[key] = value;
+  });
+  return kept;
+};
+
+/** Whether `filters` are exactly what the preset applies, to mark it as the one in use. */
+export const isPresetApplied = (preset: FilterPreset, filters: ViewFilters) =>
+  JSON.stringify(presetFilters(preset.filters)) === JSON.stringify(presetFilters(filters));
+
+const generateId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+const readStored = (): FilterPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(preset => preset?.id && preset.name && preset.filters) : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Filter presets of this browser; they survive reloads (localStorage). */
+export const createFilterPresetStore = () => {
+  const listeners = new Set<Listener>();
+  let presets = readStored();
+
+  const update = (next: FilterPreset[]) => {
+    presets = next;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // The presets then only last until the page is reloaded.
+    }
+    listeners.forEach(listener => listener(next));
+  };
+
+  return {
+    /** Presets of one area and sheet, in name order. */
+    list: (area: Area, dataType: SheetDataType) =>
+      presets
+        .filter(preset => preset.area === area && preset.dataType === dataType)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+
+    /** Saves the filters under `name`; a preset of the same name for the same sheet is replaced. */
+    save(area: Area, dataType: SheetDataType, name: string, filters: ViewFilters): FilterPreset {
+      const trimmed = name.trim();
+      const existing = presets.find(preset =>
+        preset.area === area && preset.dataType === dataType && preset.name.toLowerCase() === trimmed.toLowerCase()
+      );
+      const preset: FilterPreset = { id: existing?.id ?? generateId(), name: trimmed, area, dataType, filters: presetFilters(filters) };
+      update([...presets.filter(other => other.id !== preset.id), preset]);
+      return preset;
+    },
+
+    remove(id: string) {
+      update(presets.filter(preset => preset.id !== id));
+    },
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export const filterPresetStore = createFilterPresetStore();
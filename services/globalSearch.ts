@@ -0,0 +1,97 @@
+import { Area, SheetDataType, ViewType } from '../types';
+import { SheetData } from './api';
+import { AreaConfig, VendorConfig } from './areaRegistry';
+import { t } from './i18n';
+import { foldMovements, recordToMovement, sortedBalances } from './ledger';
+import { Route } from './routing';
+import { parseEquipmentMatrix, parseStockSheet } from './sheetRecords';
+
+/** One sheet the home-page search looks through. */
+export interface SearchSource {
+  area: Area;
+  areaName: string;
+  view: ViewType;
+  dataType: SheetDataType;
+  /** The vendor whose stock sheet this is; null for the equipment matrix. */
+  vendor: VendorConfig | null;
+}
+
+/** Every stock and equipment sheet of the given areas, in dashboard order. */
+export const searchSources = (areas: AreaConfig[]): SearchSource[] =>
+  areas.flatMap(config => [
+    ...config.vendors.map((vendor): SearchSource => ({
+      area: config.id,
+      areaName: config.name,
+      view: vendor.stockDataType,
+      dataType: vendor.stockDataType,
+      vendor,
+    })),
+    ...(config.equipmentDataType
+      ? [{ area: config.id, areaName: config.name, view: 'equipment', dataType: config.equipmentDataType, vendor: null }]
+      : []),
+  ]);
+
+export const sourceKey = (source: SearchSource) => `${source.area}\u0000${source.dataType}`;
+
+export interface SearchMatch {
+  /** Equipment type of a stock item, or the equipment column of the matrix. */
+  name: string;
+  /** Model of a stock item; where a matrix column is installed. */
+  detail: string;
+  /** Status code of a stock item. */
+  status?: string;
+  quantity: number;
+}
+
+export interface SearchGroup {
+  source: SearchSource;
+  matches: SearchMatch[];
+  /** The source's view with the search term applied. */
+  route: Route;
+}
+
+export const MIN_SEARCH_LENGTH = 2;
+/** Cabinets named in an equipment match before the rest are summed up as "+N more". */
+const MAX_LISTED_CABINETS = 3;
+
+const includesTerm = (lowerTerm: string, ...values: string[]) =>
+  values.some(value => value.toLowerCase().includes(lowerTerm));
+
+/** Stock items whose equipment, model or status matches, with their on-hand quantity. */
+const searchStock = (area: Area, data: SheetData, lowerTerm: string): SearchMatch[] =>
+  sortedBalances(foldMovements(area, parseStockSheet(data).records.map(recordToMovement)))
+    .filter(balance => includesTerm(lowerTerm, balance.equipment, balance.model, balance.status))
+    .map(balance => ({ name: balance.equipment, detail: balance.model, status: balance.status, quantity: balance.quantity }));
+
+/** Equipment columns whose name matches, like the matrix view's search, with where they are installed. */
+const searchEquipment = (data: SheetData, lowerTerm: string): SearchMatch[] => {
+  const matrix = parseEquipmentMatrix(data);
+  const headers = matrix.headerRows[0] || [];
+  const matches: SearchMatch[] = [];
+  for (let column = matrix.firstQuantityColumn; column < headers.length; column++) {
+    if (!headers[column] || !includesTerm(lowerTerm, headers[column])) continue;
+    const holders = matrix.rows.filter(row => (row.quantities[column] ?? 0) > 0);
+    if (holders.length === 0) continue;
+    const places = holders.map(row => [row.area, row.cabinet].filter(Boolean).join(' · ') || row.description);
+    const more = places.length - MAX_LISTED_CABINETS;
+    matches.push({
+      name: headers[column],
+      detail: places.slice(0, MAX_LISTED_CABINETS).join(', ') + (more > 0 ? ` ${t('search.moreCabinets', { count: more })}` : ''),
+      quantity: holders.reduce((sum, row) => sum + (row.quantities[column] ?? 0), 0),
+    });
+  }
+  return matches;
+};
+
+/**
+ * Searches one sheet the way its `SheetDataViewer` search box would, summarised as quantities.
+ * Returns null when nothing matches. Throws `SheetSchemaError` when the sheet can't be read.
+ */
+export const searchSheet = (source: SearchSource, data: SheetData, term: string): SearchGroup | null => {
+  const trimmed = term.trim();
+  if (trimmed.length < MIN_SEARCH_LENGTH || data.length === 0) return null;
+  const lowerTerm = trimmed.toLowerCase();
+  const matches = source.view === 'equipment' ? searchEquipment(data, lowerTerm) : searchStock(source.area, data, lowerTerm);
+  if (matches.length === 0) return null;
+  return { source, matches, route: { area: source.area, view: source.view, filters: { q: trimmed } } };
+};
@@ -0,0 +1,129 @@
+import { READY_STATUS, RETURN_STATUS, SCRAP_STATUS, TEST_PENDING_STATUS } from '../ledger';
+import en from './en.json';
+import th from './th.json';
+
+/** Languages the interface is translated into. */
+export type Locale = 'en' | 'th';
+
+export type MessageKey = keyof typeof en;
+
+/** Values substituted for `{name}` placeholders; a numeric `count` also picks the `_other` form in English. */
+export type MessageParams = Record<string, string | number>;
+
+/** Every catalog must translate every English key; tsc reports the ones a catalog is missing. */
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, th };
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'th', label: 'ไทย' },
+  { id: 'en', label: 'English' },
+];
+
+/** BCP 47 tags used for dates and numbers; Thai dates use the Buddhist calendar, as people here expect. */
+const INTL_LOCALES: Record<Locale, string> = { en: 'en-GB', th: 'th-TH' };
+
+const STORAGE_KEY = 'invengo.locale';
+
+type Listener = (locale: Locale) => void;
+
+const isLocale = (value: unknown): value is Locale => value === 'en' || value === 'th';
+
+/** The stored choice, else Thai for browsers set to Thai and English for everyone else. */
+const initialLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage can be unavailable (private mode); fall through to the browser language.
+  }
+  return typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('th') ? 'th' : 'en';
+};
+
+/** The interface language of this browser; survives reloads. */
+export const createLocaleStore = () => {
+  const listeners = new Set<Listener>();
+  let locale = initialLocale();
+
+  const apply = () => {
+    if (typeof document !== 'undefined') document.documentElement.lang = locale;
+  };
+  apply();
+
+  return {
+    current: () => locale,
+
+    set(next: Locale) {
+      if (next === locale) return;
+      locale = next;
+      try {
+        localStorage.setItem(STORAGE_KEY, next);
+      } catch {
+        // The choice then only lasts until the page is reloaded.
+      }
+      apply();
+      listeners.forEach(listener => listener(next));
+    },
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export const localeStore = createLocaleStore();
+
+/**
+ * Looks up `key` in the locale's catalog and fills in `{placeholders}`.
+ * When `params.count` is not 1 and the catalog has a `<key>_other` form, that form is used.
+ * Falls back to English, then to the key itself, so a gap shows up as text rather than a crash.
+ */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const catalog = CATALOGS[locale];
+  const pluralKey = `${key}_other` as MessageKey;
+  const useOther = params && typeof params.count === 'number' && params.count !== 1 && pluralKey in catalog;
+  const template = (useOther ? catalog[pluralKey] : catalog[key]) ?? CATALOGS.en[key] ?? key;
+  return params
+    ? template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match))
+    : template;
+};
+
+/** Translates in the current language, for services that build messages outside React. */
+export const t = (key: MessageKey, params?: MessageParams) => translate(localeStore.current(), key, params);
+
+const STATUS_MESSAGE_KEYS: Record<string, MessageKey> = {
+  [READY_STATUS]: 'status.ready',
+  [TEST_PENDING_STATUS]: 'status.testPending',
+  [SCRAP_STATUS]: 'status.scrap',
+  [RETURN_STATUS]: 'status.returned',
+};
+
+/**
+ * Display label of a status. Statuses are stored in the sheets as their Thai code whatever the
+ * interface language; unknown statuses are shown as written.
+ */
+export const statusLabel = (locale: Locale, status: string) => {
+  const key = STATUS_MESSAGE_KEYS[status.trim()];
+  return key ? translate(locale, key) : status;
+};
+
+/** Date, time and number formatting for a locale. */
+export const formattersFor = (locale: Locale) => {
+  const tag = INTL_LOCALES[locale];
+  const dateFormat = new Intl.DateTimeFormat(tag, { day: 'numeric', month: 'short', year: 'numeric' });
+  const dateTimeFormat = new Intl.DateTimeFormat(tag, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+  const timeFormat = new Intl.DateTimeFormat(tag, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  const monthFormat = new Intl.DateTimeFormat(tag, { month: 'short', year: '2-digit' });
+  const monthNameFormat = new Intl.DateTimeFormat(tag, { month: 'long', year: 'numeric' });
+  const numberFormat = new Intl.NumberFormat(tag, { maximumFractionDigits: 1 });
+  const toDate = (value: Date | string) => (value instanceof Date ? value : new Date(value));
+  return {
+    formatDate: (value: Date | string) => dateFormat.format(toDate(value)),
+    formatDateTime: (value: Date | string) => dateTimeFormat.format(toDate(value)),
+    formatTime: (value: Date | string) => timeFormat.format(toDate(value)),
+    /** `2025-10` → `Oct 25`. */
+    formatMonth: (month: string) => monthFormat.format(new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1, 1)),
+    /** `2025-10` → `October 2025`. */
+    formatMonthName: (month: string) => monthNameFormat.format(new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1, 1)),
+    formatNumber: (value: number) => numberFormat.format(value),
+  };
+};
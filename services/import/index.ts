@@ -0,0 +1,17 @@
+import { parseCsv } from './csv';
+import { readXlsx } from './xlsx';
+import { t } from '../i18n';
+
+export const SPREADSHEET_FILE_TYPES = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/** Reads a CSV or .xlsx file (first sheet) into rows of cells, keeping blank rows so row numbers match the file. */
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx')) {
+    return readXlsx(new Uint8Array(await file.arrayBuffer()));
+  }
+  if (name.endsWith('.csv') || file.type === 'text/csv') {
+    return parseCsv(await file.text());
+  }
+  throw new Error(t('import.wrongFileType', { file: file.name }));
+};
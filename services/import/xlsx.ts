@@ -0,0 +1,102 @@
+import { readZip } from './unzip';
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const parseXml = (bytes: Uint8Array | undefined) =>
+  bytes ? new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml') : null;
+
+const elements = (parent: Document | Element, name: string) =>
+  Array.from(parent.getElementsByTagNameNS(SPREADSHEET_NS, name));
+
+/** Concatenated text of a shared or inline string, including rich-text runs. */
+const stringText = (element: Element) => elements(element, 't').map(t => t.textContent ?? '').join('');
+
+/** Spreadsheet column letters to a zero-based index: A → 0, AA → 26. */
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/** Built-in number formats that display a date. */
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/** Indices of the cell styles that format their number as a date. */
+const dateStyles = (styles: Document | null): Set<number> => {
+  const result = new Set<number>();
+  if (!styles) return result;
+  const customDateFormats = new Set(
+    elements(styles, 'numFmt')
+      // Ignore quoted literals and [colour]/[locale] sections before looking for day/month/year codes.
+      .filter(format => /[dmy]/i.test((format.getAttribute('formatCode') ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '')))
+      .map(format => Number(format.getAttribute('numFmtId')))
+  );
+  const cellXfs = elements(styles, 'cellXfs')[0];
+  if (!cellXfs) return result;
+  elements(cellXfs, 'xf').forEach((xf, index) => {
+    const formatId = Number(xf.getAttribute('numFmtId'));
+    if (BUILT_IN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+      result.add(index);
+    }
+  });
+  return result;
+};
+
+/** Excel serial day number (1900 date system) to `YYYY-MM-DD`. */
+export const serialToIsoDate = (serial: number) =>
+  new Date(Math.round((serial - 25569) * 86_400_000)).toISOString().slice(0, 10);
+
+/** Path of the workbook's first sheet, following the workbook relationships. */
+const firstSheetPath = (workbook: Document | null, rels: Document | null) => {
+  const sheet = workbook ? elements(workbook, 'sheet')[0] : undefined;
+  const relationId = sheet?.getAttributeNS(RELATIONSHIP_NS, 'id');
+  const target = rels && relationId
+    ? Array.from(rels.getElementsByTagName('Relationship')).find(r => r.getAttribute('Id') === relationId)?.getAttribute('Target')
+    : null;
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Reads the first sheet of an .xlsx workbook into rows of display strings.
+ * Date-formatted cells come back as `YYYY-MM-DD`; formulas as their last computed value.
+ */
+export const readXlsx = async (bytes: Uint8Array): Promise<string[][]> => {
+  const files = await readZip(bytes);
+  const workbook = parseXml(files.get('xl/workbook.xml'));
+  const sheet = parseXml(files.get(firstSheetPath(workbook, parseXml(files.get('xl/_rels/workbook.xml.rels')))));
+  if (!sheet) {
+    throw new Error('The workbook does not contain a worksheet.');
+  }
+
+  const sharedStringsXml = parseXml(files.get('xl/sharedStrings.xml'));
+  const sharedStrings = sharedStringsXml ? elements(sharedStringsXml, 'si').map(stringText) : [];
+  const dates = dateStyles(parseXml(files.get('xl/styles.xml')));
+
+  const rows: string[][] = [];
+  elements(sheet, 'row').forEach((rowElement, position) => {
+    const rowNumber = Number(rowElement.getAttribute('r')) || position + 1;
+    const row: string[] = [];
+    elements(rowElement, 'c').forEach((cell, cellPosition) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : cellPosition;
+      const type = cell.getAttribute('t');
+      const raw = elements(cell, 'v')[0]?.textContent ?? '';
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[Number(raw)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = stringText(cell);
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else if (raw !== '' && type !== 'str' && type !== 'e' && dates.has(Number(cell.getAttribute('s')))) {
+        value = serialToIsoDate(Number(raw));
+      } else {
+        value = raw;
+      }
+      row[index] = value;
+    });
+    rows[rowNumber - 1] = Array.from(row, cell => cell ?? '');
+  });
+  return Array.from(rows, row => row ?? []);
+};
@@ -0,0 +1,99 @@
+import { AuditEntry } from './api';
+import { ExportTable } from './export';
+import { t } from './i18n';
+import { balanceKey, movementSign, VOIDED_MOVEMENT } from './ledger';
+import { StockRecord } from './sheetRecords';
+
+/** One movement of an item, with what was on hand right after it. */
+export interface ItemHistoryEntry {
+  record: StockRecord;
+  /** Signed quantity the movement added; 0 for voided rows and rows the ledger can't count. */
+  change: number;
+  /** On hand per status after this movement. */
+  statusBalances: Record<string, number>;
+  /** On hand across all statuses after this movement. */
+  balance: number;
+  /** Corrections made to this row after it was recorded, oldest first. */
+  corrections: AuditEntry[];
+}
+
+export interface ItemHistory {
+  equipment: string;
+  model: string;
+  /** Statuses the item has been recorded in, in order of first appearance. */
+  statuses: string[];
+  entries: ItemHistoryEntry[];
+}
+
+const itemKey = (equipment: string, model: string) => balanceKey(equipment, model, '');
+
+/**
+ * Every movement of one equipment/model in a stock sheet, in sheet order, with running balances.
+ * Sheet order is the order rows were appended, which is what the balance follows even when a row's
+ * date was backfilled.
+ */
+export const buildItemHistory = (records: StockRecord[], equipment: string, model: string, auditLog: AuditEntry[] = []): ItemHistory => {
+  const key = itemKey(equipment, model);
+  const statuses: string[] = [];
+  const statusBalances: Record<string, number> = {};
+  let balance = 0;
+
+  const entries = records
+    .filter(record => itemKey(record.type, record.model) === key)
+    .map((record): ItemHistoryEntry => {
+      const sign = movementSign(record.addOrUse);
+      const change = sign === 0 || record.quantity === null ? 0 : sign * record.quantity;
+      if (!statuses.includes(record.status)) statuses.push(record.status);
+      statusBalances[record.status] = (statusBalances[record.status] ?? 0) + change;
+      balance += change;
+      return {
+        record,
+        change,
+        statusBalances: { ...statusBalances },
+        balance,
+        corrections: auditLog
+          .filter(entry => entry.sheetRow === record.sheetRow)
+          .sort((a, b) => a.editedAt.localeCompare(b.editedAt)),
+      };
+    });
+
+  return { equipment, model, statuses, entries };
+};
+
+export const isVoidedEntry = (entry: ItemHistoryEntry) => entry.record.addOrUse === VOIDED_MOVEMENT;
+
+/** The timeline as a table: one row per movement, a balance column per status and the total. */
+export const itemHistoryTable = (history: ItemHistory): ExportTable => ({
+  title: `${history.equipment} ${history.model}`.trim(),
+  headerRows: [[
+    t('entry.date'),
+    t('history.timestamp'),
+    t('entry.addOrUse'),
+    t('history.quantity'),
+    t('entry.status'),
+    t('entry.recordBy'),
+    t('transfers.id'),
+    t('tests.id'),
+    t('history.reference'),
+    ...history.statuses.map(status => t('history.onHandStatus', { status })),
+    t('history.onHandTotal'),
+    t('history.corrections'),
+  ]],
+  bodyRows: history.entries.map(entry => [
+    entry.record.date,
+    entry.record.timestamp,
+    entry.record.addOrUse,
+    entry.record.quantity === null ? '' : String(entry.record.quantity),
+    entry.record.status,
+    entry.record.recordBy,
+    entry.record.transferId,
+    entry.record.testId,
+    entry.record.reference,
+    ...history.statuses.map(status => String(entry.statusBalances[status] ?? 0)),
+    String(entry.balance),
+    entry.corrections
+      .map(correction => `${t(correction.action === 'void' ? 'audit.voidedBy' : 'audit.correctedBy', { name: correction.editedBy })}: ` +
+        correction.changes.map(change => `${change.field} "${change.oldValue}" → "${change.newValue}"`).join(', '))
+      .join('; '),
+  ]),
+});
@@ -0,0 +1,69 @@
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import { Area, SheetDataType } from '../types';
+import { areaConfig, vendorForDataType } from './areaRegistry';
+import { buildPath, entryFormView, parseLocation, resolveView, Route } from './routing';
+
+/** What a shelf or spare-part label identifies: an item of one area's stock. */
+export interface StockLabel {
+  area: Area;
+  /** The stock the item belongs to; picks the vendor's entry form in areas with several vendors. */
+  dataType: SheetDataType;
+  equipment: string;
+  model: string;
+}
+
+/** The entry form of a label's stock, prefilled with its equipment and model. */
+export const labelRoute = (label: StockLabel): Route => {
+  const vendor = vendorForDataType(label.area, label.dataType) ?? areaConfig(label.area).vendors[0];
+  return {
+    area: label.area,
+    view: entryFormView(label.area, vendor),
+    filters: { equipment: label.equipment, model: label.model },
+  };
+};
+
+/**
+ * Labels encode a link to the prefilled entry form. A phone camera opens it directly,
+ * and a keyboard-wedge scanner types it into the form's scan field.
+ */
+export const labelPayload = (label: StockLabel, origin = window.location.origin) =>
+  origin + buildPath(labelRoute(label));
+
+/** Reads a scanned label back into the entry-form route it points to; null if it isn't one of ours. */
+export const parseLabelPayload = (text: string): Route | null => {
+  let url: URL;
+  try {
+    url = new URL(text.trim(), window.location.origin);
+  } catch {
+    return null;
+  }
+  const route = parseLocation(url);
+  return route.area && resolveView(route.area, route.view).kind === 'entry_form' && route.filters.equipment ? route : null;
+};
+
+/** QR code of a label as an SVG data URL, crisp at any print size. */
+export const labelQrDataUrl = async (label: StockLabel): Promise<string> => {
+  const svg = await QRCode.toString(labelPayload(label), { type: 'svg', errorCorrectionLevel: 'M', margin: 1 });
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+/** Photos from phone cameras are large; QR codes decode just as well from a smaller copy. */
+const MAX_DECODE_SIZE = 1280;
+
+/** Finds and decodes a QR code in a photo; resolves to null when there is none. */
+export const decodeQrFromImage = async (file: Blob): Promise<string | null> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('This browser cannot read images.');
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  return jsQR(image.data, image.width, image.height)?.data ?? null;
+};
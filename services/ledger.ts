@@ -0,0 +1,107 @@
+import { Area } from '../types';
+import { StockRecord } from './sheetRecords';
+
+/** On-hand quantity of one equipment/model in one status, in one area. */
+export interface StockBalance {
+  area: Area;
+  equipment: string;
+  model: string;
+  status: string;
+  quantity: number;
+  /** Number of Add/Use movements folded into this balance. */
+  movements: number;
+}
+
+/** A movement as the ledger sees it; both sheet records and not-yet-synced entries fit this shape. */
+export interface Movement {
+  equipment: string;
+  model: string;
+  status: string;
+  addOrUse: string;
+  quantity: number | null;
+}
+
+export type BalanceSheet = Map<string, StockBalance>;
+
+/** Status of items that are on the shelf and usable right away. */
+export const READY_STATUS = 'พร้อมใช้';
+/** Status of items that are on the shelf but have to be tested before use. */
+export const TEST_PENDING_STATUS = 'รอ test';
+/** Status of items that failed their test and can't be used. */
+export const SCRAP_STATUS = 'เสีย';
+/** Status of items that failed their test and go back to the vendor. */
+export const RETURN_STATUS = 'ส่งคืน';
+
+const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/** Key under which a balance is stored; case and spacing differences don't split an item's stock. */
+export const balanceKey = (equipment: string, model: string, status: string) =>
+  [normalize(equipment), normalize(model), normalize(status)].join('\u0000');
+
+/** Add/Use value of a movement that was voided after the fact; it no longer counts towards any balance. */
+export const VOIDED_MOVEMENT = 'Void';
+
+/** +1 for Add, -1 for Use, 0 for voided movements and anything else the ledger doesn't understand. */
+export const movementSign = (addOrUse: string) => {
+  const value = normalize(addOrUse);
+  if (value === 'add') return 1;
+  if (value === 'use') return -1;
+  return 0;
+};
+
+export const recordToMovement = (record: StockRecord): Movement => ({
+  equipment: record.type,
+  model: record.model,
+  status: record.status,
+  addOrUse: record.addOrUse,
+  quantity: record.quantity,
+});
+
+/**
+ * Folds a movement history into the current balance per equipment × model × status.
+ * Rows without a recognizable Add/Use or a numeric quantity are skipped.
+ */
+export const foldMovements = (area: Area, movements: Movement[], into: BalanceSheet = new Map()): BalanceSheet => {
+  const balances: BalanceSheet = new Map(into);
+  movements.forEach(movement => {
+    const sign = movementSign(movement.addOrUse);
+    if (sign === 0 || movement.quantity === null || !movement.equipment) return;
+
+    const key = balanceKey(movement.equipment, movement.model, movement.status);
+    const current = balances.get(key) ?? {
+      area,
+      equipment: movement.equipment.trim(),
+      model: movement.model.trim(),
+      status: movement.status.trim(),
+      quantity: 0,
+      movements: 0,
+    };
+    balances.set(key, { ...current, quantity: current.quantity + sign * movement.quantity, movements: current.movements + 1 });
+  });
+  return balances;
+};
+
+export const getBalance = (balances: BalanceSheet, equipment: string, model: string, status: string) =>
+  balances.get(balanceKey(equipment, model, status))?.quantity ?? 0;
+
+/**
+ * Total on hand for an equipment in one status, across all its models when `model` is blank.
+ */
+export const getEquipmentBalance = (balances: BalanceSheet, equipment: string, model: string, status: string) => {
+  if (model.trim()) {
+    return getBalance(balances, equipment, model, status);
+  }
+  let total = 0;
+  balances.forEach(balance => {
+    if (normalize(balance.equipment) === normalize(equipment) && normalize(balance.status) === normalize(status)) {
+      total += balance.quantity;
+    }
+  });
+  return total;
+};
+
+/** Balances sorted for display: by equipment, then model, then status. */
+export const sortedBalances = (balances: BalanceSheet): StockBalance[] =>
+  [...balances.values()].sort((a, b) =>
+    a.equipment.localeCompare(b.equipment) || a.model.localeCompare(b.model) || a.status.localeCompare(b.status)
+  );
@@ -0,0 +1,84 @@
+/**
+ * Minimal promise wrapper around the browser's IndexedDB, used for data that must survive
+ * reloads and connectivity loss on the plant tablets.
+ * Falls back to an in-memory store when IndexedDB is unavailable or stops working (e.g. some private
+ * browsing modes, a full quota, a blocked version change).
+ */
+
+const DB_NAME = 'invengo';
+const DB_VERSION = 1;
+
+/** Every object store in the database; all are keyed by their records' `id`. */
+const STORE_NAMES = ['submissions'] as const;
+
+export type StoreName = typeof STORE_NAMES[number];
+
+export interface KeyValueStore<T extends { id: string }> {
+  getAll(): Promise<T[]>;
+  put(record: T): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORE_NAMES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createMemoryStore = <T extends { id: string }>(): KeyValueStore<T> => {
+  const records = new Map<string, T>();
+  return {
+    getAll: async () => [...records.values()],
+    put: async record => { records.set(record.id, record); },
+    delete: async id => { records.delete(id); },
+  };
+};
+
+export const openStore = <T extends { id: string }>(storeName: StoreName): KeyValueStore<T> => {
+  const memoryFallback = createMemoryStore<T>();
+  // Once IndexedDB has failed, the store stays in memory so reads see the writes that came after.
+  let inMemory = false;
+
+  const withStore = async <R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>, fallback: () => Promise<R>): Promise<R> => {
+    if (inMemory) return fallback();
+    try {
+      const db = await openDb();
+      return await promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+    } catch (err) {
+      console.warn(`IndexedDB unavailable, keeping "${storeName}" in memory only:`, err);
+      inMemory = true;
+      return fallback();
+    }
+  };
+
+  return {
+    getAll: () => withStore('readonly', store => store.getAll() as IDBRequest<T[]>, () => memoryFallback.getAll()),
+    put: record => withStore<IDBValidKey | void>('readwrite', store => store.put(record), () => memoryFallback.put(record)).then(() => undefined),
+    delete: id => withStore('readwrite', store => store.delete(id), () => memoryFallback.delete(id)),
+  };
+};
@@ -0,0 +1,64 @@
+import { EquipmentRow } from './sheetRecords';
+
+export type SortDirection = 'asc' | 'desc';
+
+/** Sort of the equipment matrix: by one sheet column, or by the row totals. */
+export interface MatrixSort {
+  column: number | 'total';
+  direction: SortDirection;
+}
+
+/** Sum of a row's quantities in the given columns; blank and text cells count as zero. */
+export const rowTotal = (row: EquipmentRow, columns: number[]) =>
+  columns.reduce((sum, column) => sum + (row.quantities[column] ?? 0), 0);
+
+/** Sum of each given column over the rows, keyed by column index. */
+export const columnTotals = (rows: EquipmentRow[], columns: number[]): Map<number, number> =>
+  new Map(columns.map(column => [column, rows.reduce((sum, row) => sum + (row.quantities[column] ?? 0), 0)]));
+
+/**
+ * Sorts matrix rows. Columns that hold numbers compare numerically, others as text
+ * (numeric-aware, so "FL-2" sorts before "FL-10"). Empty cells always go last.
+ */
+export const sortMatrixRows = (rows: EquipmentRow[], sort: MatrixSort | null, quantityColumns: number[]): EquipmentRow[] => {
+  if (!sort) return rows;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  const { column } = sort;
+
+  const keyOf = (row: EquipmentRow): number | string | null => {
+    if (column === 'total') return rowTotal(row, quantityColumns);
+    const quantity = row.quantities[column];
+    if (quantity !== null && quantity !== undefined) return quantity;
+    const text = String(row.cells[column] ?? '').trim();
+    return text === '' ? null : text;
+  };
+
+  return rows
+    .map((row, index) => ({ row, index, key: keyOf(row) }))
+    .sort((a, b) => {
+      if (a.key === null || b.key === null) {
+        return a.key === b.key ? a.index - b.index : a.key === null ? 1 : -1;
+      }
+      const compared = typeof a.key === 'number' && typeof b.key === 'number'
+        ? a.key - b.key
+        : String(a.key).localeCompare(String(b.key), undefined, { numeric: true, sensitivity: 'base' });
+      // Ties keep the sheet order.
+      return compared * factor || a.index - b.index;
+    })
+    .map(({ row }) => row);
+};
+
+/**
+ * Next sort after clicking a column header: quantity columns start with the largest first,
+ * text columns A to Z; the third click goes back to sheet order.
+ */
+export const nextSort = (current: MatrixSort | null, column: MatrixSort['column'], isQuantity: boolean): MatrixSort | null => {
+  const first: SortDirection = isQuantity ? 'desc' : 'asc';
+  if (!current || current.column !== column) return { column, direction: first };
+  if (current.direction === first) return { column, direction: first === 'asc' ? 'desc' : 'asc' };
+  return null;
+};
+
+/** Share of the largest visible quantity, 0 to 1, used for heat-map shading. */
+export const heatLevel = (value: number | null | undefined, max: number) =>
+  value && value > 0 && max > 0 ? value / max : 0;
@@ -0,0 +1,78 @@
+import { BalanceSheet } from './ledger';
+
+/** A model already recorded for an equipment, with how many movements use that spelling. */
+export interface KnownModel {
+  model: string;
+  movements: number;
+}
+
+const sameEquipment = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Removes surrounding spaces and collapses runs of spaces, e.g. " EJA  530E " → "EJA 530E". */
+export const cleanModel = (raw: string) => raw.trim().replace(/\s+/g, ' ');
+
+/**
+ * What two spellings of one model have in common: case, spaces and separators ignored,
+ * so "EJA 530E", "eja530e" and "EJA-530E" all compare equal.
+ */
+export const modelKey = (model: string) => model.toLowerCase().replace(/[\s\-_./]+/g, '');
+
+/** Models recorded for `equipment` in a stock sheet (all equipment when blank), most used first. */
+export const knownModels = (balances: BalanceSheet | null, equipment: string): KnownModel[] => {
+  if (!balances) return [];
+  const byKey = new Map<string, KnownModel>();
+  balances.forEach(balance => {
+    if (!balance.model || (equipment && !sameEquipment(balance.equipment, equipment))) return;
+    const key = modelKey(balance.model);
+    const known = byKey.get(key);
+    // The spelling with more movements behind it wins.
+    if (!known || balance.movements > known.movements) {
+      byKey.set(key, { model: balance.model, movements: balance.movements + (known?.movements ?? 0) });
+    } else {
+      known.movements += balance.movements;
+    }
+  });
+  return [...byKey.values()].sort((a, b) => b.movements - a.movements || a.model.localeCompare(b.model));
+};
+
+/** The typed model, cleaned, and spelled like the known model it matches when there is one. */
+export const normalizeModel = (raw: string, known: KnownModel[]) => {
+  const cleaned = cleanModel(raw);
+  const key = modelKey(cleaned);
+  return known.find(candidate => modelKey(candidate.model) === key)?.model ?? cleaned;
+};
+
+/** Levenshtein distance, giving up once it exceeds `limit`. */
+const editDistance = (a: string, b: string, limit: number) => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...current) > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * A known model the typed one is probably a typo of: one character off, or two for longer models.
+ * Null when the model is already known or nothing is close.
+ */
+export const similarModel = (raw: string, known: KnownModel[]): string | null => {
+  const key = modelKey(raw);
+  if (key.length < 3 || known.some(candidate => modelKey(candidate.model) === key)) return null;
+  const limit = key.length >= 8 ? 2 : 1;
+  let best: string | null = null;
+  let bestDistance = limit + 1;
+  for (const candidate of known) {
+    const distance = editDistance(key, modelKey(candidate.model), limit);
+    if (distance < bestDistance) {
+      best = candidate.model;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
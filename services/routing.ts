@@ -0,0 +1,122 @@
+import { Area, SheetDataType, ViewType } from '../types';
+import { areaBySlug, AreaConfig, areaConfig, VendorConfig } from './areaRegistry';
+
+/** Filter state of a `SheetDataViewer`, as carried in the query string. Absent means "All". */
+export interface ViewFilters {
+  type?: string;
+  area?: string;
+  cabinet?: string;
+  q?: string;
+  /** Column filters, JSON-encoded; see `services/columnFilters`. */
+  cols?: string;
+  /** Prefill of the entry form, e.g. from a scanned stock label. */
+  equipment?: string;
+  model?: string;
+}
+
+export interface Route {
+  area: Area | null;
+  view: ViewType;
+  filters: ViewFilters;
+}
+
+export const HOME_ROUTE: Route = { area: null, view: 'dashboard', filters: {} };
+
+/** URL-safe short name of an area, also used in file names. */
+export const areaSlug = (area: Area) => areaConfig(area).slug;
+
+const FILTER_KEYS: (keyof ViewFilters)[] = ['type', 'area', 'cabinet', 'q', 'cols', 'equipment', 'model'];
+
+/** What a view of an area shows. */
+export type AreaScreen =
+  | { kind: 'dashboard' }
+  | { kind: 'stock'; vendor: VendorConfig }
+  | { kind: 'equipment'; dataType: SheetDataType }
+  | { kind: 'entry_form'; vendor: VendorConfig }
+  | { kind: 'import'; vendor: VendorConfig }
+  | { kind: 'document'; vendor: VendorConfig }
+  | { kind: 'transfers' }
+  | { kind: 'tests' }
+  | { kind: 'analytics' }
+  | { kind: 'reports' };
+
+// The main vendor keeps the unsuffixed view names, so links and printed labels from before vendors
+// were configurable keep working.
+const vendorView = (base: string, config: AreaConfig, vendor: VendorConfig): ViewType =>
+  vendor === config.vendors[0] ? base : `${base}_${vendor.id}`;
+
+export const entryFormView = (area: Area, vendor: VendorConfig) => vendorView('customer_form', areaConfig(area), vendor);
+export const importView = (area: Area, vendor: VendorConfig) => vendorView('customer_import', areaConfig(area), vendor);
+export const documentView = (area: Area, vendor: VendorConfig) => vendorView('customer_document', areaConfig(area), vendor);
+
+/** Every view an area offers, in dashboard order, with what it shows. */
+export const areaScreens = (area: Area): [ViewType, AreaScreen][] => {
+  const config = areaConfig(area);
+  return [
+    ['dashboard', { kind: 'dashboard' }],
+    ...config.vendors.map((vendor): [ViewType, AreaScreen] => [vendor.stockDataType, { kind: 'stock', vendor }]),
+    ...(config.equipmentDataType ? [['equipment', { kind: 'equipment', dataType: config.equipmentDataType }] as [ViewType, AreaScreen]] : []),
+    ...config.vendors.map((vendor): [ViewType, AreaScreen] => [vendorView('customer_form', config, vendor), { kind: 'entry_form', vendor }]),
+    ...config.vendors.map((vendor): [ViewType, AreaScreen] => [vendorView('customer_import', config, vendor), { kind: 'import', vendor }]),
+    ...config.vendors.map((vendor): [ViewType, AreaScreen] => [vendorView('customer_document', config, vendor), { kind: 'document', vendor }]),
+    ['transfers', { kind: 'transfers' }],
+    ['tests', { kind: 'tests' }],
+    ['analytics', { kind: 'analytics' }],
+    ['reports', { kind: 'reports' }],
+  ];
+};
+
+/** Views each area actually offers. */
+export const viewsForArea = (area: Area): ViewType[] => areaScreens(area).map(([view]) => view);
+
+/** What a view shows; views the area doesn't offer show its dashboard. */
+export const resolveView = (area: Area, view: ViewType): AreaScreen =>
+  areaScreens(area).find(([candidate]) => candidate === view)?.[1] ?? { kind: 'dashboard' };
+
+/** The stock views of an area, one per vendor. */
+export const stockViewsForArea = (area: Area): SheetDataType[] =>
+  areaConfig(area).vendors.map(vendor => vendor.stockDataType);
+
+export const areaFromSlug = (slug: string): Area | null => areaBySlug(slug)?.id ?? null;
+
+export const buildPath = (route: Route): string => {
+  if (!route.area) return '/';
+
+  let path = `/${areaSlug(route.area)}`;
+  if (route.view !== 'dashboard') {
+    path += `/${route.view}`;
+  }
+
+  const params = new URLSearchParams();
+  FILTER_KEYS.forEach(key => {
+    const value = route.filters[key];
+    if (value && value !== 'All') {
+      params.set(key, value);
+    }
+  });
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+};
+
+/**
+ * Reads a route from a location. Unknown areas fall back to home and unknown or
+ * unavailable views fall back to the area dashboard, so stale links never dead-end.
+ */
+export const parseLocation = (location: Pick<Location, 'pathname' | 'search'>): Route => {
+  const [areaSlug, viewSegment] = location.pathname.split('/').filter(Boolean);
+  const area = areaSlug ? areaFromSlug(areaSlug) : null;
+  if (!area) return HOME_ROUTE;
+
+  const view = viewsForArea(area).find(v => v === viewSegment) ?? 'dashboard';
+
+  const params = new URLSearchParams(location.search);
+  const filters: ViewFilters = {};
+  FILTER_KEYS.forEach(key => {
+    const value = params.get(key);
+    if (value) {
+      filters[key] = value;
+    }
+  });
+
+  return { area, view, filters };
+};
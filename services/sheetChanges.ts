@@ -0,0 +1,47 @@
+/** A body row as it appeared in one load of a sheet. */
+export interface SheetRowSnapshot {
+  sheetRow: number;
+  cells: string[];
+}
+
+/** What changed in a sheet between two loads, keyed by sheet row. */
+export interface SheetChanges {
+  /** Rows that weren't in the previous load. */
+  addedRows: Set<number>;
+  /** Column indices whose value changed, for rows present in both loads. */
+  changedCells: Map<number, Set<number>>;
+}
+
+export const EMPTY_CHANGES: SheetChanges = { addedRows: new Set(), changedCells: new Map() };
+
+/**
+ * Compares two loads of the same sheet row by row.
+ * Rows are matched by sheet row: stock sheets only append or correct rows in place, so that is stable.
+ * A row inserted mid-way into the equipment matrix shows up as every row below it changing.
+ */
+export const diffSheetRows = (previous: SheetRowSnapshot[], next: SheetRowSnapshot[]): SheetChanges => {
+  const before = new Map(previous.map(row => [row.sheetRow, row.cells]));
+  const addedRows = new Set<number>();
+  const changedCells = new Map<number, Set<number>>();
+
+  next.forEach(row => {
+    const oldCells = before.get(row.sheetRow);
+    if (!oldCells) {
+      addedRows.add(row.sheetRow);
+      return;
+    }
+    const changed = new Set<number>();
+    const width = Math.max(oldCells.length, row.cells.length);
+    for (let column = 0; column < width; column++) {
+      if ((oldCells[column] ?? '') !== (row.cells[column] ?? '')) changed.add(column);
+    }
+    if (changed.size > 0) changedCells.set(row.sheetRow, changed);
+  });
+
+  return { addedRows, changedCells };
+};
+
+export const changedRowCount = (changes: SheetChanges) => changes.addedRows.size + changes.changedCells.size;
+
+export const isCellChanged = (changes: SheetChanges, sheetRow: number, column: number) =>
+  changes.addedRows.has(sheetRow) || !!changes.changedCells.get(sheetRow)?.has(column);
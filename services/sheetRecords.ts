@@ -0,0 +1,232 @@
+import type { SheetData, StockEntryValues } from './api/types';
+
+/**
+ * Declares one logical column of a sheet.
+ * `aliases` are matched case-insensitively against the first header row, so a renamed
+ * header only needs a new alias here instead of a change in every component.
+ */
+export interface ColumnSpec<K extends string> {
+  key: K;
+  label: string;
+  aliases: string[];
+  required?: boolean;
+}
+
+export interface SheetSchema<K extends string> {
+  name: string;
+  headerRowCount: number;
+  columns: ColumnSpec<K>[];
+}
+
+/** Column positions resolved against an actual header row; -1 for optional columns that are absent. */
+export type ColumnIndex<K extends string> = Record<K, number>;
+
+export class SheetSchemaError extends Error {
+  constructor(
+    public readonly schemaName: string,
+    public readonly missingColumns: string[],
+    public readonly foundHeaders: string[],
+  ) {
+    super(
+      `${schemaName}: missing required column${missingColumns.length > 1 ? 's' : ''} ${missingColumns.map(c => `"${c}"`).join(', ')}. ` +
+      `Found headers: ${foundHeaders.filter(Boolean).map(h => `"${h}"`).join(', ') || '(none)'}.`
+    );
+    this.name = 'SheetSchemaError';
+  }
+}
+
+export type StockColumn = 'timestamp' | 'date' | 'type' | 'model' | 'number' | 'addOrUse' | 'status' | 'recordBy' | 'transferId' | 'testId' | 'reference';
+
+export const STOCK_SCHEMA: SheetSchema<StockColumn> = {
+  name: 'Stock sheet',
+  headerRowCount: 1,
+  columns: [
+    { key: 'timestamp', label: 'Timestamp', aliases: ['timestamp'] },
+    { key: 'date', label: 'Date', aliases: ['date'] },
+    { key: 'type', label: 'Type', aliases: ['type', 'equipment'], required: true },
+    { key: 'model', label: 'Model', aliases: ['model'], required: true },
+    { key: 'number', label: 'Number', aliases: ['number', 'quantity', 'qty'], required: true },
+    { key: 'addOrUse', label: 'Add/Use', aliases: ['add/use', 'add / use', 'add or use', 'addoruse'] },
+    { key: 'status', label: 'Status', aliases: ['status'] },
+    { key: 'recordBy', label: 'Record by', aliases: ['record by', 'recordby', 'recorded by'] },
+    { key: 'transferId', label: 'Transfer ID', aliases: ['transfer id', 'transferid', 'transfer'] },
+    { key: 'testId', label: 'Test ID', aliases: ['test id', 'testid'] },
+    { key: 'reference', label: 'Reference', aliases: ['reference', 'ref', 'ref no', 'po', 'po / wo'] },
+  ],
+};
+
+export type EquipmentColumn = 'area' | 'cabinet' | 'description' | 'type';
+
+export const EQUIPMENT_SCHEMA: SheetSchema<EquipmentColumn> = {
+  name: 'Current Equipment sheet',
+  headerRowCount: 4,
+  columns: [
+    { key: 'area', label: 'Area', aliases: ['area'], required: true },
+    { key: 'cabinet', label: 'Cabinet', aliases: ['cabinet'], required: true },
+    { key: 'description', label: 'Description', aliases: ['description'] },
+    { key: 'type', label: 'Type', aliases: ['type'] },
+  ],
+};
+
+/**
+ * What a sheet holds: one vendor's stock movements, or an area's equipment matrix.
+ * Comes from the area registry (see `AreaScreen`), never from the data type's name.
+ */
+export type SheetKind = 'stock' | 'equipment';
+
+export const schemaFor = (kind: SheetKind) =>
+  kind === 'equipment' ? EQUIPMENT_SCHEMA : STOCK_SCHEMA;
+
+const normalizeHeader = (header: string | undefined) =>
+  String(header ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const resolveColumns = <K extends string>(schema: SheetSchema<K>, headerRow: string[]): ColumnIndex<K> => {
+  const normalized = headerRow.map(normalizeHeader);
+  const index = {} as ColumnIndex<K>;
+  const missing: string[] = [];
+
+  schema.columns.forEach(column => {
+    const position = normalized.findIndex(header => column.aliases.includes(header));
+    index[column.key] = position;
+    if (position === -1 && column.required) {
+      missing.push(column.label);
+    }
+  });
+
+  if (missing.length > 0) {
+    throw new SheetSchemaError(schema.name, missing, headerRow);
+  }
+  return index;
+};
+
+/** Parses a quantity cell such as "5", " 1,200 " or "" into a number, or null when it isn't numeric. */
+export const parseQuantity = (cell: string | undefined): number | null => {
+  if (cell === undefined || cell === null) return null;
+  const cleaned = String(cell).replace(/,/g, '').trim();
+  if (cleaned === '') return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+};
+
+export interface StockRecord {
+  /** Zero-based position of the row in the sheet, header rows included. */
+  sheetRow: number;
+  /** Raw cells in sheet order, for rendering. */
+  cells: string[];
+  timestamp: string;
+  date: string;
+  type: string;
+  model: string;
+  quantity: number | null;
+  addOrUse: string;
+  status: string;
+  recordBy: string;
+  /** Set on both legs of an inter-area transfer. */
+  transferId: string;
+  /** Set on both legs of a test result: out of "waiting for test", into the result status. */
+  testId: string;
+  /** PO, work order or other document the movement was entered from, shared by its lines. */
+  reference: string;
+}
+
+export interface StockSheet {
+  headers: string[];
+  columns: ColumnIndex<StockColumn>;
+  records: StockRecord[];
+}
+
+const cellAt = (row: string[], index: number) => (index === -1 ? '' : String(row[index] ?? '').trim());
+
+export const parseStockSheet = (data: SheetData): StockSheet => {
+  const headers = data[0] || [];
+  const columns = resolveColumns(STOCK_SCHEMA, headers);
+  const records = data.slice(STOCK_SCHEMA.headerRowCount).map((row, i): StockRecord => ({
+    sheetRow: i + STOCK_SCHEMA.headerRowCount,
+    cells: row,
+    timestamp: cellAt(row, columns.timestamp),
+    date: cellAt(row, columns.date),
+    type: cellAt(row, columns.type),
+    model: cellAt(row, columns.model),
+    quantity: parseQuantity(row[columns.number]),
+    addOrUse: cellAt(row, columns.addOrUse),
+    status: cellAt(row, columns.status),
+    recordBy: cellAt(row, columns.recordBy),
+    transferId: cellAt(row, columns.transferId),
+    testId: cellAt(row, columns.testId),
+    reference: cellAt(row, columns.reference),
+  }));
+  return { headers, columns, records };
+};
+
+/** The editable fields of a movement, exactly as they are written in the sheet. */
+export const stockEntryValues = (record: StockRecord, columns: ColumnIndex<StockColumn>): StockEntryValues => ({
+  date: cellAt(record.cells, columns.date),
+  equipment: cellAt(record.cells, columns.type),
+  model: cellAt(record.cells, columns.model),
+  number: cellAt(record.cells, columns.number),
+  addOrUse: cellAt(record.cells, columns.addOrUse),
+  status: cellAt(record.cells, columns.status),
+  recordBy: cellAt(record.cells, columns.recordBy),
+});
+
+export interface EquipmentRow {
+  area: string;
+  cabinet: string;
+  description: string;
+  type: string;
+  /** Zero-based row index in the sheet, header rows included. */
+  sheetRow: number;
+  /** Cells in display order (Area, Cabinet, Description, then equipment columns). */
+  cells: string[];
+  /** Numeric value of every cell, null where the cell isn't a number. */
+  quantities: (number | null)[];
+}
+
+export interface EquipmentMatrix {
+  /** The multi-row header, already in display order. */
+  headerRows: string[][];
+  columns: ColumnIndex<EquipmentColumn>;
+  /** Index of the first equipment (quantity) column. */
+  firstQuantityColumn: number;
+  rows: EquipmentRow[];
+}
+
+/**
+ * Moves the Cabinet column so it sits directly after Area.
+ * The matrix is rendered with both as sticky left columns, which only works when they're adjacent.
+ */
+const moveCabinetNextToArea = (data: SheetData, areaIndex: number, cabinetIndex: number): SheetData => {
+  if (cabinetIndex === areaIndex + 1) {
+    return data;
+  }
+  return data.map(row => {
+    const cabinetValue = row[cabinetIndex];
+    const rowWithoutCabinet = row.filter((_, index) => index !== cabinetIndex);
+    const newAreaIndex = cabinetIndex < areaIndex ? areaIndex - 1 : areaIndex;
+    rowWithoutCabinet.splice(newAreaIndex + 1, 0, cabinetValue);
+    return rowWithoutCabinet;
+  });
+};
+
+export const parseEquipmentMatrix = (data: SheetData): EquipmentMatrix => {
+  const original = resolveColumns(EQUIPMENT_SCHEMA, data[0] || []);
+  const ordered = moveCabinetNextToArea(data, original.area, original.cabinet);
+  const columns = resolveColumns(EQUIPMENT_SCHEMA, ordered[0]);
+
+  const rows = ordered.slice(EQUIPMENT_SCHEMA.headerRowCount).map((row, i): EquipmentRow => ({
+    area: cellAt(row, columns.area),
+    cabinet: cellAt(row, columns.cabinet),
+    description: cellAt(row, columns.description),
+    type: cellAt(row, columns.type),
+    sheetRow: i + EQUIPMENT_SCHEMA.headerRowCount,
+    cells: row,
+    quantities: row.map(parseQuantity),
+  }));
+
+  return {
+    headerRows: ordered.slice(0, EQUIPMENT_SCHEMA.headerRowCount),
+    columns,
+    firstQuantityColumn: Math.max(columns.area, columns.cabinet, columns.description) + 1,
+    rows,
+  };
+};
@@ -0,0 +1,40 @@
+import { Area } from '../types';
+import { AddOrUse, StockDocumentLine } from './api';
+import { BalanceSheet, foldMovements, getBalance } from './ledger';
+import { t } from './i18n';
+
+/** A line of the document form as typed, plus what the backend said if it refused the line. */
+export interface DocumentLineDraft extends StockDocumentLine {
+  id: number;
+  error?: string;
+}
+
+/** Lines left completely empty are dropped rather than reported. */
+export const isBlankLine = (line: StockDocumentLine) => !line.equipment && !line.model.trim() && !line.number.trim();
+
+/**
+ * What is wrong with each line before the document is sent, or null for lines that are fine.
+ * Use lines are checked against the balances in document order, so two lines can't both take
+ * the last item on the shelf.
+ */
+export const documentLineProblems = (
+  area: Area,
+  lines: StockDocumentLine[],
+  addOrUse: AddOrUse,
+  balances: BalanceSheet | null,
+): (string | null)[] => {
+  let running = balances;
+  return lines.map(line => {
+    if (isBlankLine(line)) return null;
+    if (!line.equipment) return t('import.error.equipmentMissing');
+    if (!line.model.trim()) return t('import.error.modelMissing');
+    const quantity = Number(line.number);
+    if (!line.number.trim() || !Number.isFinite(quantity) || quantity <= 0) return t('import.error.quantity', { value: line.number });
+    if (addOrUse === 'Use' && running) {
+      const onHand = getBalance(running, line.equipment, line.model, line.status);
+      if (quantity > onHand) return t('import.error.exceedsBalance', { quantity: onHand, model: line.model, status: line.status });
+      running = foldMovements(area, [{ ...line, addOrUse, quantity }], running);
+    }
+    return null;
+  });
+};
@@ -0,0 +1,193 @@
+import { Area } from '../types';
+import type { DropdownOptions, StockEntryField, StockEntryInput } from './api/types';
+import { BalanceSheet, foldMovements, getBalance, movementSign } from './ledger';
+import { entryStatuses, EntryTarget, formatSheetDate, MONTH_NAMES } from './entryTargets';
+import { knownModels, normalizeModel } from './modelNames';
+import { parseQuantity, STOCK_SCHEMA, StockColumn } from './sheetRecords';
+import { serialToIsoDate } from './import/xlsx';
+import { localeStore, MessageKey, statusLabel, t } from './i18n';
+
+/** Entry fields read from an imported file; "Record by" is always the signed-in user. */
+export type ImportField = Exclude<StockEntryField, 'recordBy'>;
+
+/** Column of the imported file feeding each entry field; -1 when the field isn't in the file. */
+export type ColumnMapping = Record<ImportField, number>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: MessageKey; required: boolean }[] = [
+  { field: 'date', label: 'entry.date', required: false },
+  { field: 'equipment', label: 'entry.equipment', required: true },
+  { field: 'model', label: 'entry.model', required: true },
+  { field: 'number', label: 'entry.number', required: true },
+  { field: 'addOrUse', label: 'entry.addOrUse', required: true },
+  { field: 'status', label: 'entry.status', required: false },
+];
+
+/** Entry fields are named after the form; the sheet calls the equipment column "Type". */
+const FIELD_COLUMNS: Record<ImportField, StockColumn> = {
+  date: 'date',
+  equipment: 'type',
+  model: 'model',
+  number: 'number',
+  addOrUse: 'addOrUse',
+  status: 'status',
+};
+
+const normalize = (value: string | undefined) => String(value ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/** Maps columns by the same header aliases the stock sheets are read with, so an exported stock sheet imports as is. */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalize);
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const spec = STOCK_SCHEMA.columns.find(column => column.key === FIELD_COLUMNS[field]);
+    mapping[field] = spec ? normalized.findIndex(header => spec.aliases.includes(header)) : -1;
+  });
+  return mapping;
+};
+
+/** Values used for a row whose cell is blank or whose column isn't mapped. */
+export interface ImportDefaults {
+  /** `YYYY-MM-DD` */
+  date: string;
+  status: string;
+}
+
+/** A data row of the imported file. */
+export interface SourceRow {
+  /** One-based row number in the file, as a spreadsheet shows it. */
+  line: number;
+  cells: string[];
+}
+
+const isBlankRow = (cells: string[]) => cells.every(cell => String(cell ?? '').trim() === '');
+
+/** Splits a file into its header (the first non-blank row) and the non-blank rows below it. */
+export const splitImportFile = (rows: string[][]): { headers: string[]; rows: SourceRow[] } => {
+  const headerIndex = rows.findIndex(cells => !isBlankRow(cells));
+  if (headerIndex === -1) return { headers: [], rows: [] };
+  return {
+    headers: rows[headerIndex].map(cell => String(cell ?? '').trim()),
+    rows: rows
+      .map((cells, index) => ({ line: index + 1, cells }))
+      .slice(headerIndex + 1)
+      .filter(row => !isBlankRow(row.cells)),
+  };
+};
+
+export interface ImportRow {
+  /** One-based row number in the file, as a spreadsheet shows it. */
+  line: number;
+  /** The entry to submit; null when the row has errors. */
+  entry: StockEntryInput | null;
+  errors: string[];
+}
+
+/**
+ * Reads the dates people actually type: `2025-10-28`, `28/10/2025` (day first, Buddhist years
+ * allowed), `28/Oct/2025` and Excel serial numbers. Returns `YYYY-MM-DD`, or null if unreadable.
+ */
+export const parseImportDate = (value: string): string | null => {
+  const text = value.trim();
+  const iso = (year: number, month: number, day: number) => {
+    const fullYear = year > 2400 ? year - 543 : year;
+    const date = new Date(Date.UTC(fullYear, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date.toISOString().slice(0, 10) : null;
+  };
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return iso(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) return iso(Number(match[3]), Number(match[2]), Number(match[1]));
+
+  match = text.match(/^(\d{1,2})[/ -]([A-Za-z]{3})[A-Za-z]*[/ -](\d{4})$/);
+  if (match) {
+    const month = MONTH_NAMES.findIndex(name => name.toLowerCase() === match![2].toLowerCase());
+    return month === -1 ? null : iso(Number(match[3]), month + 1, Number(match[1]));
+  }
+
+  const serial = Number(text);
+  if (/^\d+(\.\d+)?$/.test(text) && serial > 20000 && serial < 80000) {
+    return serialToIsoDate(serial);
+  }
+  return null;
+};
+
+interface ValidationContext {
+  area: Area;
+  target: EntryTarget;
+  options: DropdownOptions;
+  defaults: ImportDefaults;
+  /** The signed-in user, who records every imported row. */
+  recordBy: string;
+  /** Current on-hand balances; when given, a Use may not take more than is on the shelf. */
+  balances: BalanceSheet | null;
+}
+
+/**
+ * Checks every data row of an imported file and turns the valid ones into stock entries.
+ * Rows are validated in file order against a running balance, so a Use may consume what an
+ * earlier row of the same file adds.
+ */
+export const validateImportRows = (
+  rows: SourceRow[],
+  mapping: ColumnMapping,
+  { area, target, options, defaults, recordBy, balances }: ValidationContext,
+): ImportRow[] => {
+  const equipmentByName = new Map(options.equipment.map(name => [normalize(name), name]));
+  const statuses = entryStatuses(options);
+  const statusByName = new Map(statuses.map(name => [normalize(name), name]));
+  let running = balances;
+
+  return rows.map(({ line, cells }): ImportRow => {
+    const cell = (field: ImportField) => (mapping[field] === -1 ? '' : String(cells[mapping[field]] ?? '').trim());
+    const errors: string[] = [];
+
+    const rawDate = cell('date');
+    const isoDate = rawDate ? parseImportDate(rawDate) : defaults.date;
+    if (!isoDate) errors.push(t('import.error.date', { value: rawDate }));
+
+    const equipment = equipmentByName.get(normalize(cell('equipment')));
+    if (!cell('equipment')) errors.push(t('import.error.equipmentMissing'));
+    else if (!equipment) errors.push(t('import.error.equipmentUnknown', { value: cell('equipment') }));
+
+    // Spelled like the sheet already spells it, so "eja 530e" doesn't start a stock of its own.
+    const model = normalizeModel(cell('model'), equipment ? knownModels(running, equipment) : []);
+    if (!model) errors.push(t('import.error.modelMissing'));
+
+    const quantity = parseQuantity(cell('number'));
+    if (quantity === null || quantity <= 0) errors.push(t('import.error.quantity', { value: cell('number') }));
+
+    const sign = movementSign(cell('addOrUse'));
+    if (sign === 0) errors.push(t('import.error.addOrUse', { value: cell('addOrUse') }));
+
+    const rawStatus = cell('status') || defaults.status;
+    const status = statusByName.get(normalize(rawStatus));
+    if (!status) errors.push(t('import.error.status', { value: rawStatus }));
+
+    if (errors.length === 0 && sign < 0 && running) {
+      const onHand = getBalance(running, equipment!, model, status!);
+      if (quantity! > onHand) errors.push(t('import.error.exceedsBalance', { quantity: onHand, model, status: statusLabel(localeStore.current(), status!) }));
+    }
+
+    if (errors.length > 0) {
+      return { line, entry: null, errors };
+    }
+
+    const entry: StockEntryInput = {
+      area,
+      sheetName: target.sheetName,
+      date: formatSheetDate(isoDate!),
+      equipment: equipment!,
+      model,
+      number: String(quantity),
+      addOrUse: sign > 0 ? 'Add' : 'Use',
+      status: status!,
+      recordBy,
+    };
+    if (running) {
+      running = foldMovements(area, [{ ...entry, quantity }], running);
+    }
+    return { line, entry, errors };
+  });
+};
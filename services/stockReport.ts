@@ -0,0 +1,100 @@
+import { Area } from '../types';
+import { VendorConfig } from './areaRegistry';
+import { monthsEndingAt } from './consumption';
+import { foldMovements, movementSign, recordToMovement, RETURN_STATUS, SCRAP_STATUS, StockBalance } from './ledger';
+import { StockRecord } from './sheetRecords';
+import { parseImportDate } from './stockImport';
+import { pendingTests } from './stockTests';
+
+/** Stock of one equipment type over the month. `closing = opening + added - used - failed`. */
+export interface StockReportLine {
+  equipment: string;
+  opening: number;
+  added: number;
+  used: number;
+  /** Taken off the shelf by failed tests (scrapped or returned to the vendor). */
+  failed: number;
+  closing: number;
+}
+
+export type StockReportTotals = Omit<StockReportLine, 'equipment'>;
+
+export interface StockReport {
+  area: Area;
+  vendor: VendorConfig;
+  /** `YYYY-MM`. */
+  month: string;
+  lines: StockReportLine[];
+  totals: StockReportTotals;
+  /** Items still waiting for test at the end of the month. */
+  waitingForTest: StockBalance[];
+  /** Movements left out because neither their Date nor their Timestamp could be read. */
+  undatedRows: number;
+}
+
+/** Failed items are written off; every other status is stock on the shelf. */
+const OFF_SHELF_STATUSES = [SCRAP_STATUS, RETURN_STATUS];
+const isOnShelf = (status: string) => !OFF_SHELF_STATUSES.includes(status.trim());
+
+const equipmentKey = (equipment: string) => equipment.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const recordDate = (record: StockRecord) => parseImportDate(record.date) ?? parseImportDate(record.timestamp.slice(0, 10));
+
+/**
+ * Builds the monthly report of one vendor's stock sheet from its movements.
+ * Transfers count as stock added to or used from the area. Both legs of a test result carry a test
+ * ID: a passed test only changes status on the shelf and cancels out, a failed one counts as failed.
+ */
+export const buildStockReport = (area: Area, vendor: VendorConfig, month: string, records: StockRecord[]): StockReport => {
+  const { from, to } = monthsEndingAt(`${month}-01`, 1);
+  const lines = new Map<string, StockReportLine>();
+  const upToMonthEnd: StockRecord[] = [];
+  let undatedRows = 0;
+
+  records.forEach(record => {
+    const sign = movementSign(record.addOrUse);
+    if (sign === 0 || record.quantity === null || !record.type) return;
+    const date = recordDate(record);
+    if (!date) {
+      undatedRows++;
+      return;
+    }
+    if (date > to) return;
+    upToMonthEnd.push(record);
+    if (!isOnShelf(record.status)) return;
+
+    const key = equipmentKey(record.type);
+    const line = lines.get(key) ?? { equipment: record.type.trim(), opening: 0, added: 0, used: 0, failed: 0, closing: 0 };
+    lines.set(key, line);
+    if (date < from) {
+      line.opening += sign * record.quantity;
+    } else if (record.testId) {
+      line.failed -= sign * record.quantity;
+    } else if (sign > 0) {
+      line.added += record.quantity;
+    } else {
+      line.used += record.quantity;
+    }
+  });
+
+  const reportLines = [...lines.values()]
+    .map(line => ({ ...line, closing: line.opening + line.added - line.used - line.failed }))
+    .filter(line => line.opening || line.added || line.used || line.failed || line.closing)
+    .sort((a, b) => a.equipment.localeCompare(b.equipment));
+
+  const totals = reportLines.reduce<StockReportTotals>(
+    (sum, line) => ({
+      opening: sum.opening + line.opening,
+      added: sum.added + line.added,
+      used: sum.used + line.used,
+      failed: sum.failed + line.failed,
+      closing: sum.closing + line.closing,
+    }),
+    { opening: 0, added: 0, used: 0, failed: 0, closing: 0 }
+  );
+
+  const waitingForTest = pendingTests(vendor, foldMovements(area, upToMonthEnd.map(recordToMovement)))
+    .map(test => test.balance);
+
+  return { area, vendor, month, lines: reportLines, totals, waitingForTest, undatedRows };
+};
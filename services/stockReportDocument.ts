@@ -0,0 +1,348 @@
+import { areaConfig, hasSeveralVendors } from './areaRegistry';
+import { A4_PORTRAIT, createPdf, PDF_MIME_TYPE, PdfPage } from './export/pdf';
+import { formattersFor, localeStore, t } from './i18n';
+import { areaSlug } from './routing';
+import { StockReport, StockReportTotals } from './stockReport';
+
+export interface ReportColumn {
+  label: string;
+  numeric?: boolean;
+}
+
+/** The report as a list of blocks, laid out the same way for the print page and the PDF. */
+export type ReportBlock =
+  | { kind: 'heading'; text: string }
+  | { kind: 'table'; columns: ReportColumn[]; rows: string[][]; totals?: string[] }
+  | { kind: 'note'; text: string }
+  | { kind: 'signatures'; roles: { role: string; name: string }[] };
+
+export interface ReportDocument {
+  title: string;
+  subtitle: string;
+  generated: string;
+  blocks: ReportBlock[];
+}
+
+/** The report's content in the interface language; `preparedBy` pre-fills the first signature. */
+export const reportDocument = (report: StockReport, preparedBy: string, now = new Date()): ReportDocument => {
+  const { formatDateTime, formatMonthName, formatNumber } = formattersFor(localeStore.current());
+  const config = areaConfig(report.area);
+  const stock = hasSeveralVendors(report.area) ? `${config.name} · ${report.vendor.name}` : config.name;
+  const amounts = (line: StockReportTotals) =>
+    [line.opening, line.added, line.used, line.failed, line.closing].map(formatNumber);
+
+  const blocks: ReportBlock[] = [{ kind: 'heading', text: t('report.summary') }];
+  if (report.lines.length === 0) {
+    blocks.push({ kind: 'note', text: t('report.noMovements') });
+  } else {
+    blocks.push({
+      kind: 'table',
+      columns: [
+        { label: t('report.equipment') },
+        ...(['report.opening', 'report.added', 'report.used', 'report.failed', 'report.closing'] as const)
+          .map(key => ({ label: t(key), numeric: true })),
+      ],
+      rows: report.lines.map(line => [line.equipment, ...amounts(line)]),
+      totals: [t('viewer.total'), ...amounts(report.totals)],
+    });
+    if (report.totals.failed) blocks.push({ kind: 'note', text: t('report.failedHelp') });
+  }
+
+  blocks.push({ kind: 'heading', text: t('report.waiting') });
+  blocks.push(report.waitingForTest.length === 0
+    ? { kind: 'note', text: t('report.nothingWaiting') }
+    : {
+      kind: 'table',
+      columns: [{ label: t('report.equipment') }, { label: t('report.model') }, { label: t('report.quantity'), numeric: true }],
+      rows: report.waitingForTest.map(balance => [balance.equipment, balance.model, formatNumber(balance.quantity)]),
+    });
+
+  if (report.undatedRows > 0) blocks.push({ kind: 'note', text: t('report.undated', { count: report.undatedRows }) });
+
+  blocks.push({
+    kind: 'signatures',
+    roles: [
+      { role: t('report.preparedBy'), name: preparedBy },
+      { role: t('report.checkedBy'), name: '' },
+      { role: t('report.approvedBy'), name: '' },
+    ],
+  });
+
+  return {
+    title: t('report.title'),
+    subtitle: `${stock} · ${formatMonthName(report.month)}`,
+    generated: t('report.generated', { time: formatDateTime(now) }),
+    blocks,
+  };
+};
+
+/** e.g. `invengo_pulp2_stock-report_abb_2025-10.pdf`. */
+export const reportFilename = (report: StockReport) =>
+  `invengo_${areaSlug(report.area)}_stock-report_${report.vendor.id}_${report.month}.pdf`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Print-ready A4 page; table headers repeat on every printed page. */
+export const reportHtml = (doc: ReportDocument) => {
+  const cell = (tag: 'th' | 'td', value: string, column: ReportColumn) =>
+    `<${tag}${column.numeric ? ' class="num"' : ''}>${escapeHtml(value)}</${tag}>`;
+  const block = (item: ReportBlock) => {
+    switch (item.kind) {
+      case 'heading':
+        return `<h2>${escapeHtml(item.text)}</h2>`;
+      case 'note':
+        return `<p class="note">${escapeHtml(item.text)}</p>`;
+      case 'table':
+        return `<table>
+  <thead><tr>${item.columns.map(column => cell('th', column.label, column)).join('')}</tr></thead>
+  <tbody>${item.rows.map(row => `<tr>${row.map((value, i) => cell('td', value, item.columns[i])).join('')}</tr>`).join('')}</tbody>
+  ${item.totals ? `<tfoot><tr>${item.totals.map((value, i) => cell('td', value, item.columns[i])).join('')}</tr></tfoot>` : ''}
+</table>`;
+      case 'signatures':
+        return `<div class="signatures">${item.roles.map(({ role, name }) => `
+  <div class="signature">
+    <div class="role">${escapeHtml(role)}</div>
+    <div class="line"></div>
+    <div>${escapeHtml(t('report.name'))}: ${name ? escapeHtml(name) : '<span class="blank"></span>'}</div>
+    <div>${escapeHtml(t('report.date'))}: <span class="blank"></span></div>
+  </div>`).join('')}
+</div>`;
+    }
+  };
+
+  return `<!DOCTYPE html>
+<html lang="${localeStore.current()}"><head><meta charset="utf-8"><title>${escapeHtml(`${doc.title} – ${doc.subtitle}`)}</title>
+<style>
+  @page { size: A4; margin: 15mm; }
+  body { margin: 0; font-family: sans-serif; font-size: 10pt; color: #222; }
+  @media screen { body { padding: 15mm; } }
+  h1 { font-size: 16pt; margin: 0; }
+  .subtitle { font-size: 11pt; margin-top: 1mm; }
+  .generated { color: #777; font-size: 8pt; margin-top: 1mm; }
+  h2 { font-size: 12pt; margin: 7mm 0 2mm; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 1.5mm 2mm; border-bottom: 0.2mm solid #ccc; text-align: left; }
+  th { background: #eee; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; }
+  tfoot td { font-weight: bold; border-top: 0.4mm solid #222; }
+  .num { text-align: right; }
+  .note { color: #555; font-size: 9pt; }
+  .signatures { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8mm; margin-top: 14mm; break-inside: avoid; }
+  .role { font-weight: bold; }
+  .line { border-bottom: 0.3mm solid #222; height: 16mm; margin-bottom: 2mm; }
+  .blank { display: inline-block; width: 30mm; border-bottom: 0.2mm dotted #777; }
+</style></head>
+<body>
+<h1>${escapeHtml(doc.title)}</h1>
+<div class="subtitle">${escapeHtml(doc.subtitle)}</div>
+<div class="generated">${escapeHtml(doc.generated)}</div>
+${doc.blocks.map(block).join('\n')}
+</body></html>`;
+};
+
+/** Pixels per PDF point: about 144 dpi, sharp enough to print small text. */
+const SCALE = 2;
+const MARGIN = 42;
+const FOOTER_HEIGHT = 20;
+const ROW_HEIGHT = 18;
+const NUMERIC_COLUMN_WIDTH = 72;
+const FONT = 'sans-serif';
+const JPEG_QUALITY = 0.92;
+
+/** Draws the report onto A4 canvases, breaking pages between blocks and table rows. */
+const drawPages = (doc: ReportDocument): HTMLCanvasElement[] => {
+  const { width, height } = A4_PORTRAIT;
+  const contentWidth = width - 2 * MARGIN;
+  const bottom = height - MARGIN - FOOTER_HEIGHT;
+  const canvases: HTMLCanvasElement[] = [];
+  let ctx!: CanvasRenderingContext2D;
+  let y = 0;
+
+  const newPage = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * SCALE);
+    canvas.height = Math.round(height * SCALE);
+    ctx = canvas.getContext('2d')!;
+    ctx.scale(SCALE, SCALE);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    canvases.push(canvas);
+    y = MARGIN;
+  };
+  /** Starts a new page unless `needed` points still fit on this one. */
+  const ensure = (needed: number) => {
+    if (y + needed > bottom) {
+      newPage();
+      return true;
+    }
+    return false;
+  };
+
+  const setFont = (size: number, bold = false, color = '#222222') => {
+    ctx.font = `${bold ? 'bold ' : ''}${size}px ${FONT}`;
+    ctx.fillStyle = color;
+  };
+  /** Shortens text with an ellipsis to fit `maxWidth`. */
+  const fit = (text: string, maxWidth: number) => {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let end = text.length;
+    while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+    return `${text.slice(0, end)}…`;
+  };
+  const line = (x1: number, y1: number, x2: number, y2: number, color: string, lineWidth: number) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = lineWidth;
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    ctx.stroke();
+  };
+  /** Wraps text at spaces, or anywhere for words (or Thai phrases) wider than the line. */
+  const wrap = (text: string, maxWidth: number) => {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(' ')) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (ctx.measureText(candidate).width <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+      current = word;
+      while (ctx.measureText(current).width > maxWidth && current.length > 1) {
+        let end = current.length;
+        while (end > 1 && ctx.measureText(current.slice(0, end)).width > maxWidth) end--;
+        lines.push(current.slice(0, end));
+        current = current.slice(end);
+      }
+    }
+    if (current) lines.push(current);
+    return lines;
+  };
+
+  const drawTable = (block: Extract<ReportBlock, { kind: 'table' }>) => {
+    const textColumns = block.columns.filter(column => !column.numeric).length;
+    const textWidth = (contentWidth - (block.columns.length - textColumns) * NUMERIC_COLUMN_WIDTH) / Math.max(textColumns, 1);
+    const widths = block.columns.map(column => (column.numeric ? NUMERIC_COLUMN_WIDTH : textWidth));
+    const drawRow = (cells: string[], style: 'header' | 'body' | 'totals') => {
+      if (style === 'header') {
+        ctx.fillStyle = '#eeeeee';
+        ctx.fillRect(MARGIN, y, contentWidth, ROW_HEIGHT);
+      }
+      setFont(9, style !== 'body');
+      let x = MARGIN;
+      cells.forEach((value, i) => {
+        const text = fit(value, widths[i] - 8);
+        ctx.textAlign = block.columns[i].numeric ? 'right' : 'left';
+        ctx.fillText(text, block.columns[i].numeric ? x + widths[i] - 4 : x + 4, y + 12.5);
+        x += widths[i];
+      });
+      ctx.textAlign = 'left';
+      if (style === 'totals') line(MARGIN, y, MARGIN + contentWidth, y, '#222222', 0.8);
+      y += ROW_HEIGHT;
+      line(MARGIN, y, MARGIN + contentWidth, y, '#cccccc', 0.4);
+    };
+
+    const header = block.columns.map(column => column.label);
+    ensure(ROW_HEIGHT * 2);
+    drawRow(header, 'header');
+    [...block.rows.map(row => ({ row, style: 'body' as const })), ...(block.totals ? [{ row: block.totals, style: 'totals' as const }] : [])]
+      .forEach(({ row, style }) => {
+        if (ensure(ROW_HEIGHT)) drawRow(header, 'header');
+        drawRow(row, style);
+      });
+  };
+
+  const drawSignatures = (block: Extract<ReportBlock, { kind: 'signatures' }>) => {
+    const gap = 24;
+    const boxWidth = (contentWidth - gap * (block.roles.length - 1)) / block.roles.length;
+    y += 30;
+    ensure(90);
+    block.roles.forEach(({ role, name }, i) => {
+      const x = MARGIN + i * (boxWidth + gap);
+      setFont(9, true);
+      ctx.fillText(fit(role, boxWidth), x, y + 10);
+      line(x, y + 52, x + boxWidth, y + 52, '#222222', 0.8);
+      setFont(9);
+      const nameLabel = `${t('report.name')}: `;
+      ctx.fillText(nameLabel, x, y + 68);
+      const nameX = x + ctx.measureText(nameLabel).width;
+      if (name) ctx.fillText(fit(name, boxWidth - (nameX - x)), nameX, y + 68);
+      else line(nameX, y + 70, x + boxWidth, y + 70, '#777777', 0.4);
+      const dateLabel = `${t('report.date')}: `;
+      ctx.fillText(dateLabel, x, y + 84);
+      line(x + ctx.measureText(dateLabel).width, y + 86, x + boxWidth, y + 86, '#777777', 0.4);
+    });
+    y += 90;
+  };
+
+  newPage();
+  setFont(16, true);
+  ctx.fillText(fit(doc.title, contentWidth), MARGIN, y + 16);
+  setFont(11);
+  ctx.fillText(fit(doc.subtitle, contentWidth), MARGIN, y + 33);
+  setFont(8, false, '#777777');
+  ctx.fillText(fit(doc.generated, contentWidth), MARGIN, y + 45);
+  y += 50;
+
+  doc.blocks.forEach(block => {
+    switch (block.kind) {
+      case 'heading':
+        y += 14;
+        ensure(16 + ROW_HEIGHT * 2);
+        setFont(12, true);
+        ctx.fillText(fit(block.text, contentWidth), MARGIN, y + 12);
+        y += 20;
+        break;
+      case 'note':
+        setFont(9, false, '#555555');
+        wrap(block.text, contentWidth).forEach(text => {
+          ensure(13);
+          setFont(9, false, '#555555');
+          ctx.fillText(text, MARGIN, y + 10);
+          y += 13;
+        });
+        y += 4;
+        break;
+      case 'table':
+        drawTable(block);
+        y += 6;
+        break;
+      case 'signatures':
+        drawSignatures(block);
+        break;
+    }
+  });
+
+  // Page numbers go on last, once the page count is known.
+  canvases.forEach((canvas, i) => {
+    ctx = canvas.getContext('2d')!;
+    setFont(8, false, '#777777');
+    ctx.fillText(fit(`${doc.title} · ${doc.subtitle}`, contentWidth * 0.7), MARGIN, height - MARGIN);
+    ctx.textAlign = 'right';
+    ctx.fillText(t('report.page', { page: i + 1, count: canvases.length }), width - MARGIN, height - MARGIN);
+  });
+  return canvases;
+};
+
+const toJpeg = (canvas: HTMLCanvasElement): Promise<PdfPage> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error('The browser could not encode the report page.'));
+        return;
+      }
+      blob.arrayBuffer().then(
+        buffer => resolve({ jpeg: new Uint8Array(buffer), width: canvas.width, height: canvas.height }),
+        reject
+      );
+    }, 'image/jpeg', JPEG_QUALITY);
+  });
+
+/** The report as an A4 PDF, made entirely in the browser. */
+export const reportPdf = async (doc: ReportDocument): Promise<Blob> => {
+  const pages = await Promise.all(drawPages(doc).map(toJpeg));
+  return new Blob([createPdf(pages)], { type: PDF_MIME_TYPE });
+};
@@ -0,0 +1,30 @@
+import { TestResult } from './api';
+import { VendorConfig } from './areaRegistry';
+import { BalanceSheet, READY_STATUS, sortedBalances, StockBalance, TEST_PENDING_STATUS } from './ledger';
+import { MessageKey } from './i18n';
+
+export const TEST_RESULT_LABELS: Record<TestResult, MessageKey> = {
+  pass: 'tests.result.pass',
+  fail: 'tests.result.fail',
+};
+
+/** Items of one vendor's stock sheet that are on the shelf but still have to be tested. */
+export interface PendingTest {
+  vendor: VendorConfig;
+  balance: StockBalance;
+}
+
+const isTestPending = (status: string) => status.trim().toLowerCase() === TEST_PENDING_STATUS.toLowerCase();
+
+export const pendingTests = (vendor: VendorConfig, balances: BalanceSheet): PendingTest[] =>
+  sortedBalances(balances)
+    .filter(balance => isTestPending(balance.status) && balance.quantity > 0)
+    .map(balance => ({ vendor, balance }));
+
+/** Units waiting for test, summed over all items. */
+export const pendingTestQuantity = (tests: PendingTest[]) =>
+  tests.reduce((sum, test) => sum + test.balance.quantity, 0);
+
+/** Statuses a failed item can move to: whatever else the backend offers, e.g. scrap or return to vendor. */
+export const failStatuses = (statuses: string[]) =>
+  statuses.filter(status => status !== READY_STATUS && !isTestPending(status));
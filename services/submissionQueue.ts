@@ -0,0 +1,293 @@
+import { Area } from '../types';
+import { BackendError, CreateEntryAction, DeploymentError, inventoryApi, InventoryClient, SessionExpiredError, StockEntryInput } from './api';
+import { session } from './auth';
+import { modelKey } from './modelNames';
+import { openStore } from './localDb';
+
+export type SubmissionStatus = 'pending' | 'synced' | 'failed';
+
+export interface QueuedSubmission {
+  /** Also sent as the entry's idempotency key, so a retried POST can never add a second row. */
+  id: string;
+  action: CreateEntryAction;
+  entry: StockEntryInput;
+  /**
+   * Username of whoever recorded the entry. It is only sent while they are signed in, so it goes out
+   * under their own session token; entries queued before this was kept wait for anyone to sign in.
+   */
+  recordedBy?: string;
+  status: SubmissionStatus;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  syncedAt?: number;
+  lastError?: string;
+  /** The last attempt reached a deployment that couldn't run it (outdated, or not shared with "Anyone"). */
+  deploymentError?: boolean;
+}
+
+type Listener = (submissions: QueuedSubmission[]) => void;
+
+/** Who is signed in on this device, as far as the queue needs to know. */
+export interface QueueSession {
+  /** Username of the signed-in user, or null. */
+  current(): string | null;
+  subscribe(listener: () => void): () => void;
+}
+
+const BASE_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 10 * 60_000;
+const MAX_ATTEMPTS = 10;
+/** Synced entries stay visible for a day so people can confirm what went through, then get pruned. */
+const SYNCED_RETENTION_MS = 24 * 60 * 60_000;
+
+/** Exponential backoff with up to 20% jitter, so tablets coming back online don't all retry in lockstep. */
+export const retryDelay = (attempts: number) => {
+  const base = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+  return Math.round(base * (1 + Math.random() * 0.2));
+};
+
+const generateId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+/** Whether the entry may be sent now: only under the session of the user who recorded it. */
+export const canSendAs = (submission: QueuedSubmission, username: string | null) =>
+  !!username && (!submission.recordedBy || submission.recordedBy === username);
+
+/**
+ * Durable outbox for stock entries.
+ * Entries are written to IndexedDB before the first POST, then retried with backoff until the
+ * backend accepts them. A `BackendError` (the sheet refused the entry) marks it failed straight
+ * away; network errors and expired sessions keep it pending. Entries are held while their recorder
+ * is signed out, and sending pauses whenever nobody is signed in.
+ */
+export const createSubmissionQueue = (client: InventoryClient, queueSession: QueueSession) => {
+  const store = openStore<QueuedSubmission>('submissions');
+  const listeners = new Set<Listener>();
+  let submissions: QueuedSubmission[] = [];
+  let loaded: Promise<void> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let flushing: Promise<void> | null = null;
+  let started = false;
+  // Ids with a POST currently on the wire; the timer-driven flush must not send them a second time.
+  const inFlight = new Set<string>();
+
+  const notify = () => {
+    const snapshot = [...submissions].sort((a, b) => b.createdAt - a.createdAt);
+    listeners.forEach(listener => listener(snapshot));
+  };
+
+  const save = async (submission: QueuedSubmission) => {
+    submissions = [...submissions.filter(s => s.id !== submission.id), submission];
+    notify();
+    await store.put(submission);
+  };
+
+  const load = () => {
+    if (!loaded) {
+      loaded = store.getAll().then(async stored => {
+        const cutoff = Date.now() - SYNCED_RETENTION_MS;
+        const expired = stored.filter(s => s.status === 'synced' && (s.syncedAt ?? 0) < cutoff);
+        await Promise.all(expired.map(s => store.delete(s.id)));
+        submissions = stored.filter(s => !expired.includes(s));
+        notify();
+      }).catch(err => {
+        // Let the next call try again instead of failing on the same rejected promise forever.
+        loaded = null;
+        throw err;
+      });
+    }
+    return loaded;
+  };
+
+  const isSendable = (submission: QueuedSubmission) =>
+    submission.status === 'pending' && canSendAs(submission, queueSession.current());
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const pending = submissions.filter(isSendable);
+    if (pending.length === 0) return;
+    const nextAt = Math.min(...pending.map(s => s.nextAttemptAt));
+    timer = setTimeout(() => { void flush(); }, Math.max(nextAt - Date.now(), 0));
+  };
+
+  const attempt = async (submission: QueuedSubmission): Promise<QueuedSubmission> => {
+    if (inFlight.has(submission.id) || !canSendAs(submission, queueSession.current())) return submission;
+    inFlight.add(submission.id);
+    const attempts = submission.attempts + 1;
+    try {
+      await client.createEntry(submission.action, { ...submission.entry, idempotencyKey: submission.id });
+      const synced: QueuedSubmission = { ...submission, attempts, status: 'synced', syncedAt: Date.now(), lastError: undefined, deploymentError: undefined };
+      await save(synced);
+      return synced;
+    } catch (err: any) {
+      // An expired session is fixed by signing in again, so it never uses up the attempts.
+      const sessionExpired = err instanceof SessionExpiredError;
+      const rejected = err instanceof BackendError && !sessionExpired;
+      const giveUp = rejected || (!sessionExpired && attempts >= MAX_ATTEMPTS);
+      const updated: QueuedSubmission = {
+        ...submission,
+        attempts: sessionExpired ? submission.attempts : attempts,
+        status: giveUp ? 'failed' : 'pending',
+        nextAttemptAt: Date.now() + retryDelay(attempts),
+        lastError: err?.message || String(err),
+        deploymentError: err instanceof DeploymentError || undefined,
+      };
+      await save(updated);
+      return updated;
+    } finally {
+      inFlight.delete(submission.id);
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    if (!flushing) {
+      flushing = (async () => {
+        await load();
+        const now = Date.now();
+        const due = submissions.filter(s => isSendable(s) && s.nextAttemptAt <= now);
+        // Send one at a time so the sheet receives rows in the order they were recorded.
+        for (const { id } of due.sort((a, b) => a.createdAt - b.createdAt)) {
+          // Re-read: a manual retry or the enqueue attempt may have settled it meanwhile.
+          // Also re-checks the session, in case someone signed out mid-flush.
+          const current = submissions.find(s => s.id === id);
+          if (current && isSendable(current)) {
+            await attempt(current);
+          }
+        }
+      })().catch(err => {
+        // Callers fire and forget; the entries stay pending for the next flush.
+        console.error('Failed to flush the submission queue:', err);
+      }).finally(() => {
+        flushing = null;
+        schedule();
+      });
+    }
+    return flushing;
+  };
+
+  return {
+    /** Loads persisted entries and keeps retrying them while the page is open. */
+    start() {
+      if (started) return;
+      started = true;
+      void flush();
+      window.addEventListener('online', () => { void flush(); });
+      // Signing in releases the entries that user recorded; signing out pauses the timer.
+      queueSession.subscribe(() => { void flush(); });
+    },
+
+    /**
+     * Persists the entry, then tries to send it once right away.
+     * Resolves with the entry's state after that first attempt; a still-pending entry is safely queued.
+     */
+    async enqueue(action: CreateEntryAction, entry: StockEntryInput): Promise<QueuedSubmission> {
+      await load();
+      const now = Date.now();
+      const submission: QueuedSubmission = {
+        id: generateId(),
+        action,
+        entry,
+        recordedBy: queueSession.current() ?? undefined,
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        nextAttemptAt: now,
+      };
+      await save(submission);
+      const result = await attempt(submission);
+      schedule();
+      return result;
+    },
+
+    /**
+     * Persists every entry, then sends them in order, one request per entry: there is no batch action,
+     * so a 300-row file makes 300 calls. The entries can partly go through: sending stops at the first
+     * connection failure, and that entry and the ones after it stay queued for the regular retries.
+     * Resolves with each entry's state, in the order given.
+     */
+    async enqueueEach(action: CreateEntryAction, entries: StockEntryInput[]): Promise<QueuedSubmission[]> {
+      await load();
+      const now = Date.now();
+      const recordedBy = queueSession.current() ?? undefined;
+      const batch = entries.map((entry, index): QueuedSubmission => ({
+        id: generateId(),
+        action,
+        entry,
+        recordedBy,
+        status: 'pending',
+        attempts: 0,
+        // Distinct creation times keep the batch in file order when the queue flushes it later.
+        createdAt: now + index,
+        nextAttemptAt: now,
+      }));
+      for (const submission of batch) {
+        await save(submission);
+      }
+
+      const results: QueuedSubmission[] = [];
+      let offline = false;
+      for (const submission of batch) {
+        const current = submissions.find(s => s.id === submission.id) ?? submission;
+        const result = offline || current.status !== 'pending' ? current : await attempt(current);
+        offline = offline || result.status === 'pending';
+        results.push(result);
+      }
+      schedule();
+      return results;
+    },
+
+    async retry(id: string) {
+      const submission = submissions.find(s => s.id === id);
+      if (!submission || submission.status === 'synced') return;
+      await save({ ...submission, status: 'pending', nextAttemptAt: Date.now() });
+      await flush();
+    },
+
+    async dismiss(id: string) {
+      submissions = submissions.filter(s => s.id !== id);
+      notify();
+      await store.delete(id);
+    },
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      void load().then(() => listener([...submissions].sort((a, b) => b.createdAt - a.createdAt)));
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export type SubmissionQueue = ReturnType<typeof createSubmissionQueue>;
+
+export const submissionQueue = createSubmissionQueue(inventoryApi, {
+  current: () => session.current()?.user.username ?? null,
+  subscribe: listener => session.subscribe(() => listener()),
+});
+
+export const submissionsForArea = (submissions: QueuedSubmission[], area: Area) =>
+  submissions.filter(s => s.entry.area === area);
+
+/** How long after an entry an identical one is treated as a probable double submission. */
+export const DUPLICATE_WINDOW_MS = 10 * 60_000;
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * The latest entry from this device identical to `entry` (same sheet, equipment, model, quantity,
+ * Add/Use and recorder) made within the duplicate window, or null. Failed entries don't count.
+ */
+export const findRecentDuplicate = (submissions: QueuedSubmission[], entry: StockEntryInput, now = Date.now()) =>
+  submissions.find(s =>
+    s.status !== 'failed' &&
+    now - s.createdAt <= DUPLICATE_WINDOW_MS &&
+    s.entry.sheetName === entry.sheetName &&
+    sameText(s.entry.equipment, entry.equipment) &&
+    modelKey(s.entry.model) === modelKey(entry.model) &&
+    Number(s.entry.number) === Number(entry.number) &&
+    s.entry.addOrUse === entry.addOrUse &&
+    s.entry.recordBy === entry.recordBy
+  ) ?? null;
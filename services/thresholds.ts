@@ -0,0 +1,47 @@
+import { SheetDataType } from '../types';
+import { StockThreshold } from './api';
+import { BalanceSheet, getEquipmentBalance, READY_STATUS } from './ledger';
+
+export type AlertSeverity = 'critical' | 'warning' | 'low';
+
+export interface LowStockAlert {
+  threshold: StockThreshold;
+  onHand: number;
+  severity: AlertSeverity;
+}
+
+/**
+ * Nothing usable left is critical, half the minimum or less is a warning,
+ * anything else at or below the minimum is low.
+ */
+export const alertSeverity = (onHand: number, minQuantity: number): AlertSeverity | null => {
+  if (onHand > minQuantity) return null;
+  if (onHand <= 0) return 'critical';
+  if (onHand <= minQuantity / 2) return 'warning';
+  return 'low';
+};
+
+const SEVERITY_ORDER: Record<AlertSeverity, number> = { critical: 0, warning: 1, low: 2 };
+
+/**
+ * Compares every threshold with the ready-to-use balance of its stock sheet.
+ * Thresholds whose sheet hasn't loaded are skipped rather than reported as empty.
+ */
+export const evaluateThresholds = (
+  thresholds: StockThreshold[],
+  balancesByDataType: Partial<Record<SheetDataType, BalanceSheet>>,
+): LowStockAlert[] => {
+  const alerts: LowStockAlert[] = [];
+  thresholds.forEach(threshold => {
+    const balances = balancesByDataType[threshold.dataType];
+    if (!balances) return;
+    const onHand = getEquipmentBalance(balances, threshold.equipment, threshold.model, READY_STATUS);
+    const severity = alertSeverity(onHand, threshold.minQuantity);
+    if (severity) {
+      alerts.push({ threshold, onHand, severity });
+    }
+  });
+  return alerts.sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.onHand - b.onHand
+  );
+};
@@ -0,0 +1,38 @@
+import { Area } from '../types';
+import { StockTransfer, TransferEndpoint, TransferState } from './api';
+import { AREAS, findArea, VendorConfig, withVendor } from './areaRegistry';
+import { MessageKey } from './i18n';
+
+export const TRANSFER_STATE_LABELS: Record<TransferState, MessageKey> = {
+  in_transit: 'transfers.state.inTransit',
+  received: 'transfers.state.received',
+  cancelled: 'transfers.state.cancelled',
+};
+
+export const transferEndpoint = (area: Area, vendor: VendorConfig): TransferEndpoint => ({
+  area,
+  dataType: vendor.stockDataType,
+  sheetName: vendor.entrySheet,
+});
+
+/** The area, plus the vendor in areas with several, e.g. "E/WTP (SUPCON)". */
+export const endpointLabel = (endpoint: TransferEndpoint) => {
+  const config = findArea(endpoint.area);
+  // Transfers can outlive an area's entry in areas.json; fall back to what the backend recorded.
+  if (!config) return endpoint.area;
+  const vendor = config.vendors.find(candidate => candidate.stockDataType === endpoint.dataType);
+  return vendor ? withVendor(config.name, config.id, vendor) : config.name;
+};
+
+/** Every stock sheet that can receive a transfer from `from`: all other area/vendor sheets. */
+export const transferDestinations = (from: TransferEndpoint): TransferEndpoint[] =>
+  AREAS.flatMap(config => config.vendors.map(vendor => transferEndpoint(config.id, vendor)))
+    .filter(endpoint => endpoint.sheetName !== from.sheetName);
+
+export const endpointKey = (endpoint: TransferEndpoint) => `${endpoint.area}\u0000${endpoint.dataType}`;
+
+export const isOpenTransfer = (transfer: StockTransfer) => transfer.state === 'in_transit';
+
+/** Open transfers on their way into the area; these are the ones waiting for someone there to receive them. */
+export const incomingTransfers = (transfers: StockTransfer[], area: Area) =>
+  transfers.filter(transfer => isOpenTransfer(transfer) && transfer.to.area === area);
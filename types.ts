@@ -1,14 +1,12 @@
-export enum Area {
-  PULP2 = 'Pulp 2',
-  NPP11 = 'NPP11',
-  EWTP = 'E/WTP',
-}
+/** Id of a plant area as declared in `areas.json`; also the `area` every backend action receives. */
+export type Area = string;
 
-export type ViewType =
-  | 'dashboard'
-  | 'stock'
-  | 'stock_abb'
-  | 'stock_supcon'
-  | 'equipment'
-  | 'customer_form'
-  | 'customer_form_supcon';
\ No newline at end of file
+/**
+ * A page of an area: `dashboard`, `equipment`, a vendor's stock view (named after its data type),
+ * entry form (`customer_form[_<vendor>]`) or import page (`customer_import[_<vendor>]`).
+ * `viewsForArea` lists the ones an area offers.
+ */
+export type ViewType = string;
+
+/** `type` passed to `getData`: the equipment matrix or one vendor's stock sheet, as declared in `areas.json`. */
+export type SheetDataType = string;
\ No newline at end of file
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.INVENGO_BACKEND': JSON.stringify(env.INVENGO_BACKEND),
+        'process.env.INVENGO_AUTH': JSON.stringify(env.INVENGO_AUTH)
       },
       resolve: {
         alias: {